@@ -0,0 +1,663 @@
+import { Epsilon, FloatArray } from './types'
+import { Vector3 } from './Vector3'
+import { Matrix } from './Matrix'
+
+/**
+ * @public
+ * AABB (axis-aligned bounding box) is a type and a namespace.
+ * - The namespace contains all types and functions to operates with AABB
+ * - The type AABB is an alias to AABB.ReadonlyAABB
+ * ```
+ *
+ * // Namespace usage example
+ * const bounds = AABB.fromPoints([pointA, pointB, pointC])
+ * const inside = AABB.containsPoint(bounds, position)
+ *
+ * // Type usage example
+ * const readonlyBounds: AABB = AABB.create()
+ * readonlyBounds.min = Vector3.One() // this FAILS
+ *
+ * // For mutable usage, use `AABB.Mutable`
+ * const bounds: AABB.Mutable = AABB.create()
+ * bounds.min.x = 3.0 // this WORKS
+ * ```
+ */
+export type AABB = AABB.ReadonlyAABB
+
+/**
+ * @public
+ * AABB (axis-aligned bounding box) is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with AABB
+ * const bounds = AABB.fromPoints([pointA, pointB, pointC])
+ * // The type AABB is an alias to AABB.ReadonlyAABB
+ * const readonlyBounds: AABB = AABB.create()
+ * readonlyBounds.min = Vector3.One() // this FAILS
+ *
+ * // For mutable usage, use `AABB.Mutable`
+ * const bounds: AABB.Mutable = AABB.create()
+ * bounds.min.x = 3.0 // this WORKS
+ * ```
+ */
+export namespace AABB {
+  /**
+   * @public
+   * For external use, type with `AABB`, e.g. `const bounds: AABB = AABB.create()`.
+   * For mutable typing, use `AABB.Mutable`, e.g. `const bounds: AABB.Mutable = AABB.create()`.
+   */
+  export type ReadonlyAABB = {
+    /**
+     * Minimum corner of the box
+     */
+    readonly min: Vector3.ReadonlyVector3
+    /**
+     * Maximum corner of the box
+     */
+    readonly max: Vector3.ReadonlyVector3
+  }
+
+  /**
+   * @public
+   * For external usage, type with `AABB`, e.g. `const bounds: AABB = AABB.create()`.
+   * For mutable typing, use `AABB.Mutable`, e.g. `const bounds: AABB.Mutable = AABB.create()`.
+   */
+  export type MutableAABB = {
+    /**
+     * Minimum corner of the box
+     */
+    min: Vector3.MutableVector3
+    /**
+     * Maximum corner of the box
+     */
+    max: Vector3.MutableVector3
+  }
+
+  /**
+   * @public
+   * Type with `AABB` for readonly usage, e.g. `const bounds: AABB = AABB.create()`.
+   * For mutable, use `AABB.Mutable`, e.g. `const bounds: AABB.Mutable = AABB.create()`.
+   */
+  export type Mutable = MutableAABB
+
+  /**
+   * Creates a new AABB from the given minimum and maximum corners (copied)
+   * @param min - defines the minimum corner (0, 0, 0 by default)
+   * @param max - defines the maximum corner (0, 0, 0 by default)
+   * @returns the new AABB
+   */
+  export function create(
+    min: Vector3.ReadonlyVector3 = Vector3.Zero(),
+    max: Vector3.ReadonlyVector3 = Vector3.Zero()
+  ): MutableAABB {
+    return { min: Vector3.clone(min), max: Vector3.clone(max) }
+  }
+
+  /**
+   * Creates a new empty AABB: its minimum corner is set to +Infinity and its maximum corner to -Infinity,
+   * so expanding it by any point results in a box containing only that point
+   * @returns the new empty AABB
+   */
+  export function Empty(): MutableAABB {
+    return {
+      min: Vector3.create(Infinity, Infinity, Infinity),
+      max: Vector3.create(-Infinity, -Infinity, -Infinity)
+    }
+  }
+
+  /**
+   * Resets the given AABB to the empty state
+   * @param result - defines the AABB to reset
+   */
+  export function setEmpty(result: MutableAABB): void {
+    Vector3.copyFromFloats(Infinity, Infinity, Infinity, result.min)
+    Vector3.copyFromFloats(-Infinity, -Infinity, -Infinity, result.max)
+  }
+
+  /**
+   * Checks if the AABB is empty (any of its minimum coordinates is greater than the maximum one)
+   * @param aabb - defines the AABB to check
+   * @returns true if the AABB contains no point
+   */
+  export function isEmpty(aabb: ReadonlyAABB): boolean {
+    return (
+      aabb.min.x > aabb.max.x ||
+      aabb.min.y > aabb.max.y ||
+      aabb.min.z > aabb.max.z
+    )
+  }
+
+  /**
+   * Creates a new AABB from a center and the half size of the box along each axis
+   * @param center - defines the center of the box
+   * @param extents - defines the half size of the box along each axis
+   * @returns the new AABB
+   */
+  export function fromCenterAndExtents(
+    center: Vector3.ReadonlyVector3,
+    extents: Vector3.ReadonlyVector3
+  ): MutableAABB {
+    const result = create()
+    fromCenterAndExtentsToRef(center, extents, result)
+    return result
+  }
+
+  /**
+   * Sets the given AABB from a center and the half size of the box along each axis
+   * @param center - defines the center of the box
+   * @param extents - defines the half size of the box along each axis
+   * @param result - defines the AABB where to store the result
+   */
+  export function fromCenterAndExtentsToRef(
+    center: Vector3.ReadonlyVector3,
+    extents: Vector3.ReadonlyVector3,
+    result: MutableAABB
+  ): void {
+    Vector3.subtractToRef(center, extents, result.min)
+    Vector3.addToRef(center, extents, result.max)
+  }
+
+  /**
+   * Creates a new AABB enclosing all the given points
+   * @param points - defines the points to enclose
+   * @returns the new AABB (empty if no point is given)
+   */
+  export function fromPoints(points: Vector3.ReadonlyVector3[]): MutableAABB {
+    const result = Empty()
+    fromPointsToRef(points, result)
+    return result
+  }
+
+  /**
+   * Sets the given AABB to enclose all the given points
+   * @param points - defines the points to enclose
+   * @param result - defines the AABB where to store the result
+   */
+  export function fromPointsToRef(
+    points: Vector3.ReadonlyVector3[],
+    result: MutableAABB
+  ): void {
+    setEmpty(result)
+    for (const point of points) {
+      expandByFloatsToRef(result, point.x, point.y, point.z, result)
+    }
+  }
+
+  /**
+   * Creates a new AABB enclosing the points stored as successive x, y, z values in the given array
+   * @param array - defines the source array
+   * @param offset - defines the offset in the source array (0 by default)
+   * @param count - defines the number of points to read (all the remaining points by default)
+   * @param stride - defines the number of floats between two successive points (3 by default)
+   * @returns the new AABB (empty if no point is read)
+   */
+  export function fromFloatArray(
+    array: FloatArray,
+    offset: number = 0,
+    count?: number,
+    stride: number = 3
+  ): MutableAABB {
+    const result = Empty()
+    fromFloatArrayToRef(array, offset, count, stride, result)
+    return result
+  }
+
+  /**
+   * Sets the given AABB to enclose the points stored as successive x, y, z values in the given array
+   * @param array - defines the source array
+   * @param offset - defines the offset in the source array
+   * @param count - defines the number of points to read (all the remaining points if undefined)
+   * @param stride - defines the number of floats between two successive points
+   * @param result - defines the AABB where to store the result
+   */
+  export function fromFloatArrayToRef(
+    array: FloatArray,
+    offset: number,
+    count: number | undefined,
+    stride: number,
+    result: MutableAABB
+  ): void {
+    setEmpty(result)
+    const available = Math.floor((array.length - offset - 3) / stride) + 1
+    const total = count === undefined ? available : Math.min(count, available)
+    for (let index = 0; index < total; index++) {
+      const i = offset + index * stride
+      expandByFloatsToRef(result, array[i], array[i + 1], array[i + 2], result)
+    }
+  }
+
+  /**
+   * Returns a new AABB with the same value
+   * @param aabb - defines the source AABB
+   * @returns the new AABB
+   */
+  export function clone(aabb: ReadonlyAABB): MutableAABB {
+    return create(aabb.min, aabb.max)
+  }
+
+  /**
+   * Copy source into dest
+   * @param source - defines the source AABB
+   * @param dest - defines the destination AABB
+   */
+  export function copyFrom(source: ReadonlyAABB, dest: MutableAABB): void {
+    Vector3.copyFrom(source.min, dest.min)
+    Vector3.copyFrom(source.max, dest.max)
+  }
+
+  /**
+   * Gets the center of the AABB
+   * @param aabb - defines the AABB
+   * @returns a new Vector3 located at the center of the box
+   */
+  export function getCenter(aabb: ReadonlyAABB): Vector3.MutableVector3 {
+    return Vector3.center(aabb.min, aabb.max)
+  }
+
+  /**
+   * Sets the given vector "result" with the center of the AABB
+   * @param aabb - defines the AABB
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function getCenterToRef(
+    aabb: ReadonlyAABB,
+    result: Vector3.MutableVector3
+  ): void {
+    Vector3.addToRef(aabb.min, aabb.max, result)
+    Vector3.scaleToRef(result, 0.5, result)
+  }
+
+  /**
+   * Gets the half size of the AABB along each axis
+   * @param aabb - defines the AABB
+   * @returns a new Vector3 with the extents of the box
+   */
+  export function getExtents(aabb: ReadonlyAABB): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    getExtentsToRef(aabb, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the half size of the AABB along each axis
+   * @param aabb - defines the AABB
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function getExtentsToRef(
+    aabb: ReadonlyAABB,
+    result: Vector3.MutableVector3
+  ): void {
+    Vector3.subtractToRef(aabb.max, aabb.min, result)
+    Vector3.scaleToRef(result, 0.5, result)
+  }
+
+  /**
+   * Gets the full size of the AABB along each axis
+   * @param aabb - defines the AABB
+   * @returns a new Vector3 with the size of the box
+   */
+  export function getSize(aabb: ReadonlyAABB): Vector3.MutableVector3 {
+    return Vector3.subtract(aabb.max, aabb.min)
+  }
+
+  /**
+   * Gets the 8 corners of the AABB
+   * @param aabb - defines the AABB
+   * @returns an array of 8 new Vector3
+   */
+  export function getCorners(aabb: ReadonlyAABB): Vector3.MutableVector3[] {
+    const result: Vector3.MutableVector3[] = []
+    for (let index = 0; index < 8; index++) {
+      result.push(Vector3.Zero())
+    }
+    getCornersToRef(aabb, result)
+    return result
+  }
+
+  /**
+   * Sets the first 8 vectors of the given array with the corners of the AABB.
+   * Bits 0, 1 and 2 of the corner index select the maximum coordinate on X, Y and Z respectively
+   * @param aabb - defines the AABB
+   * @param result - defines the array of (at least 8) Vector3 where to store the corners
+   */
+  export function getCornersToRef(
+    aabb: ReadonlyAABB,
+    result: Vector3.MutableVector3[]
+  ): void {
+    const { min, max } = aabb
+    for (let index = 0; index < 8; index++) {
+      Vector3.copyFromFloats(
+        index & 1 ? max.x : min.x,
+        index & 2 ? max.y : min.y,
+        index & 4 ? max.z : min.z,
+        result[index]
+      )
+    }
+  }
+
+  /**
+   * Checks if a point is inside the AABB (borders included)
+   * @param aabb - defines the AABB
+   * @param point - defines the point to check
+   * @returns true if the point is inside the box
+   */
+  export function containsPoint(
+    aabb: ReadonlyAABB,
+    point: Vector3.ReadonlyVector3
+  ): boolean {
+    return (
+      point.x >= aabb.min.x &&
+      point.x <= aabb.max.x &&
+      point.y >= aabb.min.y &&
+      point.y <= aabb.max.y &&
+      point.z >= aabb.min.z &&
+      point.z <= aabb.max.z
+    )
+  }
+
+  /**
+   * Checks if the AABB "other" is fully inside the AABB "aabb" (borders included)
+   * @param aabb - defines the container AABB
+   * @param other - defines the AABB to check
+   * @returns true if "other" is inside "aabb"
+   */
+  export function containsAABB(
+    aabb: ReadonlyAABB,
+    other: ReadonlyAABB
+  ): boolean {
+    return containsPoint(aabb, other.min) && containsPoint(aabb, other.max)
+  }
+
+  /**
+   * Checks if two AABBs intersect (touching borders count as intersection)
+   * @param a - defines the first AABB
+   * @param b - defines the second AABB
+   * @returns true if both boxes intersect
+   */
+  export function intersectsAABB(a: ReadonlyAABB, b: ReadonlyAABB): boolean {
+    return (
+      a.min.x <= b.max.x &&
+      a.max.x >= b.min.x &&
+      a.min.y <= b.max.y &&
+      a.max.y >= b.min.y &&
+      a.min.z <= b.max.z &&
+      a.max.z >= b.min.z
+    )
+  }
+
+  /**
+   * Returns a new AABB enclosing both given AABBs
+   * @param a - defines the first AABB
+   * @param b - defines the second AABB
+   * @returns the new AABB
+   */
+  export function union(a: ReadonlyAABB, b: ReadonlyAABB): MutableAABB {
+    const result = create()
+    unionToRef(a, b, result)
+    return result
+  }
+
+  /**
+   * Sets the given AABB "result" to enclose both given AABBs
+   * @param a - defines the first AABB
+   * @param b - defines the second AABB
+   * @param result - defines the AABB where to store the result
+   */
+  export function unionToRef(
+    a: ReadonlyAABB,
+    b: ReadonlyAABB,
+    result: MutableAABB
+  ): void {
+    Vector3.minimizeInPlaceFromFloatsToRef(
+      a.min,
+      b.min.x,
+      b.min.y,
+      b.min.z,
+      result.min
+    )
+    Vector3.maximizeInPlaceFromFloatsToRef(
+      a.max,
+      b.max.x,
+      b.max.y,
+      b.max.z,
+      result.max
+    )
+  }
+
+  /**
+   * Returns a new AABB as the intersection of both given AABBs
+   * @param a - defines the first AABB
+   * @param b - defines the second AABB
+   * @returns the new AABB (empty if the boxes do not intersect, see isEmpty)
+   */
+  export function intersection(a: ReadonlyAABB, b: ReadonlyAABB): MutableAABB {
+    const result = create()
+    intersectionToRef(a, b, result)
+    return result
+  }
+
+  /**
+   * Sets the given AABB "result" with the intersection of both given AABBs
+   * @param a - defines the first AABB
+   * @param b - defines the second AABB
+   * @param result - defines the AABB where to store the result (empty if the boxes do not intersect, see isEmpty)
+   */
+  export function intersectionToRef(
+    a: ReadonlyAABB,
+    b: ReadonlyAABB,
+    result: MutableAABB
+  ): void {
+    Vector3.maximizeInPlaceFromFloatsToRef(
+      a.min,
+      b.min.x,
+      b.min.y,
+      b.min.z,
+      result.min
+    )
+    Vector3.minimizeInPlaceFromFloatsToRef(
+      a.max,
+      b.max.x,
+      b.max.y,
+      b.max.z,
+      result.max
+    )
+  }
+
+  /**
+   * Returns a new AABB expanded to contain the given point
+   * @param aabb - defines the source AABB
+   * @param point - defines the point to include
+   * @returns the new AABB
+   */
+  export function expandByPoint(
+    aabb: ReadonlyAABB,
+    point: Vector3.ReadonlyVector3
+  ): MutableAABB {
+    const result = create()
+    expandByPointToRef(aabb, point, result)
+    return result
+  }
+
+  /**
+   * Sets the given AABB "result" with the source AABB expanded to contain the given point
+   * @param aabb - defines the source AABB
+   * @param point - defines the point to include
+   * @param result - defines the AABB where to store the result
+   */
+  export function expandByPointToRef(
+    aabb: ReadonlyAABB,
+    point: Vector3.ReadonlyVector3,
+    result: MutableAABB
+  ): void {
+    expandByFloatsToRef(aabb, point.x, point.y, point.z, result)
+  }
+
+  /**
+   * Sets the given AABB "result" with the source AABB expanded to contain the point of the given coordinates
+   * @param aabb - defines the source AABB
+   * @param x - defines the x coordinate of the point to include
+   * @param y - defines the y coordinate of the point to include
+   * @param z - defines the z coordinate of the point to include
+   * @param result - defines the AABB where to store the result
+   */
+  export function expandByFloatsToRef(
+    aabb: ReadonlyAABB,
+    x: number,
+    y: number,
+    z: number,
+    result: MutableAABB
+  ): void {
+    Vector3.minimizeInPlaceFromFloatsToRef(aabb.min, x, y, z, result.min)
+    Vector3.maximizeInPlaceFromFloatsToRef(aabb.max, x, y, z, result.max)
+  }
+
+  /**
+   * Returns a new AABB enclosing the given AABB transformed by the given matrix.
+   * The result is the tightest axis-aligned box containing the 8 transformed corners
+   * @param aabb - defines the source AABB
+   * @param transformation - defines the transformation matrix
+   * @returns the new AABB
+   */
+  export function transform(
+    aabb: ReadonlyAABB,
+    transformation: Matrix.ReadonlyMatrix
+  ): MutableAABB {
+    const result = create()
+    transformToRef(aabb, transformation, result)
+    return result
+  }
+
+  /**
+   * Sets the given AABB "result" to enclose the given AABB transformed by the given matrix.
+   * The result is the tightest axis-aligned box containing the 8 transformed corners
+   * @param aabb - defines the source AABB
+   * @param transformation - defines the transformation matrix
+   * @param result - defines the AABB where to store the result
+   */
+  export function transformToRef(
+    aabb: ReadonlyAABB,
+    transformation: Matrix.ReadonlyMatrix,
+    result: MutableAABB
+  ): void {
+    if (isEmpty(aabb)) {
+      setEmpty(result)
+      return
+    }
+
+    const m = transformation._m
+    if (m[3] === 0 && m[7] === 0 && m[11] === 0 && m[15] === 1) {
+      // affine transformation: project the extents on each axis (Arvo's method)
+      const cx = (aabb.min.x + aabb.max.x) * 0.5
+      const cy = (aabb.min.y + aabb.max.y) * 0.5
+      const cz = (aabb.min.z + aabb.max.z) * 0.5
+      const ex = (aabb.max.x - aabb.min.x) * 0.5
+      const ey = (aabb.max.y - aabb.min.y) * 0.5
+      const ez = (aabb.max.z - aabb.min.z) * 0.5
+
+      const ncx = cx * m[0] + cy * m[4] + cz * m[8] + m[12]
+      const ncy = cx * m[1] + cy * m[5] + cz * m[9] + m[13]
+      const ncz = cx * m[2] + cy * m[6] + cz * m[10] + m[14]
+      const nex =
+        ex * Math.abs(m[0]) + ey * Math.abs(m[4]) + ez * Math.abs(m[8])
+      const ney =
+        ex * Math.abs(m[1]) + ey * Math.abs(m[5]) + ez * Math.abs(m[9])
+      const nez =
+        ex * Math.abs(m[2]) + ey * Math.abs(m[6]) + ez * Math.abs(m[10])
+
+      Vector3.copyFromFloats(ncx - nex, ncy - ney, ncz - nez, result.min)
+      Vector3.copyFromFloats(ncx + nex, ncy + ney, ncz + nez, result.max)
+      return
+    }
+
+    // projective transformation: enclose each transformed corner
+    const corners = getCorners(aabb)
+    setEmpty(result)
+    for (const corner of corners) {
+      Vector3.transformCoordinatesToRef(corner, transformation, corner)
+      expandByPointToRef(result, corner, result)
+    }
+  }
+
+  /**
+   * Returns the point of the AABB closest to the given point
+   * @param aabb - defines the AABB
+   * @param point - defines the point
+   * @returns a new Vector3 (the point itself if it is inside the box)
+   */
+  export function closestPoint(
+    aabb: ReadonlyAABB,
+    point: Vector3.ReadonlyVector3
+  ): Vector3.MutableVector3 {
+    return Vector3.clamp(point, aabb.min, aabb.max)
+  }
+
+  /**
+   * Sets the given vector "result" with the point of the AABB closest to the given point
+   * @param aabb - defines the AABB
+   * @param point - defines the point
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function closestPointToRef(
+    aabb: ReadonlyAABB,
+    point: Vector3.ReadonlyVector3,
+    result: Vector3.MutableVector3
+  ): void {
+    Vector3.clampToRef(point, aabb.min, aabb.max, result)
+  }
+
+  /**
+   * Returns the squared distance between the given point and the AABB
+   * @param aabb - defines the AABB
+   * @param point - defines the point
+   * @returns the squared distance (0 if the point is inside the box)
+   */
+  export function distanceSquaredToPoint(
+    aabb: ReadonlyAABB,
+    point: Vector3.ReadonlyVector3
+  ): number {
+    const dx = Math.max(aabb.min.x - point.x, 0, point.x - aabb.max.x)
+    const dy = Math.max(aabb.min.y - point.y, 0, point.y - aabb.max.y)
+    const dz = Math.max(aabb.min.z - point.z, 0, point.z - aabb.max.z)
+    return dx * dx + dy * dy + dz * dz
+  }
+
+  /**
+   * Returns the distance between the given point and the AABB
+   * @param aabb - defines the AABB
+   * @param point - defines the point
+   * @returns the distance (0 if the point is inside the box)
+   */
+  export function distanceToPoint(
+    aabb: ReadonlyAABB,
+    point: Vector3.ReadonlyVector3
+  ): number {
+    return Math.sqrt(distanceSquaredToPoint(aabb, point))
+  }
+
+  /**
+   * Returns true if the corners of both AABBs are strictly equal
+   * @param a - defines the first AABB
+   * @param b - defines the second AABB
+   * @returns true if both boxes are equals
+   */
+  export function equals(a: ReadonlyAABB, b: ReadonlyAABB): boolean {
+    return Vector3.equals(a.min, b.min) && Vector3.equals(a.max, b.max)
+  }
+
+  /**
+   * Returns true if the corners of both AABBs are distant less than epsilon
+   * @param a - defines the first AABB
+   * @param b - defines the second AABB
+   * @param epsilon - defines the minimal distance to define values as equals
+   * @returns true if both boxes are distant less than epsilon
+   */
+  export function equalsWithEpsilon(
+    a: ReadonlyAABB,
+    b: ReadonlyAABB,
+    epsilon: number = Epsilon
+  ): boolean {
+    return (
+      Vector3.equalsWithEpsilon(a.min, b.min, epsilon) &&
+      Vector3.equalsWithEpsilon(a.max, b.max, epsilon)
+    )
+  }
+}
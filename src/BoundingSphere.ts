@@ -0,0 +1,406 @@
+import { Epsilon } from './types'
+import { Scalar } from './Scalar'
+import { Vector3 } from './Vector3'
+import { Matrix } from './Matrix'
+import { Plane } from './Plane'
+import { AABB } from './AABB'
+
+/**
+ * @public
+ * BoundingSphere is a type and a namespace.
+ * - The namespace contains all types and functions to operates with BoundingSphere
+ * - The type BoundingSphere is an alias to BoundingSphere.ReadonlyBoundingSphere
+ * ```
+ *
+ * // Namespace usage example
+ * const bounds = BoundingSphere.fromPoints(vertices)
+ * const visible = BoundingSphere.intersectsSphere(bounds, viewSphere)
+ *
+ * // Type usage example
+ * const readonlyBounds: BoundingSphere = BoundingSphere.create()
+ * readonlyBounds.radius = 2.0 // this FAILS
+ *
+ * // For mutable usage, use `BoundingSphere.Mutable`
+ * const bounds: BoundingSphere.Mutable = BoundingSphere.create()
+ * bounds.radius = 2.0 // this WORKS
+ * ```
+ */
+export type BoundingSphere = BoundingSphere.ReadonlyBoundingSphere
+
+/**
+ * @public
+ * BoundingSphere is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with BoundingSphere
+ * const bounds = BoundingSphere.fromPoints(vertices)
+ * // The type BoundingSphere is an alias to BoundingSphere.ReadonlyBoundingSphere
+ * const readonlyBounds: BoundingSphere = BoundingSphere.create()
+ * readonlyBounds.radius = 2.0 // this FAILS
+ *
+ * // For mutable usage, use `BoundingSphere.Mutable`
+ * const bounds: BoundingSphere.Mutable = BoundingSphere.create()
+ * bounds.radius = 2.0 // this WORKS
+ * ```
+ */
+export namespace BoundingSphere {
+  /**
+   * @public
+   * For external use, type with `BoundingSphere`, e.g. `const bounds: BoundingSphere = BoundingSphere.create()`.
+   * For mutable typing, use `BoundingSphere.Mutable`, e.g. `const bounds: BoundingSphere.Mutable = BoundingSphere.create()`.
+   */
+  export type ReadonlyBoundingSphere = {
+    /**
+     * Center of the sphere
+     */
+    readonly center: Vector3.ReadonlyVector3
+    /**
+     * Radius of the sphere
+     */
+    readonly radius: number
+  }
+
+  /**
+   * @public
+   * For external usage, type with `BoundingSphere`, e.g. `const bounds: BoundingSphere = BoundingSphere.create()`.
+   * For mutable typing, use `BoundingSphere.Mutable`, e.g. `const bounds: BoundingSphere.Mutable = BoundingSphere.create()`.
+   */
+  export type MutableBoundingSphere = {
+    /**
+     * Center of the sphere
+     */
+    center: Vector3.MutableVector3
+    /**
+     * Radius of the sphere
+     */
+    radius: number
+  }
+
+  /**
+   * @public
+   * Type with `BoundingSphere` for readonly usage, e.g. `const bounds: BoundingSphere = BoundingSphere.create()`.
+   * For mutable, use `BoundingSphere.Mutable`, e.g. `const bounds: BoundingSphere.Mutable = BoundingSphere.create()`.
+   */
+  export type Mutable = MutableBoundingSphere
+
+  /**
+   * Creates a new BoundingSphere from the given center (copied) and radius
+   * @param center - defines the center of the sphere (0, 0, 0 by default)
+   * @param radius - defines the radius of the sphere (0 by default)
+   * @returns the new BoundingSphere
+   */
+  export function create(
+    center: Vector3.ReadonlyVector3 = Vector3.Zero(),
+    radius: number = 0
+  ): MutableBoundingSphere {
+    return { center: Vector3.clone(center), radius }
+  }
+
+  /**
+   * Returns a new BoundingSphere with the same value
+   * @param sphere - defines the source sphere
+   * @returns the new BoundingSphere
+   */
+  export function clone(sphere: ReadonlyBoundingSphere): MutableBoundingSphere {
+    return create(sphere.center, sphere.radius)
+  }
+
+  /**
+   * Copy source into dest
+   * @param source - defines the source sphere
+   * @param dest - defines the destination sphere
+   */
+  export function copyFrom(
+    source: ReadonlyBoundingSphere,
+    dest: MutableBoundingSphere
+  ): void {
+    Vector3.copyFrom(source.center, dest.center)
+    dest.radius = source.radius
+  }
+
+  /**
+   * Creates a new BoundingSphere enclosing all the given points, using Ritter's method.
+   * The result is usually slightly bigger than the minimal sphere, but it is computed in linear time
+   * @param points - defines the points to enclose
+   * @returns the new BoundingSphere (zero radius at the origin if no point is given)
+   */
+  export function fromPoints(
+    points: Vector3.ReadonlyVector3[]
+  ): MutableBoundingSphere {
+    const result = create()
+    fromPointsToRef(points, result)
+    return result
+  }
+
+  /**
+   * Sets the given BoundingSphere to enclose all the given points, using Ritter's method
+   * @param points - defines the points to enclose
+   * @param result - defines the BoundingSphere where to store the result
+   */
+  export function fromPointsToRef(
+    points: Vector3.ReadonlyVector3[],
+    result: MutableBoundingSphere
+  ): void {
+    if (points.length === 0) {
+      Vector3.copyFromFloats(0, 0, 0, result.center)
+      result.radius = 0
+      return
+    }
+
+    // find two distant points to build the initial sphere
+    const a = farthestPoint(points, points[0])
+    const b = farthestPoint(points, a)
+    Vector3.addToRef(a, b, result.center)
+    Vector3.scaleToRef(result.center, 0.5, result.center)
+    result.radius = Vector3.distance(a, b) * 0.5
+
+    // grow the sphere to include the points that are still outside
+    for (const point of points) {
+      expandByPointToRef(result, point, result)
+    }
+  }
+
+  /**
+   * Creates a new BoundingSphere enclosing the given AABB
+   * @param aabb - defines the box to enclose
+   * @returns the new BoundingSphere
+   */
+  export function fromAABB(aabb: AABB.ReadonlyAABB): MutableBoundingSphere {
+    return create(
+      AABB.getCenter(aabb),
+      Vector3.distance(aabb.min, aabb.max) * 0.5
+    )
+  }
+
+  /**
+   * Returns a new BoundingSphere expanded to contain the given point
+   * @param sphere - defines the source sphere
+   * @param point - defines the point to include
+   * @returns the new BoundingSphere
+   */
+  export function expandByPoint(
+    sphere: ReadonlyBoundingSphere,
+    point: Vector3.ReadonlyVector3
+  ): MutableBoundingSphere {
+    const result = create()
+    expandByPointToRef(sphere, point, result)
+    return result
+  }
+
+  /**
+   * Sets the given BoundingSphere "result" with the source sphere expanded to contain the given point.
+   * The sphere grows on the side of the point only, so the opposite side of the sphere is kept
+   * @param sphere - defines the source sphere
+   * @param point - defines the point to include
+   * @param result - defines the BoundingSphere where to store the result
+   */
+  export function expandByPointToRef(
+    sphere: ReadonlyBoundingSphere,
+    point: Vector3.ReadonlyVector3,
+    result: MutableBoundingSphere
+  ): void {
+    const distance = Vector3.distance(sphere.center, point)
+    if (distance <= sphere.radius) {
+      copyFrom(sphere, result)
+      return
+    }
+
+    const radius = (sphere.radius + distance) * 0.5
+    const amount = (radius - sphere.radius) / distance
+    Vector3.lerpToRef(sphere.center, point, amount, result.center)
+    result.radius = radius
+  }
+
+  /**
+   * Returns a new BoundingSphere enclosing both given spheres
+   * @param a - defines the first sphere
+   * @param b - defines the second sphere
+   * @returns the new BoundingSphere
+   */
+  export function merge(
+    a: ReadonlyBoundingSphere,
+    b: ReadonlyBoundingSphere
+  ): MutableBoundingSphere {
+    const result = create()
+    mergeToRef(a, b, result)
+    return result
+  }
+
+  /**
+   * Sets the given BoundingSphere "result" to the smallest sphere enclosing both given spheres
+   * @param a - defines the first sphere
+   * @param b - defines the second sphere
+   * @param result - defines the BoundingSphere where to store the result
+   */
+  export function mergeToRef(
+    a: ReadonlyBoundingSphere,
+    b: ReadonlyBoundingSphere,
+    result: MutableBoundingSphere
+  ): void {
+    const distance = Vector3.distance(a.center, b.center)
+    if (distance + b.radius <= a.radius) {
+      copyFrom(a, result)
+      return
+    }
+    if (distance + a.radius <= b.radius) {
+      copyFrom(b, result)
+      return
+    }
+
+    const radius = (distance + a.radius + b.radius) * 0.5
+    const amount = (radius - a.radius) / distance
+    Vector3.lerpToRef(a.center, b.center, amount, result.center)
+    result.radius = radius
+  }
+
+  /**
+   * Checks if a point is inside the sphere (surface included)
+   * @param sphere - defines the sphere
+   * @param point - defines the point to check
+   * @returns true if the point is inside the sphere
+   */
+  export function containsPoint(
+    sphere: ReadonlyBoundingSphere,
+    point: Vector3.ReadonlyVector3
+  ): boolean {
+    return (
+      Vector3.distanceSquared(sphere.center, point) <=
+      sphere.radius * sphere.radius
+    )
+  }
+
+  /**
+   * Checks if two spheres intersect (touching surfaces count as intersection)
+   * @param a - defines the first sphere
+   * @param b - defines the second sphere
+   * @returns true if both spheres intersect
+   */
+  export function intersectsSphere(
+    a: ReadonlyBoundingSphere,
+    b: ReadonlyBoundingSphere
+  ): boolean {
+    const radius = a.radius + b.radius
+    return Vector3.distanceSquared(a.center, b.center) <= radius * radius
+  }
+
+  /**
+   * Checks if the sphere intersects the AABB
+   * @param sphere - defines the sphere
+   * @param aabb - defines the box
+   * @returns true if the sphere and the box intersect
+   */
+  export function intersectsAABB(
+    sphere: ReadonlyBoundingSphere,
+    aabb: AABB.ReadonlyAABB
+  ): boolean {
+    return (
+      AABB.distanceSquaredToPoint(aabb, sphere.center) <=
+      sphere.radius * sphere.radius
+    )
+  }
+
+  /**
+   * Checks if the sphere intersects the plane. The plane is expected to be normalized
+   * @param sphere - defines the sphere
+   * @param plane - defines the plane
+   * @returns true if the sphere crosses or touches the plane
+   */
+  export function intersectsPlane(
+    sphere: ReadonlyBoundingSphere,
+    plane: Plane.ReadonlyPlane
+  ): boolean {
+    return (
+      Math.abs(Plane.signedDistanceTo(plane, sphere.center)) <= sphere.radius
+    )
+  }
+
+  /**
+   * Checks if the sphere is fully on the side of the plane the normal points to. The plane is expected to be normalized
+   * @param sphere - defines the sphere
+   * @param plane - defines the plane
+   * @returns true if the whole sphere is in front of the plane
+   */
+  export function isInFrontOfPlane(
+    sphere: ReadonlyBoundingSphere,
+    plane: Plane.ReadonlyPlane
+  ): boolean {
+    return Plane.signedDistanceTo(plane, sphere.center) > sphere.radius
+  }
+
+  /**
+   * Returns a new BoundingSphere enclosing the given sphere transformed by the given matrix.
+   * The radius is scaled by the biggest scale factor of the matrix, so non uniform scales give a conservative bound
+   * @param sphere - defines the source sphere
+   * @param transformation - defines the transformation matrix
+   * @returns the new BoundingSphere
+   */
+  export function transform(
+    sphere: ReadonlyBoundingSphere,
+    transformation: Matrix.ReadonlyMatrix
+  ): MutableBoundingSphere {
+    const result = create()
+    transformToRef(sphere, transformation, result)
+    return result
+  }
+
+  /**
+   * Sets the given BoundingSphere "result" to enclose the given sphere transformed by the given matrix
+   * @param sphere - defines the source sphere
+   * @param transformation - defines the transformation matrix
+   * @param result - defines the BoundingSphere where to store the result
+   */
+  export function transformToRef(
+    sphere: ReadonlyBoundingSphere,
+    transformation: Matrix.ReadonlyMatrix,
+    result: MutableBoundingSphere
+  ): void {
+    const m = transformation._m
+    const scaleXSquared = m[0] * m[0] + m[1] * m[1] + m[2] * m[2]
+    const scaleYSquared = m[4] * m[4] + m[5] * m[5] + m[6] * m[6]
+    const scaleZSquared = m[8] * m[8] + m[9] * m[9] + m[10] * m[10]
+    const maxScale = Math.sqrt(
+      Math.max(scaleXSquared, scaleYSquared, scaleZSquared)
+    )
+
+    Vector3.transformCoordinatesToRef(
+      sphere.center,
+      transformation,
+      result.center
+    )
+    result.radius = sphere.radius * maxScale
+  }
+
+  /**
+   * Returns true if the center and radius of both spheres are distant less than epsilon
+   * @param a - defines the first sphere
+   * @param b - defines the second sphere
+   * @param epsilon - defines the minimal distance to define values as equals
+   * @returns true if both spheres are distant less than epsilon
+   */
+  export function equalsWithEpsilon(
+    a: ReadonlyBoundingSphere,
+    b: ReadonlyBoundingSphere,
+    epsilon: number = Epsilon
+  ): boolean {
+    return (
+      Vector3.equalsWithEpsilon(a.center, b.center, epsilon) &&
+      Scalar.withinEpsilon(a.radius, b.radius, epsilon)
+    )
+  }
+
+  /** @internal */
+  function farthestPoint(
+    points: Vector3.ReadonlyVector3[],
+    from: Vector3.ReadonlyVector3
+  ): Vector3.ReadonlyVector3 {
+    let result = points[0]
+    let maxDistance = -1
+    for (const point of points) {
+      const distance = Vector3.distanceSquared(from, point)
+      if (distance > maxDistance) {
+        maxDistance = distance
+        result = point
+      }
+    }
+    return result
+  }
+}
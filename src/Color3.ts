@@ -1,6 +1,13 @@
-import { FloatArray, ToLinearSpace, ToGammaSpace } from './types'
+import {
+  DEG2RAD,
+  FloatArray,
+  RAD2DEG,
+  ToLinearSpace,
+  ToGammaSpace
+} from './types'
 import { Color4 } from './Color4'
 import { Scalar } from './Scalar'
+import { Random } from './Random'
 
 /**
  * @public
@@ -68,6 +75,88 @@ export namespace Color3 {
    */
   export type Mutable = MutableColor3
 
+  /**
+   * @public
+   * Color in the hue, saturation, value space, e.g. from a color picker
+   */
+  export type HSV = {
+    /**
+     * Hue in degrees, between 0 and 360
+     */
+    h: number
+    /**
+     * Saturation, between 0 and 1
+     */
+    s: number
+    /**
+     * Value, between 0 and 1
+     */
+    v: number
+  }
+
+  /**
+   * @public
+   * Color in the hue, saturation, lightness space, as in CSS `hsl()`
+   */
+  export type HSL = {
+    /**
+     * Hue in degrees, between 0 and 360
+     */
+    h: number
+    /**
+     * Saturation, between 0 and 1
+     */
+    s: number
+    /**
+     * Lightness, between 0 and 1
+     */
+    l: number
+  }
+
+  /**
+   * @public
+   * Color in the OKLab perceptual space, as in CSS `oklab()`
+   */
+  export type OKLab = {
+    /**
+     * Perceived lightness, between 0 and 1
+     */
+    l: number
+    /**
+     * Green to red axis, about between -0.4 and 0.4
+     */
+    a: number
+    /**
+     * Blue to yellow axis, about between -0.4 and 0.4
+     */
+    b: number
+  }
+
+  /**
+   * @public
+   * Color in the polar form of the OKLab space, as in CSS `oklch()`
+   */
+  export type OKLCH = {
+    /**
+     * Perceived lightness, between 0 and 1
+     */
+    l: number
+    /**
+     * Chroma, 0 for grays and about up to 0.4
+     */
+    c: number
+    /**
+     * Hue in degrees, between 0 and 360
+     */
+    h: number
+  }
+
+  /**
+   * @public
+   * Notation of the CSS strings, see `toCssString`
+   */
+  export type CssFormat = 'hex' | 'rgb' | 'hsl'
+
   /**
    * Creates Color3 object from red, green, blue values, all between 0 and 1
    * @param r - defines the red component (between 0 and 1, default is 0)
@@ -239,10 +328,15 @@ export namespace Color3 {
   }
   /**
    * Returns a Color3 value containing a random color
+   * @param generator - defines the seeded generator to draw from, `Math.random` by default
    * @returns a new Vector3
    */
-  export function Random(): MutableColor3 {
-    return create(Math.random(), Math.random(), Math.random())
+  export function Random(generator?: Random.Generator): MutableColor3 {
+    return create(
+      Scalar.randomRange(0, 1, generator),
+      Scalar.randomRange(0, 1, generator),
+      Scalar.randomRange(0, 1, generator)
+    )
   }
 
   /**
@@ -553,6 +647,46 @@ export namespace Color3 {
     dest.b = b
   }
 
+  /**
+   * Parses a CSS color, see `Color4.parse` for the accepted notations. The alpha is ignored
+   * @param value - defines the string to parse
+   * @returns a new Color3, or undefined if the string is not a valid CSS color
+   */
+  export function parse(value: string): MutableColor3 | undefined {
+    const color = Color4.parse(value)
+    return color ? create(color.r, color.g, color.b) : undefined
+  }
+
+  /**
+   * Returns the CSS string of the color, `#RRGGBB`, `rgb(r g b)` or `hsl(h s% l%)`
+   * @param value - defines the color to format, its components are clamped between 0 and 1
+   * @param format - defines the CSS notation, hexadecimal by default
+   * @returns the CSS string
+   */
+  export function toCssString(
+    value: ReadonlyColor3,
+    format: CssFormat = 'hex'
+  ): string {
+    const color = create(
+      Scalar.clamp(value.r),
+      Scalar.clamp(value.g),
+      Scalar.clamp(value.b)
+    )
+    if (format === 'hsl') {
+      const { h, s, l } = toHSL(color)
+      const round = (number: number) => Math.round(number * 100) / 100
+      return `hsl(${round(h)} ${round(s * 100)}% ${round(l * 100)}%)`
+    }
+
+    const [r, g, b] = [color.r, color.g, color.b].map((component) =>
+      Math.round(component * 255)
+    )
+    if (format === 'rgb') {
+      return `rgb(${r} ${g} ${b})`
+    }
+    return '#' + Scalar.toHex(r) + Scalar.toHex(g) + Scalar.toHex(b)
+  }
+
   /**
    * Compute the Color3 hexadecimal code as a string
    * @returns a string containing the hexadecimal representation of the Color3 object
@@ -611,4 +745,383 @@ export namespace Color3 {
     convertedColor.g = Math.pow(value.g, ToGammaSpace)
     convertedColor.b = Math.pow(value.b, ToGammaSpace)
   }
+
+  /**
+   * Converts the color to the hue, saturation, value space
+   * @param value - defines the color to convert
+   * @returns a new HSV color, with a hue of 0 for the grays
+   */
+  export function toHSV(value: ReadonlyColor3): HSV {
+    const result: HSV = { h: 0, s: 0, v: 0 }
+    toHSVToRef(value, result)
+    return result
+  }
+
+  /**
+   * Converts the color to the hue, saturation, value space and stores the result in "result"
+   * @param value - defines the color to convert
+   * @param result - defines the HSV color where to store the result
+   */
+  export function toHSVToRef(value: ReadonlyColor3, result: HSV): void {
+    const max = Math.max(value.r, value.g, value.b)
+    const min = Math.min(value.r, value.g, value.b)
+    result.h = getHue(value, max, max - min)
+    result.s = max === 0 ? 0 : (max - min) / max
+    result.v = max
+  }
+
+  /**
+   * Creates a new Color3 from a color in the hue, saturation, value space
+   * @param hsv - defines the color to convert, the hue is wrapped
+   * @returns a new Color3
+   */
+  export function fromHSV(hsv: Readonly<HSV>): MutableColor3 {
+    const result = create()
+    fromHSVToRef(hsv, result)
+    return result
+  }
+
+  /**
+   * Converts a color in the hue, saturation, value space and stores the result in "result"
+   * @param hsv - defines the color to convert, the hue is wrapped
+   * @param result - defines the Color3 where to store the result
+   */
+  export function fromHSVToRef(
+    hsv: Readonly<HSV>,
+    result: MutableColor3
+  ): void {
+    const { s, v } = hsv
+    const channel = (n: number) => {
+      const k = (n + wrapHue(hsv.h) / 60) % 6
+      return v - v * s * Math.max(0, Math.min(k, 4 - k, 1))
+    }
+    result.r = channel(5)
+    result.g = channel(3)
+    result.b = channel(1)
+  }
+
+  /**
+   * Converts the color to the hue, saturation, lightness space
+   * @param value - defines the color to convert
+   * @returns a new HSL color, with a hue of 0 for the grays
+   */
+  export function toHSL(value: ReadonlyColor3): HSL {
+    const result: HSL = { h: 0, s: 0, l: 0 }
+    toHSLToRef(value, result)
+    return result
+  }
+
+  /**
+   * Converts the color to the hue, saturation, lightness space and stores the result in "result"
+   * @param value - defines the color to convert
+   * @param result - defines the HSL color where to store the result
+   */
+  export function toHSLToRef(value: ReadonlyColor3, result: HSL): void {
+    const max = Math.max(value.r, value.g, value.b)
+    const min = Math.min(value.r, value.g, value.b)
+    const lightness = (max + min) / 2
+    const delta = max - min
+    result.h = getHue(value, max, delta)
+    result.s = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1))
+    result.l = lightness
+  }
+
+  /**
+   * Creates a new Color3 from a color in the hue, saturation, lightness space
+   * @param hsl - defines the color to convert, the hue is wrapped
+   * @returns a new Color3
+   */
+  export function fromHSL(hsl: Readonly<HSL>): MutableColor3 {
+    const result = create()
+    fromHSLToRef(hsl, result)
+    return result
+  }
+
+  /**
+   * Converts a color in the hue, saturation, lightness space and stores the result in "result"
+   * @param hsl - defines the color to convert, the hue is wrapped
+   * @param result - defines the Color3 where to store the result
+   */
+  export function fromHSLToRef(
+    hsl: Readonly<HSL>,
+    result: MutableColor3
+  ): void {
+    const { s, l } = hsl
+    const amplitude = s * Math.min(l, 1 - l)
+    const channel = (n: number) => {
+      const k = (n + wrapHue(hsl.h) / 30) % 12
+      return l - amplitude * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+    }
+    result.r = channel(0)
+    result.g = channel(8)
+    result.b = channel(4)
+  }
+
+  /**
+   * Converts the color, in gamma (sRGB) space, to the OKLab perceptual space
+   * @param value - defines the color to convert
+   * @returns a new OKLab color
+   */
+  export function toOKLab(value: ReadonlyColor3): OKLab {
+    const result: OKLab = { l: 0, a: 0, b: 0 }
+    toOKLabToRef(value, result)
+    return result
+  }
+
+  /**
+   * Converts the color, in gamma (sRGB) space, to the OKLab perceptual space and stores the result in "result"
+   * @param value - defines the color to convert
+   * @param result - defines the OKLab color where to store the result
+   */
+  export function toOKLabToRef(value: ReadonlyColor3, result: OKLab): void {
+    const r = srgbToLinear(value.r)
+    const g = srgbToLinear(value.g)
+    const b = srgbToLinear(value.b)
+
+    const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b)
+    const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b)
+    const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+
+    result.l = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s
+    result.a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s
+    result.b = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s
+  }
+
+  /**
+   * Creates a new Color3, in gamma (sRGB) space, from a color in the OKLab space.
+   * Colors outside of the sRGB gamut give components outside of 0 and 1, see `clamp`
+   * @param lab - defines the color to convert
+   * @returns a new Color3
+   */
+  export function fromOKLab(lab: Readonly<OKLab>): MutableColor3 {
+    const result = create()
+    fromOKLabToRef(lab, result)
+    return result
+  }
+
+  /**
+   * Converts a color in the OKLab space to gamma (sRGB) space and stores the result in "result"
+   * @param lab - defines the color to convert
+   * @param result - defines the Color3 where to store the result
+   */
+  export function fromOKLabToRef(
+    lab: Readonly<OKLab>,
+    result: MutableColor3
+  ): void {
+    const l = Math.pow(lab.l + 0.3963377774 * lab.a + 0.2158037573 * lab.b, 3)
+    const m = Math.pow(lab.l - 0.1055613458 * lab.a - 0.0638541728 * lab.b, 3)
+    const s = Math.pow(lab.l - 0.0894841775 * lab.a - 1.291485548 * lab.b, 3)
+
+    result.r = linearToSrgb(
+      4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s
+    )
+    result.g = linearToSrgb(
+      -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s
+    )
+    result.b = linearToSrgb(
+      -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s
+    )
+  }
+
+  /**
+   * Converts the color, in gamma (sRGB) space, to the OKLCH perceptual space
+   * @param value - defines the color to convert
+   * @returns a new OKLCH color, with a hue of 0 for the grays
+   */
+  export function toOKLCH(value: ReadonlyColor3): OKLCH {
+    const result: OKLCH = { l: 0, c: 0, h: 0 }
+    toOKLCHToRef(value, result)
+    return result
+  }
+
+  /**
+   * Converts the color, in gamma (sRGB) space, to the OKLCH perceptual space and stores the result in "result"
+   * @param value - defines the color to convert
+   * @param result - defines the OKLCH color where to store the result
+   */
+  export function toOKLCHToRef(value: ReadonlyColor3, result: OKLCH): void {
+    const lab = toOKLab(value)
+    const chroma = Math.sqrt(lab.a * lab.a + lab.b * lab.b)
+    result.l = lab.l
+    // the hue of the grays is only rounding noise
+    result.c = chroma < 1e-6 ? 0 : chroma
+    result.h = result.c ? wrapHue(Math.atan2(lab.b, lab.a) * RAD2DEG) : 0
+  }
+
+  /**
+   * Creates a new Color3, in gamma (sRGB) space, from a color in the OKLCH space.
+   * Colors outside of the sRGB gamut give components outside of 0 and 1, see `clamp`
+   * @param lch - defines the color to convert
+   * @returns a new Color3
+   */
+  export function fromOKLCH(lch: Readonly<OKLCH>): MutableColor3 {
+    const result = create()
+    fromOKLCHToRef(lch, result)
+    return result
+  }
+
+  /**
+   * Converts a color in the OKLCH space to gamma (sRGB) space and stores the result in "result"
+   * @param lch - defines the color to convert
+   * @param result - defines the Color3 where to store the result
+   */
+  export function fromOKLCHToRef(
+    lch: Readonly<OKLCH>,
+    result: MutableColor3
+  ): void {
+    const hue = lch.h * DEG2RAD
+    fromOKLabToRef(
+      { l: lch.l, a: lch.c * Math.cos(hue), b: lch.c * Math.sin(hue) },
+      result
+    )
+  }
+
+  /**
+   * Creates a new Color3 interpolated in the hue, saturation, value space, the hue taking the shortest way around the color wheel
+   * @param left - defines the start value
+   * @param right - defines the end value
+   * @param amount - defines the gradient factor
+   * @returns a new Color3
+   */
+  export function lerpHSV(
+    left: ReadonlyColor3,
+    right: ReadonlyColor3,
+    amount: number
+  ): MutableColor3 {
+    const result = create()
+    lerpHSVToRef(left, right, amount, result)
+    return result
+  }
+
+  /**
+   * Interpolates in the hue, saturation, value space and stores the result in "result"
+   * @param left - defines the start value
+   * @param right - defines the end value
+   * @param amount - defines the gradient factor
+   * @param result - defines the Color3 where to store the result
+   */
+  export function lerpHSVToRef(
+    left: ReadonlyColor3,
+    right: ReadonlyColor3,
+    amount: number,
+    result: MutableColor3
+  ): void {
+    const start = toHSV(left)
+    const end = toHSV(right)
+    fromHSVToRef(
+      {
+        h: lerpHue(start.h, end.h, start.s === 0, end.s === 0, amount),
+        s: Scalar.lerp(start.s, end.s, amount),
+        v: Scalar.lerp(start.v, end.v, amount)
+      },
+      result
+    )
+  }
+
+  /**
+   * Creates a new Color3 interpolated in the OKLCH perceptual space, the hue taking the shortest way around the color wheel.
+   * The lightness changes evenly and the colors do not pass through gray
+   * @param left - defines the start value
+   * @param right - defines the end value
+   * @param amount - defines the gradient factor
+   * @returns a new Color3
+   */
+  export function lerpOKLCH(
+    left: ReadonlyColor3,
+    right: ReadonlyColor3,
+    amount: number
+  ): MutableColor3 {
+    const result = create()
+    lerpOKLCHToRef(left, right, amount, result)
+    return result
+  }
+
+  /**
+   * Interpolates in the OKLCH perceptual space and stores the result in "result"
+   * @param left - defines the start value
+   * @param right - defines the end value
+   * @param amount - defines the gradient factor
+   * @param result - defines the Color3 where to store the result
+   */
+  export function lerpOKLCHToRef(
+    left: ReadonlyColor3,
+    right: ReadonlyColor3,
+    amount: number,
+    result: MutableColor3
+  ): void {
+    const start = toOKLCH(left)
+    const end = toOKLCH(right)
+    fromOKLCHToRef(
+      {
+        l: Scalar.lerp(start.l, end.l, amount),
+        c: Scalar.lerp(start.c, end.c, amount),
+        h: lerpHue(start.h, end.h, start.c === 0, end.c === 0, amount)
+      },
+      result
+    )
+  }
+
+  /**
+   * Returns the hue in degrees of the color, 0 for the grays
+   * @internal
+   */
+  function getHue(value: ReadonlyColor3, max: number, delta: number) {
+    if (delta === 0) {
+      return 0
+    }
+    let hue: number
+    if (max === value.r) {
+      hue = (value.g - value.b) / delta
+    } else if (max === value.g) {
+      hue = (value.b - value.r) / delta + 2
+    } else {
+      hue = (value.r - value.g) / delta + 4
+    }
+    return wrapHue(hue * 60)
+  }
+
+  /**
+   * Interpolates the hues through the shortest way, a color without hue takes the hue of the other one
+   * @internal
+   */
+  function lerpHue(
+    start: number,
+    end: number,
+    startIsGray: boolean,
+    endIsGray: boolean,
+    amount: number
+  ) {
+    if (startIsGray) {
+      return end
+    }
+    if (endIsGray) {
+      return start
+    }
+    return wrapHue(start + Scalar.deltaAngle(start, end) * amount)
+  }
+
+  /** @internal */
+  function wrapHue(hue: number) {
+    return ((hue % 360) + 360) % 360
+  }
+
+  /** @internal */
+  function srgbToLinear(value: number) {
+    const magnitude = Math.abs(value)
+    const linear =
+      magnitude <= 0.04045
+        ? magnitude / 12.92
+        : Math.pow((magnitude + 0.055) / 1.055, 2.4)
+    return value < 0 ? -linear : linear
+  }
+
+  /** @internal */
+  function linearToSrgb(value: number) {
+    const magnitude = Math.abs(value)
+    const srgb =
+      magnitude <= 0.0031308
+        ? magnitude * 12.92
+        : 1.055 * Math.pow(magnitude, 1 / 2.4) - 0.055
+    return value < 0 ? -srgb : srgb
+  }
 }
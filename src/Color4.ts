@@ -1,6 +1,6 @@
 import { Color3 } from './Color3'
 import { Scalar } from './Scalar'
-import { ToLinearSpace, ToGammaSpace } from './types'
+import { RAD2DEG, ToLinearSpace, ToGammaSpace } from './types'
 
 /**
  * @public
@@ -646,4 +646,619 @@ export namespace Color4 {
     convertedColor.b = Math.pow(value.b, ToGammaSpace)
     convertedColor.a = value.a
   }
+
+  /**
+   * Converts the color to the hue, saturation, value space, the alpha is ignored
+   * @param value - defines the color to convert
+   * @returns a new HSV color
+   */
+  export function toHSV(value: ReadonlyColor4): Color3.HSV {
+    return Color3.toHSV(value)
+  }
+
+  /**
+   * Converts the color to the hue, saturation, value space and stores the result in "result", the alpha is ignored
+   * @param value - defines the color to convert
+   * @param result - defines the HSV color where to store the result
+   */
+  export function toHSVToRef(value: ReadonlyColor4, result: Color3.HSV): void {
+    Color3.toHSVToRef(value, result)
+  }
+
+  /**
+   * Creates a new Color4 from a color in the hue, saturation, value space
+   * @param hsv - defines the color to convert
+   * @param alpha - defines the alpha component (1.0 by default)
+   * @returns a new Color4
+   */
+  export function fromHSV(
+    hsv: Readonly<Color3.HSV>,
+    alpha: number = 1.0
+  ): MutableColor4 {
+    const result = create()
+    fromHSVToRef(hsv, alpha, result)
+    return result
+  }
+
+  /**
+   * Converts a color in the hue, saturation, value space and stores the result in "result"
+   * @param hsv - defines the color to convert
+   * @param alpha - defines the alpha component
+   * @param result - defines the Color4 where to store the result
+   */
+  export function fromHSVToRef(
+    hsv: Readonly<Color3.HSV>,
+    alpha: number,
+    result: MutableColor4
+  ): void {
+    Color3.fromHSVToRef(hsv, result)
+    result.a = alpha
+  }
+
+  /**
+   * Converts the color to the hue, saturation, lightness space, the alpha is ignored
+   * @param value - defines the color to convert
+   * @returns a new HSL color
+   */
+  export function toHSL(value: ReadonlyColor4): Color3.HSL {
+    return Color3.toHSL(value)
+  }
+
+  /**
+   * Converts the color to the hue, saturation, lightness space and stores the result in "result", the alpha is ignored
+   * @param value - defines the color to convert
+   * @param result - defines the HSL color where to store the result
+   */
+  export function toHSLToRef(value: ReadonlyColor4, result: Color3.HSL): void {
+    Color3.toHSLToRef(value, result)
+  }
+
+  /**
+   * Creates a new Color4 from a color in the hue, saturation, lightness space
+   * @param hsl - defines the color to convert
+   * @param alpha - defines the alpha component (1.0 by default)
+   * @returns a new Color4
+   */
+  export function fromHSL(
+    hsl: Readonly<Color3.HSL>,
+    alpha: number = 1.0
+  ): MutableColor4 {
+    const result = create()
+    fromHSLToRef(hsl, alpha, result)
+    return result
+  }
+
+  /**
+   * Converts a color in the hue, saturation, lightness space and stores the result in "result"
+   * @param hsl - defines the color to convert
+   * @param alpha - defines the alpha component
+   * @param result - defines the Color4 where to store the result
+   */
+  export function fromHSLToRef(
+    hsl: Readonly<Color3.HSL>,
+    alpha: number,
+    result: MutableColor4
+  ): void {
+    Color3.fromHSLToRef(hsl, result)
+    result.a = alpha
+  }
+
+  /**
+   * Converts the color to the OKLab perceptual space, the alpha is ignored
+   * @param value - defines the color to convert
+   * @returns a new OKLab color
+   */
+  export function toOKLab(value: ReadonlyColor4): Color3.OKLab {
+    return Color3.toOKLab(value)
+  }
+
+  /**
+   * Converts the color to the OKLab perceptual space and stores the result in "result", the alpha is ignored
+   * @param value - defines the color to convert
+   * @param result - defines the OKLab color where to store the result
+   */
+  export function toOKLabToRef(
+    value: ReadonlyColor4,
+    result: Color3.OKLab
+  ): void {
+    Color3.toOKLabToRef(value, result)
+  }
+
+  /**
+   * Creates a new Color4 from a color in the OKLab perceptual space
+   * @param lab - defines the color to convert
+   * @param alpha - defines the alpha component (1.0 by default)
+   * @returns a new Color4
+   */
+  export function fromOKLab(
+    lab: Readonly<Color3.OKLab>,
+    alpha: number = 1.0
+  ): MutableColor4 {
+    const result = create()
+    fromOKLabToRef(lab, alpha, result)
+    return result
+  }
+
+  /**
+   * Converts a color in the OKLab perceptual space and stores the result in "result"
+   * @param lab - defines the color to convert
+   * @param alpha - defines the alpha component
+   * @param result - defines the Color4 where to store the result
+   */
+  export function fromOKLabToRef(
+    lab: Readonly<Color3.OKLab>,
+    alpha: number,
+    result: MutableColor4
+  ): void {
+    Color3.fromOKLabToRef(lab, result)
+    result.a = alpha
+  }
+
+  /**
+   * Converts the color to the OKLCH perceptual space, the alpha is ignored
+   * @param value - defines the color to convert
+   * @returns a new OKLCH color
+   */
+  export function toOKLCH(value: ReadonlyColor4): Color3.OKLCH {
+    return Color3.toOKLCH(value)
+  }
+
+  /**
+   * Converts the color to the OKLCH perceptual space and stores the result in "result", the alpha is ignored
+   * @param value - defines the color to convert
+   * @param result - defines the OKLCH color where to store the result
+   */
+  export function toOKLCHToRef(
+    value: ReadonlyColor4,
+    result: Color3.OKLCH
+  ): void {
+    Color3.toOKLCHToRef(value, result)
+  }
+
+  /**
+   * Creates a new Color4 from a color in the OKLCH perceptual space
+   * @param lch - defines the color to convert
+   * @param alpha - defines the alpha component (1.0 by default)
+   * @returns a new Color4
+   */
+  export function fromOKLCH(
+    lch: Readonly<Color3.OKLCH>,
+    alpha: number = 1.0
+  ): MutableColor4 {
+    const result = create()
+    fromOKLCHToRef(lch, alpha, result)
+    return result
+  }
+
+  /**
+   * Converts a color in the OKLCH perceptual space and stores the result in "result"
+   * @param lch - defines the color to convert
+   * @param alpha - defines the alpha component
+   * @param result - defines the Color4 where to store the result
+   */
+  export function fromOKLCHToRef(
+    lch: Readonly<Color3.OKLCH>,
+    alpha: number,
+    result: MutableColor4
+  ): void {
+    Color3.fromOKLCHToRef(lch, result)
+    result.a = alpha
+  }
+
+  /**
+   * Creates a new Color4 interpolated in the hue, saturation, value space, the hue taking the shortest way around the color wheel.
+   * The alpha is interpolated linearly
+   * @param left - defines the start value
+   * @param right - defines the end value
+   * @param amount - defines the gradient factor
+   * @returns a new Color4
+   */
+  export function lerpHSV(
+    left: ReadonlyColor4,
+    right: ReadonlyColor4,
+    amount: number
+  ): MutableColor4 {
+    const result = create()
+    lerpHSVToRef(left, right, amount, result)
+    return result
+  }
+
+  /**
+   * Interpolates in the hue and stores the result in "result"
+   * @param left - defines the start value
+   * @param right - defines the end value
+   * @param amount - defines the gradient factor
+   * @param result - defines the Color4 where to store the result
+   */
+  export function lerpHSVToRef(
+    left: ReadonlyColor4,
+    right: ReadonlyColor4,
+    amount: number,
+    result: MutableColor4
+  ): void {
+    const alpha = left.a + (right.a - left.a) * amount
+    Color3.lerpHSVToRef(left, right, amount, result)
+    result.a = alpha
+  }
+
+  /**
+   * Creates a new Color4 interpolated in the OKLCH perceptual space, the hue taking the shortest way around the color wheel.
+   * The alpha is interpolated linearly
+   * @param left - defines the start value
+   * @param right - defines the end value
+   * @param amount - defines the gradient factor
+   * @returns a new Color4
+   */
+  export function lerpOKLCH(
+    left: ReadonlyColor4,
+    right: ReadonlyColor4,
+    amount: number
+  ): MutableColor4 {
+    const result = create()
+    lerpOKLCHToRef(left, right, amount, result)
+    return result
+  }
+
+  /**
+   * Interpolates in the OKLCH perceptual space and stores the result in "result"
+   * @param left - defines the start value
+   * @param right - defines the end value
+   * @param amount - defines the gradient factor
+   * @param result - defines the Color4 where to store the result
+   */
+  export function lerpOKLCHToRef(
+    left: ReadonlyColor4,
+    right: ReadonlyColor4,
+    amount: number,
+    result: MutableColor4
+  ): void {
+    const alpha = left.a + (right.a - left.a) * amount
+    Color3.lerpOKLCHToRef(left, right, amount, result)
+    result.a = alpha
+  }
+
+  /**
+   * Parses a CSS color: `#RGB`, `#RGBA`, `#RRGGBB`, `#RRGGBBAA`, `rgb()`, `rgba()`, `hsl()` and `hsla()`
+   * with the modern (`rgb(255 0 0 / 50%)`) or legacy (`rgba(255, 0, 0, 0.5)`) syntax, the 148 named colors and `transparent`.
+   * The case is ignored and the values outside of their range are clamped, as CSS does
+   * @param value - defines the string to parse
+   * @returns a new Color4, or undefined if the string is not a valid CSS color
+   */
+  export function parse(value: string): MutableColor4 | undefined {
+    const text = value.trim().toLowerCase()
+    if (text[0] === '#') {
+      return parseHex(text.substring(1))
+    }
+    if (text === 'transparent') {
+      return create(0, 0, 0, 0)
+    }
+    if (Object.prototype.hasOwnProperty.call(namedColors, text)) {
+      const hex = namedColors[text]
+      return fromInts((hex >> 16) & 255, (hex >> 8) & 255, hex & 255, 255)
+    }
+
+    const match = /^(rgba?|hsla?)\((.*)\)$/.exec(text)
+    const args = match && splitCssArguments(match[2])
+    if (!match || !args) {
+      return undefined
+    }
+
+    const alpha =
+      args.alpha === undefined ? 1 : parseCssNumber(args.alpha, 1, args.legacy)
+    if (alpha === undefined) {
+      return undefined
+    }
+
+    if (match[1][0] === 'r') {
+      const [r, g, b] = args.values.map((arg) =>
+        parseCssNumber(arg, 255, args.legacy)
+      )
+      if (r === undefined || g === undefined || b === undefined) {
+        return undefined
+      }
+      return create(r, g, b, alpha)
+    }
+
+    const hue = parseCssHue(args.values[0], args.legacy)
+    const [s, l] = args.values
+      .slice(1)
+      .map((arg) => parseCssNumber(arg, 100, args.legacy))
+    if (hue === undefined || s === undefined || l === undefined) {
+      return undefined
+    }
+    const result = create(0, 0, 0, alpha)
+    Color3.fromHSLToRef({ h: hue, s, l }, result)
+    return result
+  }
+
+  /**
+   * Returns the CSS string of the color, `#RRGGBBAA`, `rgb(r g b / a)` or `hsl(h s% l% / a)`.
+   * The alpha is omitted when it is 1
+   * @param value - defines the color to format, its components are clamped between 0 and 1
+   * @param format - defines the CSS notation, hexadecimal by default
+   * @returns the CSS string
+   */
+  export function toCssString(
+    value: ReadonlyColor4,
+    format: Color3.CssFormat = 'hex'
+  ): string {
+    const alpha = Scalar.clamp(value.a)
+    if (alpha === 1) {
+      return Color3.toCssString(value, format)
+    }
+    if (format === 'hex') {
+      return (
+        Color3.toCssString(value, format) +
+        Scalar.toHex(Math.round(alpha * 255))
+      )
+    }
+    // insert the alpha before the closing parenthesis
+    const color = Color3.toCssString(value, format)
+    return `${color.substring(0, color.length - 1)} / ${
+      Math.round(alpha * 1000) / 1000
+    })`
+  }
+
+  /**
+   * Returns the color of the hexadecimal digits of a CSS color, without the #
+   * @internal
+   */
+  function parseHex(digits: string): MutableColor4 | undefined {
+    if (!/^[0-9a-f]+$/.test(digits)) {
+      return undefined
+    }
+    if (digits.length === 3 || digits.length === 4) {
+      // each digit is repeated, #f80 is #ff8800
+      const [r, g, b, a] = digits
+        .split('')
+        .map((digit) => parseInt(digit, 16) * 17)
+      return fromInts(r, g, b, a === undefined ? 255 : a)
+    }
+    if (digits.length === 6 || digits.length === 8) {
+      const [r, g, b, a] = (digits.match(/../g) || []).map((pair) =>
+        parseInt(pair, 16)
+      )
+      return fromInts(r, g, b, a === undefined ? 255 : a)
+    }
+    return undefined
+  }
+
+  /**
+   * Splits the arguments of a CSS color function, separated by commas (legacy syntax) or spaces with the alpha after a slash
+   * @internal
+   */
+  function splitCssArguments(
+    text: string
+  ): { values: string[]; alpha?: string; legacy: boolean } | undefined {
+    if (text.indexOf(',') !== -1) {
+      const parts = text.split(',').map((part) => part.trim())
+      if (
+        (parts.length !== 3 && parts.length !== 4) ||
+        parts.some((part) => !part || /[\s/]/.test(part))
+      ) {
+        return undefined
+      }
+      return { values: parts.slice(0, 3), alpha: parts[3], legacy: true }
+    }
+
+    const [colorPart, alphaPart, extra] = text.split('/')
+    const values = colorPart.trim().split(/\s+/)
+    const alpha = alphaPart === undefined ? undefined : alphaPart.trim()
+    if (
+      extra !== undefined ||
+      values.length !== 3 ||
+      alpha === '' ||
+      (alpha && /\s/.test(alpha))
+    ) {
+      return undefined
+    }
+    return { values, alpha, legacy: false }
+  }
+
+  /**
+   * Parses a CSS number or percentage, and returns it divided by the given maximum and clamped between 0 and 1.
+   * The percentages are always relative to 100, `none` is 0 in the modern syntax
+   * @internal
+   */
+  function parseCssNumber(
+    text: string,
+    max: number,
+    legacy: boolean
+  ): number | undefined {
+    if (text === 'none' && !legacy) {
+      return 0
+    }
+    const match = cssNumber.exec(text)
+    if (!match) {
+      return undefined
+    }
+    const number = parseFloat(match[1])
+    return Scalar.clamp(match[2] === '%' ? number / 100 : number / max)
+  }
+
+  /**
+   * Parses a CSS hue, a number of degrees or an angle with its unit, and returns it in degrees
+   * @internal
+   */
+  function parseCssHue(text: string, legacy: boolean): number | undefined {
+    if (text === 'none' && !legacy) {
+      return 0
+    }
+    const match =
+      /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|rad|grad|turn)?$/.exec(
+        text
+      )
+    if (!match) {
+      return undefined
+    }
+    const angle = parseFloat(match[1])
+    switch (match[2]) {
+      case 'rad':
+        return angle * RAD2DEG
+      case 'grad':
+        return angle * 0.9
+      case 'turn':
+        return angle * 360
+      default:
+        return angle
+    }
+  }
+
+  /** @internal */
+  const cssNumber = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%?)$/
+
+  /**
+   * The CSS named colors
+   * @internal
+   */
+  const namedColors: Record<string, number> = {
+    aliceblue: 0xf0f8ff,
+    antiquewhite: 0xfaebd7,
+    aqua: 0x00ffff,
+    aquamarine: 0x7fffd4,
+    azure: 0xf0ffff,
+    beige: 0xf5f5dc,
+    bisque: 0xffe4c4,
+    black: 0x000000,
+    blanchedalmond: 0xffebcd,
+    blue: 0x0000ff,
+    blueviolet: 0x8a2be2,
+    brown: 0xa52a2a,
+    burlywood: 0xdeb887,
+    cadetblue: 0x5f9ea0,
+    chartreuse: 0x7fff00,
+    chocolate: 0xd2691e,
+    coral: 0xff7f50,
+    cornflowerblue: 0x6495ed,
+    cornsilk: 0xfff8dc,
+    crimson: 0xdc143c,
+    cyan: 0x00ffff,
+    darkblue: 0x00008b,
+    darkcyan: 0x008b8b,
+    darkgoldenrod: 0xb8860b,
+    darkgray: 0xa9a9a9,
+    darkgreen: 0x006400,
+    darkgrey: 0xa9a9a9,
+    darkkhaki: 0xbdb76b,
+    darkmagenta: 0x8b008b,
+    darkolivegreen: 0x556b2f,
+    darkorange: 0xff8c00,
+    darkorchid: 0x9932cc,
+    darkred: 0x8b0000,
+    darksalmon: 0xe9967a,
+    darkseagreen: 0x8fbc8f,
+    darkslateblue: 0x483d8b,
+    darkslategray: 0x2f4f4f,
+    darkslategrey: 0x2f4f4f,
+    darkturquoise: 0x00ced1,
+    darkviolet: 0x9400d3,
+    deeppink: 0xff1493,
+    deepskyblue: 0x00bfff,
+    dimgray: 0x696969,
+    dimgrey: 0x696969,
+    dodgerblue: 0x1e90ff,
+    firebrick: 0xb22222,
+    floralwhite: 0xfffaf0,
+    forestgreen: 0x228b22,
+    fuchsia: 0xff00ff,
+    gainsboro: 0xdcdcdc,
+    ghostwhite: 0xf8f8ff,
+    gold: 0xffd700,
+    goldenrod: 0xdaa520,
+    gray: 0x808080,
+    green: 0x008000,
+    greenyellow: 0xadff2f,
+    grey: 0x808080,
+    honeydew: 0xf0fff0,
+    hotpink: 0xff69b4,
+    indianred: 0xcd5c5c,
+    indigo: 0x4b0082,
+    ivory: 0xfffff0,
+    khaki: 0xf0e68c,
+    lavender: 0xe6e6fa,
+    lavenderblush: 0xfff0f5,
+    lawngreen: 0x7cfc00,
+    lemonchiffon: 0xfffacd,
+    lightblue: 0xadd8e6,
+    lightcoral: 0xf08080,
+    lightcyan: 0xe0ffff,
+    lightgoldenrodyellow: 0xfafad2,
+    lightgray: 0xd3d3d3,
+    lightgreen: 0x90ee90,
+    lightgrey: 0xd3d3d3,
+    lightpink: 0xffb6c1,
+    lightsalmon: 0xffa07a,
+    lightseagreen: 0x20b2aa,
+    lightskyblue: 0x87cefa,
+    lightslategray: 0x778899,
+    lightslategrey: 0x778899,
+    lightsteelblue: 0xb0c4de,
+    lightyellow: 0xffffe0,
+    lime: 0x00ff00,
+    limegreen: 0x32cd32,
+    linen: 0xfaf0e6,
+    magenta: 0xff00ff,
+    maroon: 0x800000,
+    mediumaquamarine: 0x66cdaa,
+    mediumblue: 0x0000cd,
+    mediumorchid: 0xba55d3,
+    mediumpurple: 0x9370db,
+    mediumseagreen: 0x3cb371,
+    mediumslateblue: 0x7b68ee,
+    mediumspringgreen: 0x00fa9a,
+    mediumturquoise: 0x48d1cc,
+    mediumvioletred: 0xc71585,
+    midnightblue: 0x191970,
+    mintcream: 0xf5fffa,
+    mistyrose: 0xffe4e1,
+    moccasin: 0xffe4b5,
+    navajowhite: 0xffdead,
+    navy: 0x000080,
+    oldlace: 0xfdf5e6,
+    olive: 0x808000,
+    olivedrab: 0x6b8e23,
+    orange: 0xffa500,
+    orangered: 0xff4500,
+    orchid: 0xda70d6,
+    palegoldenrod: 0xeee8aa,
+    palegreen: 0x98fb98,
+    paleturquoise: 0xafeeee,
+    palevioletred: 0xdb7093,
+    papayawhip: 0xffefd5,
+    peachpuff: 0xffdab9,
+    peru: 0xcd853f,
+    pink: 0xffc0cb,
+    plum: 0xdda0dd,
+    powderblue: 0xb0e0e6,
+    purple: 0x800080,
+    rebeccapurple: 0x663399,
+    red: 0xff0000,
+    rosybrown: 0xbc8f8f,
+    royalblue: 0x4169e1,
+    saddlebrown: 0x8b4513,
+    salmon: 0xfa8072,
+    sandybrown: 0xf4a460,
+    seagreen: 0x2e8b57,
+    seashell: 0xfff5ee,
+    sienna: 0xa0522d,
+    silver: 0xc0c0c0,
+    skyblue: 0x87ceeb,
+    slateblue: 0x6a5acd,
+    slategray: 0x708090,
+    slategrey: 0x708090,
+    snow: 0xfffafa,
+    springgreen: 0x00ff7f,
+    steelblue: 0x4682b4,
+    tan: 0xd2b48c,
+    teal: 0x008080,
+    thistle: 0xd8bfd8,
+    tomato: 0xff6347,
+    turquoise: 0x40e0d0,
+    violet: 0xee82ee,
+    wheat: 0xf5deb3,
+    white: 0xffffff,
+    whitesmoke: 0xf5f5f5,
+    yellow: 0xffff00,
+    yellowgreen: 0x9acd32
+  }
 }
@@ -0,0 +1,768 @@
+import { Vector3 } from './Vector3'
+import { Scalar } from './Scalar'
+
+/**
+ * @public
+ * Curve is a type and a namespace.
+ * - The namespace contains all types and functions to operates with Curve
+ * - The type Curve is an alias to Curve.ReadonlyCurve
+ * ```
+ *
+ * // Namespace usage example
+ * const path = Curve.catmullRom(waypoints, true)
+ * const distance = (speed * time) % Curve.length(path)
+ * const position = Curve.getPointAtDistance(path, distance)
+ *
+ * // Type usage example
+ * const readonlyCurve: Curve = Curve.catmullRom(waypoints)
+ * readonlyCurve.closed = true // this FAILS
+ *
+ * // For mutable usage, use `Curve.Mutable`
+ * const curve: Curve.Mutable = Curve.catmullRom(waypoints)
+ * curve.closed = true // this WORKS
+ * ```
+ */
+export type Curve = Curve.ReadonlyCurve
+
+/**
+ * @public
+ * Curve is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with Curve
+ * const path = Curve.catmullRom(waypoints, true)
+ * // The type Curve is an alias to Curve.ReadonlyCurve
+ * const readonlyCurve: Curve = Curve.catmullRom(waypoints)
+ * readonlyCurve.closed = true // this FAILS
+ *
+ * // For mutable usage, use `Curve.Mutable`
+ * const curve: Curve.Mutable = Curve.catmullRom(waypoints)
+ * curve.closed = true // this WORKS
+ * ```
+ */
+export namespace Curve {
+  /**
+   * @public
+   * Kind of curve:
+   * - `quadraticBezier`: chained quadratic Bezier segments, with 2 * n + 1 points
+   * - `cubicBezier`: chained cubic Bezier segments, with 3 * n + 1 points
+   * - `catmullRom`: Catmull-Rom spline going through all the points
+   * - `bSpline`: uniform cubic B-spline, smoother but only going through the first and last points
+   */
+  export type CurveType =
+    | 'quadraticBezier'
+    | 'cubicBezier'
+    | 'catmullRom'
+    | 'bSpline'
+
+  /**
+   * @public
+   * For external use, type with `Curve`, e.g. `const curve: Curve = Curve.catmullRom(points)`.
+   * For mutable typing, use `Curve.Mutable`, e.g. `const curve: Curve.Mutable = Curve.catmullRom(points)`.
+   */
+  export type ReadonlyCurve = {
+    /**
+     * Kind of curve
+     */
+    readonly type: CurveType
+    /**
+     * Control points of the curve
+     */
+    readonly points: ReadonlyArray<Vector3.ReadonlyVector3>
+    /**
+     * Whether the curve loops back to its first point, only for Catmull-Rom and B-spline curves
+     */
+    readonly closed: boolean
+    /**
+     * Parameterization of the Catmull-Rom curves: 0 for uniform, 0.5 for centripetal and 1 for chordal
+     */
+    readonly alpha: number
+    /**
+     * Length of the curve from its start to evenly spaced parameters, used for the constant speed travel
+     */
+    readonly arcLengths: ReadonlyArray<number>
+  }
+
+  /**
+   * @public
+   * For external usage, type with `Curve`, e.g. `const curve: Curve = Curve.catmullRom(points)`.
+   * For mutable typing, use `Curve.Mutable`, e.g. `const curve: Curve.Mutable = Curve.catmullRom(points)`.
+   */
+  export type MutableCurve = {
+    /**
+     * Kind of curve
+     */
+    type: CurveType
+    /**
+     * Control points of the curve, call `updateArcLengths` after changing them
+     */
+    points: Vector3.MutableVector3[]
+    /**
+     * Whether the curve loops back to its first point, only for Catmull-Rom and B-spline curves
+     */
+    closed: boolean
+    /**
+     * Parameterization of the Catmull-Rom curves: 0 for uniform, 0.5 for centripetal and 1 for chordal
+     */
+    alpha: number
+    /**
+     * Length of the curve from its start to evenly spaced parameters, used for the constant speed travel
+     */
+    arcLengths: number[]
+  }
+
+  /**
+   * @public
+   * Type with `Curve` for readonly usage, e.g. `const curve: Curve = Curve.catmullRom(points)`.
+   * For mutable, use `Curve.Mutable`, e.g. `const curve: Curve.Mutable = Curve.catmullRom(points)`.
+   */
+  export type Mutable = MutableCurve
+
+  /**
+   * Creates a new curve from a copy of the given points, and computes its arc lengths
+   * @param type - defines the kind of curve
+   * @param points - defines the control points of the curve
+   * @param closed - defines if the curve loops back to its first point, ignored by the Bezier curves
+   * @param alpha - defines the parameterization of the Catmull-Rom curves, centripetal by default
+   * @returns the new curve
+   */
+  export function create(
+    type: CurveType,
+    points: ReadonlyArray<Vector3.ReadonlyVector3>,
+    closed: boolean = false,
+    alpha: number = 0.5
+  ): MutableCurve {
+    const curve: MutableCurve = {
+      type,
+      points: points.map(Vector3.clone),
+      closed: closed && (type === 'catmullRom' || type === 'bSpline'),
+      alpha,
+      arcLengths: []
+    }
+    updateArcLengths(curve)
+    return curve
+  }
+
+  /**
+   * Creates a new curve of chained quadratic Bezier segments, each segment shares its last point with the next one
+   * @param points - defines the points, start, control and end of the first segment, then control and end of the next ones
+   * @returns the new curve
+   */
+  export function quadraticBezier(
+    points: ReadonlyArray<Vector3.ReadonlyVector3>
+  ): MutableCurve {
+    return create('quadraticBezier', points)
+  }
+
+  /**
+   * Creates a new curve of chained cubic Bezier segments, each segment shares its last point with the next one
+   * @param points - defines the points, start, two controls and end of the first segment, then two controls and end of the next ones
+   * @returns the new curve
+   */
+  export function cubicBezier(
+    points: ReadonlyArray<Vector3.ReadonlyVector3>
+  ): MutableCurve {
+    return create('cubicBezier', points)
+  }
+
+  /**
+   * Creates a new Catmull-Rom spline going through all the given points
+   * @param points - defines the points of the spline
+   * @param closed - defines if the spline loops back to its first point
+   * @param alpha - defines the parameterization: 0 for uniform, 0.5 (default) for centripetal, which avoids cusps and self intersections
+   * @returns the new curve
+   */
+  export function catmullRom(
+    points: ReadonlyArray<Vector3.ReadonlyVector3>,
+    closed: boolean = false,
+    alpha: number = 0.5
+  ): MutableCurve {
+    return create('catmullRom', points, closed, alpha)
+  }
+
+  /**
+   * Creates a new uniform cubic B-spline. When it is open, it starts at the first point and ends at the last one
+   * @param points - defines the control points of the spline
+   * @param closed - defines if the spline loops back
+   * @returns the new curve
+   */
+  export function bSpline(
+    points: ReadonlyArray<Vector3.ReadonlyVector3>,
+    closed: boolean = false
+  ): MutableCurve {
+    return create('bSpline', points, closed)
+  }
+
+  /**
+   * Computes again the arc lengths of the curve, after its points changed
+   * @param curve - defines the curve to update
+   * @param divisionsPerSegment - defines the number of samples of each segment, more is more precise
+   */
+  export function updateArcLengths(
+    curve: MutableCurve,
+    divisionsPerSegment: number = 32
+  ): void {
+    const divisions = Math.max(
+      1,
+      segmentCount(curve) * Math.max(1, Math.floor(divisionsPerSegment))
+    )
+    const previous = getPoint(curve, 0)
+    const current = Vector3.Zero()
+    const arcLengths = [0]
+    let total = 0
+    for (let index = 1; index <= divisions; index++) {
+      evaluateToRef(curve, index / divisions, 0, current)
+      total += Vector3.distance(previous, current)
+      arcLengths.push(total)
+      Vector3.copyFrom(current, previous)
+    }
+    curve.arcLengths = arcLengths
+  }
+
+  /**
+   * Returns the number of segments of the curve
+   * @param curve - defines the curve
+   * @returns the number of segments, 0 if there are not enough points
+   */
+  export function segmentCount(curve: ReadonlyCurve): number {
+    const count = curve.points.length
+    switch (curve.type) {
+      case 'quadraticBezier':
+        return Math.max(0, Math.floor((count - 1) / 2))
+      case 'cubicBezier':
+        return Math.max(0, Math.floor((count - 1) / 3))
+      default:
+        if (count < 2) {
+          return 0
+        }
+        return curve.closed ? count : count - 1
+    }
+  }
+
+  /**
+   * Returns the length of the curve, from its arc lengths
+   * @param curve - defines the curve
+   * @returns the length
+   */
+  export function length(curve: ReadonlyCurve): number {
+    const arcLengths = curve.arcLengths
+    return arcLengths.length ? arcLengths[arcLengths.length - 1] : 0
+  }
+
+  /**
+   * Returns a new Vector3 with the point of the curve at the given parameter.
+   * The parameter goes from 0 at the start to 1 at the end of the curve, each segment having the same range
+   * but not the same length, see `getPointAtDistance` to travel the curve at constant speed
+   * @param curve - defines the curve
+   * @param t - defines the parameter, clamped between 0 and 1 for an open curve and wrapped for a closed one
+   * @returns the new Vector3
+   */
+  export function getPoint(
+    curve: ReadonlyCurve,
+    t: number
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    getPointToRef(curve, t, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the point of the curve at the given parameter
+   * @param curve - defines the curve
+   * @param t - defines the parameter, clamped between 0 and 1 for an open curve and wrapped for a closed one
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function getPointToRef(
+    curve: ReadonlyCurve,
+    t: number,
+    result: Vector3.MutableVector3
+  ): void {
+    evaluateToRef(curve, t, 0, result)
+  }
+
+  /**
+   * Returns a new Vector3 with the normalized direction of the curve at the given parameter
+   * @param curve - defines the curve
+   * @param t - defines the parameter
+   * @returns the new Vector3
+   */
+  export function getTangent(
+    curve: ReadonlyCurve,
+    t: number
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    getTangentToRef(curve, t, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the normalized direction of the curve at the given parameter
+   * @param curve - defines the curve
+   * @param t - defines the parameter
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function getTangentToRef(
+    curve: ReadonlyCurve,
+    t: number,
+    result: Vector3.MutableVector3
+  ): void {
+    frameToRef(curve, t, result, Vector3.Zero(), Vector3.Zero())
+  }
+
+  /**
+   * Returns a new Vector3 with the normal of the curve at the given parameter, pointing to the center of the curvature.
+   * On straight parts of the curve, the normal is the closest direction to up perpendicular to the tangent
+   * @param curve - defines the curve
+   * @param t - defines the parameter
+   * @returns the new Vector3
+   */
+  export function getNormal(
+    curve: ReadonlyCurve,
+    t: number
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    getNormalToRef(curve, t, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the normal of the curve at the given parameter
+   * @param curve - defines the curve
+   * @param t - defines the parameter
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function getNormalToRef(
+    curve: ReadonlyCurve,
+    t: number,
+    result: Vector3.MutableVector3
+  ): void {
+    frameToRef(curve, t, Vector3.Zero(), result, Vector3.Zero())
+  }
+
+  /**
+   * Returns a new Vector3 with the binormal of the curve at the given parameter, the cross product of the tangent and the normal
+   * @param curve - defines the curve
+   * @param t - defines the parameter
+   * @returns the new Vector3
+   */
+  export function getBinormal(
+    curve: ReadonlyCurve,
+    t: number
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    getBinormalToRef(curve, t, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the binormal of the curve at the given parameter
+   * @param curve - defines the curve
+   * @param t - defines the parameter
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function getBinormalToRef(
+    curve: ReadonlyCurve,
+    t: number,
+    result: Vector3.MutableVector3
+  ): void {
+    frameToRef(curve, t, Vector3.Zero(), Vector3.Zero(), result)
+  }
+
+  /**
+   * Returns the parameter of the curve at the given distance from its start, using the arc lengths
+   * @param curve - defines the curve
+   * @param distance - defines the distance along the curve, clamped for an open curve and wrapped for a closed one
+   * @returns the parameter, between 0 and 1
+   */
+  export function getParameterAtDistance(
+    curve: ReadonlyCurve,
+    distance: number
+  ): number {
+    const arcLengths = curve.arcLengths
+    const total = length(curve)
+    if (total === 0) {
+      return 0
+    }
+
+    const target = curve.closed
+      ? distance - Math.floor(distance / total) * total
+      : Scalar.clamp(distance, 0, total)
+
+    let low = 0
+    let high = arcLengths.length - 2
+    while (low < high) {
+      const middle = (low + high + 1) >> 1
+      if (arcLengths[middle] <= target) {
+        low = middle
+      } else {
+        high = middle - 1
+      }
+    }
+
+    const segmentLength = arcLengths[low + 1] - arcLengths[low]
+    const fraction =
+      segmentLength > 0 ? (target - arcLengths[low]) / segmentLength : 0
+    return (low + Scalar.clamp(fraction)) / (arcLengths.length - 1)
+  }
+
+  /**
+   * Returns the distance from the start of the curve to the given parameter, using the arc lengths
+   * @param curve - defines the curve
+   * @param t - defines the parameter, clamped between 0 and 1
+   * @returns the distance along the curve
+   */
+  export function getDistanceAtParameter(
+    curve: ReadonlyCurve,
+    t: number
+  ): number {
+    const arcLengths = curve.arcLengths
+    if (arcLengths.length < 2) {
+      return 0
+    }
+    const scaled = Scalar.clamp(t) * (arcLengths.length - 1)
+    const index = Math.min(Math.floor(scaled), arcLengths.length - 2)
+    return Scalar.lerp(arcLengths[index], arcLengths[index + 1], scaled - index)
+  }
+
+  /**
+   * Returns a new Vector3 with the point of the curve at the given distance from its start.
+   * Increasing the distance at a constant rate travels the curve at constant speed
+   * @param curve - defines the curve
+   * @param distance - defines the distance along the curve, clamped for an open curve and wrapped for a closed one
+   * @returns the new Vector3
+   */
+  export function getPointAtDistance(
+    curve: ReadonlyCurve,
+    distance: number
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    getPointAtDistanceToRef(curve, distance, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the point of the curve at the given distance from its start
+   * @param curve - defines the curve
+   * @param distance - defines the distance along the curve, clamped for an open curve and wrapped for a closed one
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function getPointAtDistanceToRef(
+    curve: ReadonlyCurve,
+    distance: number,
+    result: Vector3.MutableVector3
+  ): void {
+    getPointToRef(curve, getParameterAtDistance(curve, distance), result)
+  }
+
+  /**
+   * Returns the parameter of the point of the curve closest to the given point
+   * @param curve - defines the curve
+   * @param point - defines the point to project on the curve
+   * @returns the parameter, between 0 and 1
+   */
+  export function closestParameter(
+    curve: ReadonlyCurve,
+    point: Vector3.ReadonlyVector3
+  ): number {
+    const sample = Vector3.Zero()
+    const distanceAt = (t: number) => {
+      evaluateToRef(curve, t, 0, sample)
+      return Vector3.distanceSquared(sample, point)
+    }
+
+    // find the closest sample of the arc lengths
+    const divisions = Math.max(1, curve.arcLengths.length - 1)
+    let best = 0
+    let bestDistance = Infinity
+    for (let index = 0; index <= divisions; index++) {
+      const distance = distanceAt(index / divisions)
+      if (distance < bestDistance) {
+        best = index / divisions
+        bestDistance = distance
+      }
+    }
+
+    // then refine it between its neighbours with a golden section search
+    let low = best - 1 / divisions
+    let high = best + 1 / divisions
+    if (!curve.closed) {
+      low = Math.max(0, low)
+      high = Math.min(1, high)
+    }
+    let left = high - goldenRatio * (high - low)
+    let right = low + goldenRatio * (high - low)
+    let leftDistance = distanceAt(left)
+    let rightDistance = distanceAt(right)
+    for (let iteration = 0; iteration < 40; iteration++) {
+      if (leftDistance < rightDistance) {
+        high = right
+        right = left
+        rightDistance = leftDistance
+        left = high - goldenRatio * (high - low)
+        leftDistance = distanceAt(left)
+      } else {
+        low = left
+        left = right
+        leftDistance = rightDistance
+        right = low + goldenRatio * (high - low)
+        rightDistance = distanceAt(right)
+      }
+    }
+
+    let t = (low + high) / 2
+    if (distanceAt(t) > bestDistance) {
+      t = best
+    }
+    return curve.closed ? t - Math.floor(t) : t
+  }
+
+  /**
+   * Returns a new Vector3 with the point of the curve closest to the given point
+   * @param curve - defines the curve
+   * @param point - defines the point to project on the curve
+   * @returns the new Vector3
+   */
+  export function closestPoint(
+    curve: ReadonlyCurve,
+    point: Vector3.ReadonlyVector3
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    closestPointToRef(curve, point, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the point of the curve closest to the given point
+   * @param curve - defines the curve
+   * @param point - defines the point to project on the curve
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function closestPointToRef(
+    curve: ReadonlyCurve,
+    point: Vector3.ReadonlyVector3,
+    result: Vector3.MutableVector3
+  ): void {
+    getPointToRef(curve, closestParameter(curve, point), result)
+  }
+
+  /** @internal */
+  const goldenRatio = (Math.sqrt(5) - 1) / 2
+
+  /**
+   * Sets the tangent, normal and binormal of the Frenet frame of the curve at the given parameter
+   * @internal
+   */
+  function frameToRef(
+    curve: ReadonlyCurve,
+    t: number,
+    tangent: Vector3.MutableVector3,
+    normal: Vector3.MutableVector3,
+    binormal: Vector3.MutableVector3
+  ) {
+    const velocity = Vector3.Zero()
+    const acceleration = Vector3.Zero()
+    evaluateToRef(curve, t, 1, velocity)
+    evaluateToRef(curve, t, 2, acceleration)
+
+    // where the curve stops, e.g. on repeated control points, it leaves in the direction of the acceleration
+    const speed = Vector3.length(velocity)
+    if (speed < 1e-8) {
+      Vector3.normalizeToRef(acceleration, tangent)
+    } else {
+      Vector3.normalizeFromLengthToRef(velocity, speed, tangent)
+    }
+
+    const curvature = Vector3.cross(velocity, acceleration)
+    const curvatureLength = Vector3.length(curvature)
+    if (curvatureLength > 1e-6 * speed * Vector3.length(acceleration)) {
+      Vector3.normalizeFromLengthToRef(curvature, curvatureLength, binormal)
+    } else {
+      // straight part, keep the normal as close as possible to up
+      const reference =
+        Math.abs(tangent.y) < 0.99 ? Vector3.Up() : Vector3.Right()
+      Vector3.normalizeToRef(Vector3.cross(tangent, reference), binormal)
+    }
+    Vector3.crossToRef(binormal, tangent, normal)
+  }
+
+  /**
+   * Sets the given vector "result" with the point (order 0), first derivative (order 1) or second derivative (order 2) of the curve
+   * @internal
+   */
+  function evaluateToRef(
+    curve: ReadonlyCurve,
+    t: number,
+    order: number,
+    result: Vector3.MutableVector3
+  ) {
+    const { points, type } = curve
+    const count = segmentCount(curve)
+    if (count === 0) {
+      if (order === 0 && points.length) {
+        Vector3.copyFrom(points[0], result)
+      } else {
+        Vector3.copyFromFloats(0, 0, 0, result)
+      }
+      return
+    }
+
+    const scaled = (curve.closed ? t - Math.floor(t) : Scalar.clamp(t)) * count
+    const index = Math.min(Math.floor(scaled), count - 1)
+    const s = scaled - index
+    const controls = [
+      Vector3.Zero(),
+      Vector3.Zero(),
+      Vector3.Zero(),
+      Vector3.Zero()
+    ]
+    let weights: number[]
+
+    if (type === 'quadraticBezier') {
+      for (let control = 0; control < 3; control++) {
+        Vector3.copyFrom(points[index * 2 + control], controls[control])
+      }
+      weights =
+        order === 0
+          ? [(1 - s) * (1 - s), 2 * s * (1 - s), s * s, 0]
+          : order === 1
+          ? [-2 * (1 - s), 2 - 4 * s, 2 * s, 0]
+          : [2, -4, 2, 0]
+    } else if (type === 'cubicBezier') {
+      for (let control = 0; control < 4; control++) {
+        Vector3.copyFrom(points[index * 3 + control], controls[control])
+      }
+      const r = 1 - s
+      weights =
+        order === 0
+          ? [r * r * r, 3 * s * r * r, 3 * s * s * r, s * s * s]
+          : order === 1
+          ? [
+              -3 * r * r,
+              3 * r * r - 6 * s * r,
+              6 * s * r - 3 * s * s,
+              3 * s * s
+            ]
+          : [6 * r, 18 * s - 12, 6 - 18 * s, 6 * s]
+    } else {
+      for (let control = 0; control < 4; control++) {
+        controlPointToRef(curve, index + control - 1, controls[control])
+      }
+      if (type === 'bSpline') {
+        const r = 1 - s
+        weights =
+          order === 0
+            ? [
+                (r * r * r) / 6,
+                (3 * s * s * s - 6 * s * s + 4) / 6,
+                (-3 * s * s * s + 3 * s * s + 3 * s + 1) / 6,
+                (s * s * s) / 6
+              ]
+            : order === 1
+            ? [
+                -(r * r) / 2,
+                1.5 * s * s - 2 * s,
+                -1.5 * s * s + s + 0.5,
+                (s * s) / 2
+              ]
+            : [r, 3 * s - 2, 1 - 3 * s, s]
+      } else {
+        catmullRomToHermite(controls, curve.alpha)
+        weights =
+          order === 0
+            ? [
+                2 * s * s * s - 3 * s * s + 1,
+                s * s * s - 2 * s * s + s,
+                -2 * s * s * s + 3 * s * s,
+                s * s * s - s * s
+              ]
+            : order === 1
+            ? [
+                6 * s * s - 6 * s,
+                3 * s * s - 4 * s + 1,
+                6 * s - 6 * s * s,
+                3 * s * s - 2 * s
+              ]
+            : [12 * s - 6, 6 * s - 4, 6 - 12 * s, 6 * s - 2]
+      }
+    }
+
+    // the derivatives are relative to the parameter of the whole curve
+    const factor = Math.pow(count, order)
+    let x = 0
+    let y = 0
+    let z = 0
+    for (let control = 0; control < 4; control++) {
+      const weight = weights[control] * factor
+      x += controls[control].x * weight
+      y += controls[control].y * weight
+      z += controls[control].z * weight
+    }
+    Vector3.copyFromFloats(x, y, z, result)
+  }
+
+  /**
+   * Sets the given vector "result" with the control point at the index, wrapped for a closed curve.
+   * An open curve is extended with the reflection of its second and second to last points
+   * @internal
+   */
+  function controlPointToRef(
+    curve: ReadonlyCurve,
+    index: number,
+    result: Vector3.MutableVector3
+  ) {
+    const points = curve.points
+    const count = points.length
+    if (curve.closed) {
+      Vector3.copyFrom(points[((index % count) + count) % count], result)
+    } else if (index < 0) {
+      Vector3.subtractToRef(points[0], points[1], result)
+      Vector3.addToRef(points[0], result, result)
+    } else if (index >= count) {
+      Vector3.subtractToRef(points[count - 1], points[count - 2], result)
+      Vector3.addToRef(points[count - 1], result, result)
+    } else {
+      Vector3.copyFrom(points[index], result)
+    }
+  }
+
+  /**
+   * Replaces the 4 points of a Catmull-Rom segment by the start, start tangent, end and end tangent of the same Hermite segment
+   * @internal
+   */
+  function catmullRomToHermite(
+    controls: Vector3.MutableVector3[],
+    alpha: number
+  ) {
+    const [p0, p1, p2, p3] = controls
+    // knot intervals, repeated points fall back to the interval of the segment
+    let dt0 = Math.pow(Vector3.distanceSquared(p0, p1), alpha / 2)
+    let dt1 = Math.pow(Vector3.distanceSquared(p1, p2), alpha / 2)
+    let dt2 = Math.pow(Vector3.distanceSquared(p2, p3), alpha / 2)
+    if (dt1 < 1e-4) {
+      dt1 = 1
+    }
+    if (dt0 < 1e-4) {
+      dt0 = dt1
+    }
+    if (dt2 < 1e-4) {
+      dt2 = dt1
+    }
+
+    const tangent = (a: number, b: number, c: number, d0: number, d1: number) =>
+      ((b - a) / d0 - (c - a) / (d0 + d1) + (c - b) / d1) * dt1
+
+    const start = Vector3.create(
+      tangent(p0.x, p1.x, p2.x, dt0, dt1),
+      tangent(p0.y, p1.y, p2.y, dt0, dt1),
+      tangent(p0.z, p1.z, p2.z, dt0, dt1)
+    )
+    const end = Vector3.create(
+      tangent(p1.x, p2.x, p3.x, dt1, dt2),
+      tangent(p1.y, p2.y, p3.y, dt1, dt2),
+      tangent(p1.z, p2.z, p3.z, dt1, dt2)
+    )
+    Vector3.copyFrom(p1, controls[0])
+    Vector3.copyFrom(start, controls[1])
+    Vector3.copyFrom(p2, controls[2])
+    Vector3.copyFrom(end, controls[3])
+  }
+}
@@ -0,0 +1,588 @@
+import { Epsilon } from './types'
+import { Vector3 } from './Vector3'
+import { Quaternion } from './Quaternion'
+import { Matrix } from './Matrix'
+
+/**
+ * @public
+ * DualQuaternion is a type and a namespace.
+ * - The namespace contains all types and functions to operates with DualQuaternion
+ * - The type DualQuaternion is an alias to DualQuaternion.ReadonlyDualQuaternion
+ *
+ * A unit dual quaternion represents a rigid transform (a rotation followed by a translation).
+ * Blending them does not shrink the volume like blending matrices does.
+ * ```
+ *
+ * // Namespace usage example
+ * const start = DualQuaternion.fromRotationTranslation(rotationA, positionA)
+ * const end = DualQuaternion.fromRotationTranslation(rotationB, positionB)
+ * const half = DualQuaternion.sclerp(start, end, 0.5)
+ *
+ * // Type usage example
+ * const readonlyTransform: DualQuaternion = DualQuaternion.Identity()
+ * readonlyTransform.real = Quaternion.Identity() // this FAILS
+ *
+ * // For mutable usage, use `DualQuaternion.Mutable`
+ * const transform: DualQuaternion.Mutable = DualQuaternion.Identity()
+ * transform.real = Quaternion.Identity() // this WORKS
+ * ```
+ */
+export type DualQuaternion = DualQuaternion.ReadonlyDualQuaternion
+
+/**
+ * @public
+ * DualQuaternion is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with DualQuaternion
+ * const half = DualQuaternion.sclerp(start, end, 0.5)
+ * // The type DualQuaternion is an alias to DualQuaternion.ReadonlyDualQuaternion
+ * const readonlyTransform: DualQuaternion = DualQuaternion.Identity()
+ * readonlyTransform.real = Quaternion.Identity() // this FAILS
+ *
+ * // For mutable usage, use `DualQuaternion.Mutable`
+ * const transform: DualQuaternion.Mutable = DualQuaternion.Identity()
+ * transform.real = Quaternion.Identity() // this WORKS
+ * ```
+ */
+export namespace DualQuaternion {
+  /**
+   * @public
+   * For external use, type with `DualQuaternion`, e.g. `const transform: DualQuaternion = DualQuaternion.Identity()`.
+   * For mutable typing, use `DualQuaternion.Mutable`, e.g. `const transform: DualQuaternion.Mutable = DualQuaternion.Identity()`.
+   */
+  export type ReadonlyDualQuaternion = {
+    /**
+     * Real part, the rotation
+     */
+    readonly real: Quaternion.ReadonlyQuaternion
+    /**
+     * Dual part, half the translation multiplied by the rotation
+     */
+    readonly dual: Quaternion.ReadonlyQuaternion
+  }
+
+  /**
+   * @public
+   * For external usage, type with `DualQuaternion`, e.g. `const transform: DualQuaternion = DualQuaternion.Identity()`.
+   * For mutable typing, use `DualQuaternion.Mutable`, e.g. `const transform: DualQuaternion.Mutable = DualQuaternion.Identity()`.
+   */
+  export type MutableDualQuaternion = {
+    /**
+     * Real part, the rotation
+     */
+    real: Quaternion.MutableQuaternion
+    /**
+     * Dual part, half the translation multiplied by the rotation
+     */
+    dual: Quaternion.MutableQuaternion
+  }
+
+  /**
+   * @public
+   * Type with `DualQuaternion` for readonly usage, e.g. `const transform: DualQuaternion = DualQuaternion.Identity()`.
+   * For mutable, use `DualQuaternion.Mutable`, e.g. `const transform: DualQuaternion.Mutable = DualQuaternion.Identity()`.
+   */
+  export type Mutable = MutableDualQuaternion
+
+  /**
+   * Creates a new DualQuaternion from its real and dual parts (copied)
+   * @param real - defines the real part (identity by default)
+   * @param dual - defines the dual part (zero by default)
+   * @returns the new DualQuaternion
+   */
+  export function create(
+    real: Quaternion.ReadonlyQuaternion = Quaternion.Identity(),
+    dual: Quaternion.ReadonlyQuaternion = Quaternion.Zero()
+  ): MutableDualQuaternion {
+    return {
+      real: Quaternion.create(real.x, real.y, real.z, real.w),
+      dual: Quaternion.create(dual.x, dual.y, dual.z, dual.w)
+    }
+  }
+
+  /**
+   * Creates a new DualQuaternion representing no transformation
+   * @returns the new DualQuaternion
+   */
+  export function Identity(): MutableDualQuaternion {
+    return create()
+  }
+
+  /**
+   * Returns a new DualQuaternion with the same value
+   * @param source - defines the source dual quaternion
+   * @returns the new DualQuaternion
+   */
+  export function clone(source: ReadonlyDualQuaternion): MutableDualQuaternion {
+    return create(source.real, source.dual)
+  }
+
+  /**
+   * Copy source into dest
+   * @param source - defines the source dual quaternion
+   * @param dest - defines the destination dual quaternion
+   */
+  export function copyFrom(
+    source: ReadonlyDualQuaternion,
+    dest: MutableDualQuaternion
+  ): void {
+    Quaternion.copyFrom(source.real, dest.real)
+    Quaternion.copyFrom(source.dual, dest.dual)
+  }
+
+  /**
+   * Creates a new DualQuaternion from a rotation and a translation. The rotation is applied first
+   * @param rotation - defines the rotation, it must be normalized
+   * @param translation - defines the translation
+   * @returns the new DualQuaternion
+   */
+  export function fromRotationTranslation(
+    rotation: Quaternion.ReadonlyQuaternion,
+    translation: Vector3.ReadonlyVector3
+  ): MutableDualQuaternion {
+    const result = create()
+    fromRotationTranslationToRef(rotation, translation, result)
+    return result
+  }
+
+  /**
+   * Sets the given DualQuaternion "result" from a rotation and a translation
+   * @param rotation - defines the rotation, it must be normalized
+   * @param translation - defines the translation
+   * @param result - defines the DualQuaternion where to store the result
+   */
+  export function fromRotationTranslationToRef(
+    rotation: Quaternion.ReadonlyQuaternion,
+    translation: Vector3.ReadonlyVector3,
+    result: MutableDualQuaternion
+  ): void {
+    const { x, y, z, w } = rotation
+    const tx = translation.x * 0.5
+    const ty = translation.y * 0.5
+    const tz = translation.z * 0.5
+
+    // dual = (translation, 0) * rotation / 2
+    result.dual.x = tx * w + ty * z - tz * y
+    result.dual.y = -tx * z + ty * w + tz * x
+    result.dual.z = tx * y - ty * x + tz * w
+    result.dual.w = -tx * x - ty * y - tz * z
+    Quaternion.copyFrom(rotation, result.real)
+  }
+
+  /**
+   * Creates a new DualQuaternion from the rotation and translation of a matrix, the scale is ignored
+   * @param matrix - defines the source matrix
+   * @returns the new DualQuaternion
+   */
+  export function fromMatrix(
+    matrix: Matrix.ReadonlyMatrix
+  ): MutableDualQuaternion {
+    const result = create()
+    fromMatrixToRef(matrix, result)
+    return result
+  }
+
+  /**
+   * Sets the given DualQuaternion "result" from the rotation and translation of a matrix, the scale is ignored
+   * @param matrix - defines the source matrix
+   * @param result - defines the DualQuaternion where to store the result
+   */
+  export function fromMatrixToRef(
+    matrix: Matrix.ReadonlyMatrix,
+    result: MutableDualQuaternion
+  ): void {
+    const rotation = Quaternion.Identity()
+    const translation = Vector3.Zero()
+    Matrix.decompose(matrix, undefined, rotation, translation)
+    fromRotationTranslationToRef(rotation, translation, result)
+  }
+
+  /**
+   * Returns a new Matrix with the same transformation as the dual quaternion
+   * @param dq - defines the source dual quaternion, it must be normalized
+   * @returns the new Matrix
+   */
+  export function toMatrix(dq: ReadonlyDualQuaternion): Matrix.MutableMatrix {
+    const result = Matrix.create()
+    toMatrixToRef(dq, result)
+    return result
+  }
+
+  /**
+   * Sets the given matrix "result" with the same transformation as the dual quaternion
+   * @param dq - defines the source dual quaternion, it must be normalized
+   * @param result - defines the Matrix where to store the result
+   */
+  export function toMatrixToRef(
+    dq: ReadonlyDualQuaternion,
+    result: Matrix.MutableMatrix
+  ): void {
+    Matrix.composeToRef(Vector3.One(), dq.real, getTranslation(dq), result)
+  }
+
+  /**
+   * Returns a new Quaternion with the rotation of the dual quaternion
+   * @param dq - defines the source dual quaternion
+   * @returns the new Quaternion
+   */
+  export function getRotation(
+    dq: ReadonlyDualQuaternion
+  ): Quaternion.MutableQuaternion {
+    return Quaternion.create(dq.real.x, dq.real.y, dq.real.z, dq.real.w)
+  }
+
+  /**
+   * Returns a new Vector3 with the translation of the dual quaternion
+   * @param dq - defines the source dual quaternion, it must be normalized
+   * @returns the new Vector3
+   */
+  export function getTranslation(
+    dq: ReadonlyDualQuaternion
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    getTranslationToRef(dq, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the translation of the dual quaternion
+   * @param dq - defines the source dual quaternion, it must be normalized
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function getTranslationToRef(
+    dq: ReadonlyDualQuaternion,
+    result: Vector3.MutableVector3
+  ): void {
+    const { x: rx, y: ry, z: rz, w: rw } = dq.real
+    const { x: dx, y: dy, z: dz, w: dw } = dq.dual
+
+    // translation = 2 * dual * conjugate(real)
+    result.x = 2 * (dx * rw - dy * rz + dz * ry - dw * rx)
+    result.y = 2 * (dx * rz + dy * rw - dz * rx - dw * ry)
+    result.z = 2 * (-dx * ry + dy * rx + dz * rw - dw * rz)
+  }
+
+  /**
+   * Multiplies two dual quaternions, with the same order as `Quaternion.multiply`:
+   * the result applies the transformation of "other" first and then the one of "self".
+   * It is equivalent to `Matrix.multiply(toMatrix(other), toMatrix(self))`
+   * @param self - defines the first operand
+   * @param other - defines the second operand
+   * @returns the new DualQuaternion
+   */
+  export function multiply(
+    self: ReadonlyDualQuaternion,
+    other: ReadonlyDualQuaternion
+  ): MutableDualQuaternion {
+    const result = create()
+    multiplyToRef(self, other, result)
+    return result
+  }
+
+  /**
+   * Sets the given DualQuaternion "result" with the multiplication of two dual quaternions. "result" can be one of the operands
+   * @param self - defines the first operand
+   * @param other - defines the second operand
+   * @param result - defines the DualQuaternion where to store the result
+   */
+  export function multiplyToRef(
+    self: ReadonlyDualQuaternion,
+    other: ReadonlyDualQuaternion,
+    result: MutableDualQuaternion
+  ): void {
+    const real = Quaternion.Zero()
+    const dual = Quaternion.Zero()
+    const tmp = Quaternion.Zero()
+
+    // (r1 + e d1)(r2 + e d2) = r1 r2 + e (r1 d2 + d1 r2)
+    Quaternion.multiplyToRef(self.real, other.real, real)
+    Quaternion.multiplyToRef(self.real, other.dual, dual)
+    Quaternion.multiplyToRef(self.dual, other.real, tmp)
+    dual.x += tmp.x
+    dual.y += tmp.y
+    dual.z += tmp.z
+    dual.w += tmp.w
+
+    Quaternion.copyFrom(real, result.real)
+    Quaternion.copyFrom(dual, result.dual)
+  }
+
+  /**
+   * Returns a new DualQuaternion with the quaternion conjugate of both parts.
+   * For a normalized dual quaternion it is the inverse transformation
+   * @param dq - defines the source dual quaternion
+   * @returns the new DualQuaternion
+   */
+  export function conjugate(dq: ReadonlyDualQuaternion): MutableDualQuaternion {
+    const result = create()
+    conjugateToRef(dq, result)
+    return result
+  }
+
+  /**
+   * Sets the given DualQuaternion "result" with the quaternion conjugate of both parts of the source
+   * @param dq - defines the source dual quaternion
+   * @param result - defines the DualQuaternion where to store the result
+   */
+  export function conjugateToRef(
+    dq: ReadonlyDualQuaternion,
+    result: MutableDualQuaternion
+  ): void {
+    Quaternion.conjugateToRef(dq.real, result.real)
+    Quaternion.conjugateToRef(dq.dual, result.dual)
+  }
+
+  /**
+   * Returns a new normalized DualQuaternion: the real part has a length of 1 and is orthogonal to the dual part
+   * @param dq - defines the source dual quaternion
+   * @returns the new DualQuaternion
+   */
+  export function normalize(dq: ReadonlyDualQuaternion): MutableDualQuaternion {
+    const result = create()
+    normalizeToRef(dq, result)
+    return result
+  }
+
+  /**
+   * Normalizes the source dual quaternion and stores the result in "result" (it can be the same dual quaternion)
+   * @param dq - defines the source dual quaternion
+   * @param result - defines the DualQuaternion where to store the result
+   */
+  export function normalizeToRef(
+    dq: ReadonlyDualQuaternion,
+    result: MutableDualQuaternion
+  ): void {
+    const length = Quaternion.length(dq.real)
+    if (length === 0) {
+      copyFrom(dq, result)
+      return
+    }
+
+    const invLength = 1 / length
+    const rx = dq.real.x * invLength
+    const ry = dq.real.y * invLength
+    const rz = dq.real.z * invLength
+    const rw = dq.real.w * invLength
+    const dx = dq.dual.x * invLength
+    const dy = dq.dual.y * invLength
+    const dz = dq.dual.z * invLength
+    const dw = dq.dual.w * invLength
+
+    // remove the part of the dual that is not orthogonal to the real part
+    const dot = rx * dx + ry * dy + rz * dz + rw * dw
+    result.real.x = rx
+    result.real.y = ry
+    result.real.z = rz
+    result.real.w = rw
+    result.dual.x = dx - rx * dot
+    result.dual.y = dy - ry * dot
+    result.dual.z = dz - rz * dot
+    result.dual.w = dw - rw * dot
+  }
+
+  /**
+   * Returns a new Vector3 with the given point transformed by the dual quaternion (rotation then translation)
+   * @param point - defines the point to transform
+   * @param dq - defines the transformation, it must be normalized
+   * @returns the new Vector3
+   */
+  export function transformPoint(
+    point: Vector3.ReadonlyVector3,
+    dq: ReadonlyDualQuaternion
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    transformPointToRef(point, dq, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the given point transformed by the dual quaternion
+   * @param point - defines the point to transform
+   * @param dq - defines the transformation, it must be normalized
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function transformPointToRef(
+    point: Vector3.ReadonlyVector3,
+    dq: ReadonlyDualQuaternion,
+    result: Vector3.MutableVector3
+  ): void {
+    const translation = getTranslation(dq)
+    Vector3.rotateToRef(point, dq.real, result)
+    Vector3.addToRef(result, translation, result)
+  }
+
+  /**
+   * Screw linear interpolation (ScLERP) between two dual quaternions.
+   * The transformation moves along a screw motion with constant speed, taking the shortest path
+   * @param start - defines the start value, it must be normalized
+   * @param end - defines the end value, it must be normalized
+   * @param amount - defines the gradient (between 0 and 1)
+   * @returns the new DualQuaternion
+   */
+  export function sclerp(
+    start: ReadonlyDualQuaternion,
+    end: ReadonlyDualQuaternion,
+    amount: number
+  ): MutableDualQuaternion {
+    const result = create()
+    sclerpToRef(start, end, amount, result)
+    return result
+  }
+
+  /**
+   * Sets the given DualQuaternion "result" with the screw linear interpolation between two dual quaternions
+   * @param start - defines the start value, it must be normalized
+   * @param end - defines the end value, it must be normalized
+   * @param amount - defines the gradient (between 0 and 1)
+   * @param result - defines the DualQuaternion where to store the result
+   */
+  export function sclerpToRef(
+    start: ReadonlyDualQuaternion,
+    end: ReadonlyDualQuaternion,
+    amount: number,
+    result: MutableDualQuaternion
+  ): void {
+    // difference = start^-1 * end, so start * difference^amount goes from start to end
+    const difference = conjugate(start)
+    multiplyToRef(difference, end, difference)
+    if (difference.real.w < 0) {
+      negateToRef(difference, difference)
+    }
+
+    const { real, dual } = difference
+    const sinHalfAngle = Math.sqrt(
+      real.x * real.x + real.y * real.y + real.z * real.z
+    )
+
+    if (sinHalfAngle < Epsilon) {
+      // pure translation
+      real.x = 0
+      real.y = 0
+      real.z = 0
+      real.w = 1
+      dual.x *= amount
+      dual.y *= amount
+      dual.z *= amount
+      dual.w *= amount
+    } else {
+      // convert to screw parameters: axis, angle, pitch and moment
+      const invSin = 1 / sinHalfAngle
+      const halfAngle = Math.atan2(sinHalfAngle, real.w)
+      const axisX = real.x * invSin
+      const axisY = real.y * invSin
+      const axisZ = real.z * invSin
+      const pitch = -2 * dual.w * invSin
+      const pitchCos = pitch * 0.5 * real.w
+      const momentX = (dual.x - axisX * pitchCos) * invSin
+      const momentY = (dual.y - axisY * pitchCos) * invSin
+      const momentZ = (dual.z - axisZ * pitchCos) * invSin
+
+      const newHalfAngle = halfAngle * amount
+      const newHalfPitch = pitch * amount * 0.5
+      const sin = Math.sin(newHalfAngle)
+      const cos = Math.cos(newHalfAngle)
+
+      real.x = axisX * sin
+      real.y = axisY * sin
+      real.z = axisZ * sin
+      real.w = cos
+      dual.x = momentX * sin + axisX * newHalfPitch * cos
+      dual.y = momentY * sin + axisY * newHalfPitch * cos
+      dual.z = momentZ * sin + axisZ * newHalfPitch * cos
+      dual.w = -newHalfPitch * sin
+    }
+
+    multiplyToRef(start, difference, result)
+  }
+
+  /**
+   * Dual quaternion linear blending (DLB) of several transformations, e.g. the bones influencing a vertex.
+   * The dual quaternions are flipped to the same hemisphere than the first one, summed with their weight and normalized
+   * @param values - defines the dual quaternions to blend, they must be normalized
+   * @param weights - defines the weight of each dual quaternion
+   * @returns the new DualQuaternion
+   */
+  export function blend(
+    values: ReadonlyDualQuaternion[],
+    weights: number[]
+  ): MutableDualQuaternion {
+    const result = create()
+    blendToRef(values, weights, result)
+    return result
+  }
+
+  /**
+   * Sets the given DualQuaternion "result" with the dual quaternion linear blending of several transformations
+   * @param values - defines the dual quaternions to blend, they must be normalized
+   * @param weights - defines the weight of each dual quaternion
+   * @param result - defines the DualQuaternion where to store the result
+   */
+  export function blendToRef(
+    values: ReadonlyDualQuaternion[],
+    weights: number[],
+    result: MutableDualQuaternion
+  ): void {
+    if (values.length === 0) {
+      copyFrom(Identity(), result)
+      return
+    }
+
+    const pivot = values[0].real
+    const sum = create(Quaternion.Zero(), Quaternion.Zero())
+    for (let index = 0; index < values.length; index++) {
+      const value = values[index]
+      let weight = weights[index]
+      if (Quaternion.dot(pivot, value.real) < 0) {
+        weight = -weight
+      }
+      addScaledQuaternion(sum.real, value.real, weight)
+      addScaledQuaternion(sum.dual, value.dual, weight)
+    }
+    normalizeToRef(sum, result)
+  }
+
+  /**
+   * Returns true if both dual quaternions are distant less than epsilon, component by component
+   * @param a - defines the first operand
+   * @param b - defines the second operand
+   * @param epsilon - defines the minimal distance to define values as equals
+   * @returns true if both dual quaternions are distant less than epsilon
+   */
+  export function equalsWithEpsilon(
+    a: ReadonlyDualQuaternion,
+    b: ReadonlyDualQuaternion,
+    epsilon: number = Epsilon
+  ): boolean {
+    return (
+      Math.abs(a.real.x - b.real.x) <= epsilon &&
+      Math.abs(a.real.y - b.real.y) <= epsilon &&
+      Math.abs(a.real.z - b.real.z) <= epsilon &&
+      Math.abs(a.real.w - b.real.w) <= epsilon &&
+      Math.abs(a.dual.x - b.dual.x) <= epsilon &&
+      Math.abs(a.dual.y - b.dual.y) <= epsilon &&
+      Math.abs(a.dual.z - b.dual.z) <= epsilon &&
+      Math.abs(a.dual.w - b.dual.w) <= epsilon
+    )
+  }
+
+  /** @internal */
+  function negateToRef(
+    dq: ReadonlyDualQuaternion,
+    result: MutableDualQuaternion
+  ): void {
+    Quaternion.negateToRef(dq.real, result.real)
+    Quaternion.negateToRef(dq.dual, result.dual)
+  }
+
+  /** @internal */
+  function addScaledQuaternion(
+    result: Quaternion.MutableQuaternion,
+    value: Quaternion.ReadonlyQuaternion,
+    scale: number
+  ): void {
+    result.x += value.x * scale
+    result.y += value.y * scale
+    result.z += value.z * scale
+    result.w += value.w * scale
+  }
+}
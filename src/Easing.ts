@@ -0,0 +1,597 @@
+import { Scalar } from './Scalar'
+import { Vector3 } from './Vector3'
+import { Quaternion } from './Quaternion'
+import { Color4 } from './Color4'
+
+/**
+ * Easing curves and tweening helpers.
+ * Every easing function maps a progress between 0 and 1 to an eased progress, 0 at the start and 1 at the end.
+ * The back and elastic curves overshoot, so their output can go out of the [0, 1] range
+ * ```
+ * const position = Easing.tweenVector3(start, end, elapsed / duration, Easing.cubicInOut)
+ * const css = Easing.cubicBezier(0.25, 0.1, 0.25, 1) // CSS "ease"
+ * ```
+ * @public
+ */
+export namespace Easing {
+  /**
+   * Function that maps a progress between 0 and 1 to an eased progress
+   */
+  export type EasingFunction = (amount: number) => number
+
+  /**
+   * Position of the jumps of a `steps` easing, with the same meaning as in CSS
+   */
+  export type StepPosition =
+    | 'jump-start'
+    | 'jump-end'
+    | 'jump-none'
+    | 'jump-both'
+    | 'start'
+    | 'end'
+
+  /** @internal */
+  const backOvershoot = 1.70158
+
+  /**
+   * No easing, the progress is not changed
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function linear(amount: number): number {
+    return amount
+  }
+
+  /**
+   * Quadratic easing, accelerating from zero velocity
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function quadIn(amount: number): number {
+    return amount * amount
+  }
+
+  /**
+   * Quadratic easing, decelerating to zero velocity
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function quadOut(amount: number): number {
+    return easeOut(quadIn, amount)
+  }
+
+  /**
+   * Quadratic easing, accelerating until halfway, then decelerating
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function quadInOut(amount: number): number {
+    return easeInOut(quadIn, amount)
+  }
+
+  /**
+   * Cubic easing, accelerating from zero velocity
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function cubicIn(amount: number): number {
+    return amount * amount * amount
+  }
+
+  /**
+   * Cubic easing, decelerating to zero velocity
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function cubicOut(amount: number): number {
+    return easeOut(cubicIn, amount)
+  }
+
+  /**
+   * Cubic easing, accelerating until halfway, then decelerating
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function cubicInOut(amount: number): number {
+    return easeInOut(cubicIn, amount)
+  }
+
+  /**
+   * Quartic easing, accelerating from zero velocity
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function quartIn(amount: number): number {
+    return amount * amount * amount * amount
+  }
+
+  /**
+   * Quartic easing, decelerating to zero velocity
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function quartOut(amount: number): number {
+    return easeOut(quartIn, amount)
+  }
+
+  /**
+   * Quartic easing, accelerating until halfway, then decelerating
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function quartInOut(amount: number): number {
+    return easeInOut(quartIn, amount)
+  }
+
+  /**
+   * Quintic easing, accelerating from zero velocity
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function quintIn(amount: number): number {
+    return amount * amount * amount * amount * amount
+  }
+
+  /**
+   * Quintic easing, decelerating to zero velocity
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function quintOut(amount: number): number {
+    return easeOut(quintIn, amount)
+  }
+
+  /**
+   * Quintic easing, accelerating until halfway, then decelerating
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function quintInOut(amount: number): number {
+    return easeInOut(quintIn, amount)
+  }
+
+  /**
+   * Sinusoidal easing, accelerating from zero velocity
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function sineIn(amount: number): number {
+    return 1 - Math.cos((amount * Math.PI) / 2)
+  }
+
+  /**
+   * Sinusoidal easing, decelerating to zero velocity
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function sineOut(amount: number): number {
+    return Math.sin((amount * Math.PI) / 2)
+  }
+
+  /**
+   * Sinusoidal easing, accelerating until halfway, then decelerating
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function sineInOut(amount: number): number {
+    return easeInOut(sineIn, amount)
+  }
+
+  /**
+   * Exponential easing, accelerating from zero velocity
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function expoIn(amount: number): number {
+    return amount <= 0 ? 0 : Math.pow(2, 10 * amount - 10)
+  }
+
+  /**
+   * Exponential easing, decelerating to zero velocity
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function expoOut(amount: number): number {
+    return easeOut(expoIn, amount)
+  }
+
+  /**
+   * Exponential easing, accelerating until halfway, then decelerating
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function expoInOut(amount: number): number {
+    return easeInOut(expoIn, amount)
+  }
+
+  /**
+   * Circular easing, accelerating from zero velocity
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function circIn(amount: number): number {
+    return 1 - Math.sqrt(Math.max(0, 1 - amount * amount))
+  }
+
+  /**
+   * Circular easing, decelerating to zero velocity
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function circOut(amount: number): number {
+    return easeOut(circIn, amount)
+  }
+
+  /**
+   * Circular easing, accelerating until halfway, then decelerating
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function circInOut(amount: number): number {
+    return easeInOut(circIn, amount)
+  }
+
+  /**
+   * Back easing, going slightly backwards before accelerating
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function backIn(amount: number): number {
+    return (
+      (backOvershoot + 1) * amount * amount * amount -
+      backOvershoot * amount * amount
+    )
+  }
+
+  /**
+   * Back easing, overshooting the end before settling
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function backOut(amount: number): number {
+    return easeOut(backIn, amount)
+  }
+
+  /**
+   * Back easing, going backwards at the start and overshooting the end
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function backInOut(amount: number): number {
+    // the overshoot is larger so each half looks like the in and out variants
+    const overshoot = backOvershoot * 1.525
+    if (amount < 0.5) {
+      const value = 2 * amount
+      return (value * value * ((overshoot + 1) * value - overshoot)) / 2
+    }
+    const value = 2 * amount - 2
+    return (value * value * ((overshoot + 1) * value + overshoot) + 2) / 2
+  }
+
+  /**
+   * Elastic easing, oscillating with a growing amplitude at the start
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function elasticIn(amount: number): number {
+    if (amount <= 0 || amount >= 1) {
+      return amount <= 0 ? 0 : 1
+    }
+    return (
+      -Math.pow(2, 10 * amount - 10) *
+      Math.sin(((10 * amount - 10.75) * 2 * Math.PI) / 3)
+    )
+  }
+
+  /**
+   * Elastic easing, oscillating with a decreasing amplitude at the end
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function elasticOut(amount: number): number {
+    return easeOut(elasticIn, amount)
+  }
+
+  /**
+   * Elastic easing, oscillating at the start and at the end
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function elasticInOut(amount: number): number {
+    if (amount <= 0 || amount >= 1) {
+      return amount <= 0 ? 0 : 1
+    }
+    const oscillation = Math.sin(((20 * amount - 11.125) * 2 * Math.PI) / 4.5)
+    if (amount < 0.5) {
+      return -(Math.pow(2, 20 * amount - 10) * oscillation) / 2
+    }
+    return (Math.pow(2, -20 * amount + 10) * oscillation) / 2 + 1
+  }
+
+  /**
+   * Bounce easing, bouncing with a growing height at the start
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function bounceIn(amount: number): number {
+    return easeOut(bounceOut, amount)
+  }
+
+  /**
+   * Bounce easing, bouncing with a decreasing height at the end, like a falling ball
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function bounceOut(amount: number): number {
+    const strength = 7.5625
+    const width = 2.75
+    if (amount < 1 / width) {
+      return strength * amount * amount
+    }
+    if (amount < 2 / width) {
+      const value = amount - 1.5 / width
+      return strength * value * value + 0.75
+    }
+    if (amount < 2.5 / width) {
+      const value = amount - 2.25 / width
+      return strength * value * value + 0.9375
+    }
+    const value = amount - 2.625 / width
+    return strength * value * value + 0.984375
+  }
+
+  /**
+   * Bounce easing, bouncing at the start and at the end
+   * @param amount - defines the progress, between 0 and 1
+   * @returns the eased progress
+   */
+  export function bounceInOut(amount: number): number {
+    return easeInOut(bounceIn, amount)
+  }
+
+  /**
+   * Returns an easing function following a cubic Bezier curve from (0, 0) to (1, 1),
+   * with the same control points as the CSS `cubic-bezier()` function
+   * @param x1 - defines the progress of the first control point, clamped between 0 and 1
+   * @param y1 - defines the eased progress of the first control point
+   * @param x2 - defines the progress of the second control point, clamped between 0 and 1
+   * @param y2 - defines the eased progress of the second control point
+   * @returns the new easing function
+   */
+  export function cubicBezier(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number
+  ): EasingFunction {
+    // polynomial coefficients of each coordinate, the curve is ((a * t + b) * t + c) * t
+    const cx = 3 * Scalar.clamp(x1, 0, 1)
+    const bx = 3 * Scalar.clamp(x2, 0, 1) - 2 * cx
+    const ax = 1 - cx - bx
+    const cy = 3 * y1
+    const by = 3 * y2 - 2 * cy
+    const ay = 1 - cy - by
+
+    return (amount: number) => {
+      if (amount <= 0 || amount >= 1) {
+        return amount <= 0 ? 0 : 1
+      }
+
+      // find the curve parameter of the progress with Newton's method, then with a bisection if it does not converge
+      let t = amount
+      for (let iteration = 0; iteration < 8; iteration++) {
+        const error = ((ax * t + bx) * t + cx) * t - amount
+        if (Math.abs(error) < 1e-7) {
+          return ((ay * t + by) * t + cy) * t
+        }
+        const derivative = (3 * ax * t + 2 * bx) * t + cx
+        if (Math.abs(derivative) < 1e-6) {
+          break
+        }
+        t -= error / derivative
+      }
+
+      let low = 0
+      let high = 1
+      t = amount
+      for (let iteration = 0; iteration < 30; iteration++) {
+        const x = ((ax * t + bx) * t + cx) * t
+        if (Math.abs(x - amount) < 1e-7) {
+          break
+        }
+        if (x < amount) {
+          low = t
+        } else {
+          high = t
+        }
+        t = (low + high) / 2
+      }
+      return ((ay * t + by) * t + cy) * t
+    }
+  }
+
+  /**
+   * Returns an easing function that jumps between a number of equal steps, like the CSS `steps()` function
+   * @param count - defines the number of steps, at least 1 (2 for 'jump-none')
+   * @param position - defines when the jumps happen, 'end' by default
+   * @returns the new easing function
+   */
+  export function steps(
+    count: number,
+    position: StepPosition = 'end'
+  ): EasingFunction {
+    const stepCount = Math.max(1, Math.floor(count))
+    const jumpAtStart =
+      position === 'jump-start' ||
+      position === 'start' ||
+      position === 'jump-both'
+    let jumps = stepCount
+    if (position === 'jump-both') {
+      jumps += 1
+    } else if (position === 'jump-none') {
+      jumps = Math.max(1, stepCount - 1)
+    }
+
+    return (amount: number) => {
+      const progress = Scalar.clamp(amount, 0, 1)
+      let step = Math.floor(progress * stepCount)
+      if (jumpAtStart) {
+        step += 1
+      }
+      return Math.min(step, jumps) / jumps
+    }
+  }
+
+  /**
+   * Interpolates between two values of any type with an easing
+   * @param start - defines the start value
+   * @param end - defines the end value
+   * @param amount - defines the progress, clamped between 0 and 1
+   * @param easing - defines the easing function
+   * @param interpolate - defines the function interpolating linearly between the two values
+   * @returns the interpolated value
+   */
+  export function tween<T>(
+    start: T,
+    end: T,
+    amount: number,
+    easing: EasingFunction,
+    interpolate: (start: T, end: T, amount: number) => T
+  ): T {
+    return interpolate(start, end, easing(Scalar.clamp(amount, 0, 1)))
+  }
+
+  /**
+   * Returns a new Vector3 between the start and the end ones with an easing
+   * @param start - defines the start value
+   * @param end - defines the end value
+   * @param amount - defines the progress, clamped between 0 and 1
+   * @param easing - defines the easing function, linear by default
+   * @returns the new Vector3
+   */
+  export function tweenVector3(
+    start: Vector3.ReadonlyVector3,
+    end: Vector3.ReadonlyVector3,
+    amount: number,
+    easing: EasingFunction = linear
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    tweenVector3ToRef(start, end, amount, easing, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" between the start and the end ones with an easing
+   * @param start - defines the start value
+   * @param end - defines the end value
+   * @param amount - defines the progress, clamped between 0 and 1
+   * @param easing - defines the easing function
+   * @param result - defines the target vector
+   */
+  export function tweenVector3ToRef(
+    start: Vector3.ReadonlyVector3,
+    end: Vector3.ReadonlyVector3,
+    amount: number,
+    easing: EasingFunction,
+    result: Vector3.MutableVector3
+  ): void {
+    Vector3.lerpToRef(start, end, easing(Scalar.clamp(amount, 0, 1)), result)
+  }
+
+  /**
+   * Returns a new quaternion between the start and the end rotations with an easing, using a spherical interpolation
+   * @param start - defines the start value
+   * @param end - defines the end value
+   * @param amount - defines the progress, clamped between 0 and 1
+   * @param easing - defines the easing function, linear by default
+   * @returns the new quaternion
+   */
+  export function tweenQuaternion(
+    start: Quaternion.ReadonlyQuaternion,
+    end: Quaternion.ReadonlyQuaternion,
+    amount: number,
+    easing: EasingFunction = linear
+  ): Quaternion.MutableQuaternion {
+    const result = Quaternion.Identity()
+    tweenQuaternionToRef(start, end, amount, easing, result)
+    return result
+  }
+
+  /**
+   * Sets the given quaternion "result" between the start and the end rotations with an easing
+   * @param start - defines the start value
+   * @param end - defines the end value
+   * @param amount - defines the progress, clamped between 0 and 1
+   * @param easing - defines the easing function
+   * @param result - defines the target quaternion
+   */
+  export function tweenQuaternionToRef(
+    start: Quaternion.ReadonlyQuaternion,
+    end: Quaternion.ReadonlyQuaternion,
+    amount: number,
+    easing: EasingFunction,
+    result: Quaternion.MutableQuaternion
+  ): void {
+    Quaternion.slerpToRef(
+      start,
+      end,
+      easing(Scalar.clamp(amount, 0, 1)),
+      result
+    )
+  }
+
+  /**
+   * Returns a new Color4 between the start and the end colors with an easing
+   * @param start - defines the start value
+   * @param end - defines the end value
+   * @param amount - defines the progress, clamped between 0 and 1
+   * @param easing - defines the easing function, linear by default
+   * @returns the new Color4
+   */
+  export function tweenColor4(
+    start: Color4.ReadonlyColor4,
+    end: Color4.ReadonlyColor4,
+    amount: number,
+    easing: EasingFunction = linear
+  ): Color4.MutableColor4 {
+    const result = Color4.create()
+    tweenColor4ToRef(start, end, amount, easing, result)
+    return result
+  }
+
+  /**
+   * Sets the given color "result" between the start and the end colors with an easing
+   * @param start - defines the start value
+   * @param end - defines the end value
+   * @param amount - defines the progress, clamped between 0 and 1
+   * @param easing - defines the easing function
+   * @param result - defines the target color
+   */
+  export function tweenColor4ToRef(
+    start: Color4.ReadonlyColor4,
+    end: Color4.ReadonlyColor4,
+    amount: number,
+    easing: EasingFunction,
+    result: Color4.MutableColor4
+  ): void {
+    Color4.lerpToRef(start, end, easing(Scalar.clamp(amount, 0, 1)), result)
+  }
+
+  /**
+   * Mirrors an "in" easing to get the "out" one
+   * @internal
+   */
+  function easeOut(easeIn: EasingFunction, amount: number): number {
+    return 1 - easeIn(1 - amount)
+  }
+
+  /**
+   * Uses an "in" easing for the first half and its mirror for the second one
+   * @internal
+   */
+  function easeInOut(easeIn: EasingFunction, amount: number): number {
+    return amount < 0.5
+      ? easeIn(2 * amount) / 2
+      : 1 - easeIn(2 - 2 * amount) / 2
+  }
+}
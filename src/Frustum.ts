@@ -0,0 +1,344 @@
+import { Vector3 } from './Vector3'
+import { Matrix } from './Matrix'
+import { Plane } from './Plane'
+import { AABB } from './AABB'
+import { BoundingSphere } from './BoundingSphere'
+import { Epsilon } from './types'
+
+/**
+ * @public
+ * Frustum is a type and a namespace.
+ * - The namespace contains all types and functions to operates with Frustum
+ * - The type Frustum is an alias to Frustum.ReadonlyFrustum
+ * ```
+ *
+ * // Namespace usage example
+ * const viewProjection = Matrix.multiply(view, projection)
+ * const frustum = Frustum.fromMatrix(viewProjection)
+ * const visible = Frustum.containsSphere(frustum, bounds) !== Frustum.Containment.Outside
+ *
+ * // Type usage example
+ * const readonlyFrustum: Frustum = Frustum.create()
+ * readonlyFrustum.near = Plane.create(0, 0, 1, 0) // this FAILS
+ *
+ * // For mutable usage, use `Frustum.Mutable`
+ * const frustum: Frustum.Mutable = Frustum.create()
+ * frustum.near = Plane.create(0, 0, 1, 0) // this WORKS
+ * ```
+ */
+export type Frustum = Frustum.ReadonlyFrustum
+
+/**
+ * @public
+ * Frustum is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with Frustum
+ * const frustum = Frustum.fromMatrix(viewProjection)
+ * // The type Frustum is an alias to Frustum.ReadonlyFrustum
+ * const readonlyFrustum: Frustum = Frustum.create()
+ * readonlyFrustum.near = Plane.create(0, 0, 1, 0) // this FAILS
+ *
+ * // For mutable usage, use `Frustum.Mutable`
+ * const frustum: Frustum.Mutable = Frustum.create()
+ * frustum.near = Plane.create(0, 0, 1, 0) // this WORKS
+ * ```
+ */
+export namespace Frustum {
+  /**
+   * @public
+   * For external use, type with `Frustum`, e.g. `const frustum: Frustum = Frustum.create()`.
+   * For mutable typing, use `Frustum.Mutable`, e.g. `const frustum: Frustum.Mutable = Frustum.create()`.
+   *
+   * All the planes are normalized and their normals point to the inside of the frustum
+   */
+  export type ReadonlyFrustum = {
+    readonly near: Plane.ReadonlyPlane
+    readonly far: Plane.ReadonlyPlane
+    readonly left: Plane.ReadonlyPlane
+    readonly right: Plane.ReadonlyPlane
+    readonly top: Plane.ReadonlyPlane
+    readonly bottom: Plane.ReadonlyPlane
+  }
+
+  /**
+   * @public
+   * For external usage, type with `Frustum`, e.g. `const frustum: Frustum = Frustum.create()`.
+   * For mutable typing, use `Frustum.Mutable`, e.g. `const frustum: Frustum.Mutable = Frustum.create()`.
+   */
+  export type MutableFrustum = {
+    near: Plane.MutablePlane
+    far: Plane.MutablePlane
+    left: Plane.MutablePlane
+    right: Plane.MutablePlane
+    top: Plane.MutablePlane
+    bottom: Plane.MutablePlane
+  }
+
+  /**
+   * @public
+   * Type with `Frustum` for readonly usage, e.g. `const frustum: Frustum = Frustum.create()`.
+   * For mutable, use `Frustum.Mutable`, e.g. `const frustum: Frustum.Mutable = Frustum.create()`.
+   */
+  export type Mutable = MutableFrustum
+
+  /**
+   * @public
+   * Result of the containment tests
+   */
+  export enum Containment {
+    /** the tested volume is completely outside the frustum */
+    Outside = 0,
+    /** the tested volume is completely inside the frustum */
+    Inside = 1,
+    /** the tested volume crosses at least one plane of the frustum */
+    Intersecting = 2
+  }
+
+  /**
+   * Creates a new Frustum with all its planes set to zero. Use `fromMatrixToRef` to fill it
+   * @returns the new Frustum
+   */
+  export function create(): MutableFrustum {
+    return {
+      near: Plane.create(0, 0, 0, 0),
+      far: Plane.create(0, 0, 0, 0),
+      left: Plane.create(0, 0, 0, 0),
+      right: Plane.create(0, 0, 0, 0),
+      top: Plane.create(0, 0, 0, 0),
+      bottom: Plane.create(0, 0, 0, 0)
+    }
+  }
+
+  /**
+   * Creates a new Frustum from a view-projection matrix (view multiplied by projection).
+   * It works with both left-handed and right-handed matrices (e.g. `perspectiveFovLH` or `PerspectiveFovRH`),
+   * the clip space is expected to be in the [-1, 1] range for x, y and z
+   * @param viewProjection - defines the view-projection matrix
+   * @returns the new Frustum
+   */
+  export function fromMatrix(
+    viewProjection: Matrix.ReadonlyMatrix
+  ): MutableFrustum {
+    const result = create()
+    fromMatrixToRef(viewProjection, result)
+    return result
+  }
+
+  /**
+   * Sets the planes of the given Frustum from a view-projection matrix
+   * @param viewProjection - defines the view-projection matrix
+   * @param result - defines the Frustum where to store the result
+   */
+  export function fromMatrixToRef(
+    viewProjection: Matrix.ReadonlyMatrix,
+    result: MutableFrustum
+  ): void {
+    const m = viewProjection._m
+
+    // a point is inside when -w <= x, y, z <= w in clip space
+    setPlaneToRef(
+      m[3] + m[2],
+      m[7] + m[6],
+      m[11] + m[10],
+      m[15] + m[14],
+      result.near
+    )
+    setPlaneToRef(
+      m[3] - m[2],
+      m[7] - m[6],
+      m[11] - m[10],
+      m[15] - m[14],
+      result.far
+    )
+    setPlaneToRef(
+      m[3] + m[0],
+      m[7] + m[4],
+      m[11] + m[8],
+      m[15] + m[12],
+      result.left
+    )
+    setPlaneToRef(
+      m[3] - m[0],
+      m[7] - m[4],
+      m[11] - m[8],
+      m[15] - m[12],
+      result.right
+    )
+    setPlaneToRef(
+      m[3] - m[1],
+      m[7] - m[5],
+      m[11] - m[9],
+      m[15] - m[13],
+      result.top
+    )
+    setPlaneToRef(
+      m[3] + m[1],
+      m[7] + m[5],
+      m[11] + m[9],
+      m[15] + m[13],
+      result.bottom
+    )
+  }
+
+  /**
+   * Returns the six planes of the frustum as an array
+   * @param frustum - defines the frustum
+   * @returns the planes in order near, far, left, right, top, bottom
+   */
+  export function getPlanes(frustum: ReadonlyFrustum): Plane.ReadonlyPlane[] {
+    return [
+      frustum.near,
+      frustum.far,
+      frustum.left,
+      frustum.right,
+      frustum.top,
+      frustum.bottom
+    ]
+  }
+
+  /**
+   * Tests a point against the frustum
+   * @param frustum - defines the frustum
+   * @param point - defines the point to test
+   * @param epsilon - defines the distance to a plane under which the point is considered on the plane
+   * @returns Inside, Outside, or Intersecting if the point lies on the boundary of the frustum
+   */
+  export function containsPoint(
+    frustum: ReadonlyFrustum,
+    point: Vector3.ReadonlyVector3,
+    epsilon: number = Epsilon
+  ): Containment {
+    let result = Containment.Inside
+    for (const plane of getPlanes(frustum)) {
+      const distance = Plane.signedDistanceTo(plane, point)
+      if (distance < -epsilon) {
+        return Containment.Outside
+      } else if (distance <= epsilon) {
+        result = Containment.Intersecting
+      }
+    }
+    return result
+  }
+
+  /**
+   * Tests a sphere against the frustum
+   * @param frustum - defines the frustum
+   * @param sphere - defines the sphere to test
+   * @returns Inside, Outside or Intersecting
+   */
+  export function containsSphere(
+    frustum: ReadonlyFrustum,
+    sphere: BoundingSphere.ReadonlyBoundingSphere
+  ): Containment {
+    let result = Containment.Inside
+    for (const plane of getPlanes(frustum)) {
+      const distance = Plane.signedDistanceTo(plane, sphere.center)
+      if (distance < -sphere.radius) {
+        return Containment.Outside
+      } else if (distance < sphere.radius) {
+        result = Containment.Intersecting
+      }
+    }
+    return result
+  }
+
+  /**
+   * Tests an AABB against the frustum.
+   * The test is conservative: a big box near a corner of the frustum may be reported as Intersecting while being outside
+   * @param frustum - defines the frustum
+   * @param aabb - defines the box to test
+   * @returns Inside, Outside or Intersecting
+   */
+  export function containsAABB(
+    frustum: ReadonlyFrustum,
+    aabb: AABB.ReadonlyAABB
+  ): Containment {
+    let result = Containment.Inside
+    const positive = Vector3.Zero()
+    const negative = Vector3.Zero()
+    for (const plane of getPlanes(frustum)) {
+      // the corners of the box that are the farthest along and against the plane normal
+      const normal = plane.normal
+      positive.x = normal.x >= 0 ? aabb.max.x : aabb.min.x
+      positive.y = normal.y >= 0 ? aabb.max.y : aabb.min.y
+      positive.z = normal.z >= 0 ? aabb.max.z : aabb.min.z
+      negative.x = normal.x >= 0 ? aabb.min.x : aabb.max.x
+      negative.y = normal.y >= 0 ? aabb.min.y : aabb.max.y
+      negative.z = normal.z >= 0 ? aabb.min.z : aabb.max.z
+
+      if (Plane.signedDistanceTo(plane, positive) < 0) {
+        return Containment.Outside
+      } else if (Plane.signedDistanceTo(plane, negative) < 0) {
+        result = Containment.Intersecting
+      }
+    }
+    return result
+  }
+
+  /**
+   * Returns the 8 corners of the frustum
+   * @param frustum - defines the frustum
+   * @returns the corners. The bits 0, 1 and 2 of the index select the right, top and far planes respectively (e.g. 0 is near-bottom-left, 7 is far-top-right)
+   */
+  export function getCorners(
+    frustum: ReadonlyFrustum
+  ): Vector3.MutableVector3[] {
+    const result: Vector3.MutableVector3[] = []
+    for (let i = 0; i < 8; i++) {
+      result.push(Vector3.Zero())
+    }
+    getCornersToRef(frustum, result)
+    return result
+  }
+
+  /**
+   * Sets the 8 corners of the frustum into the given array of vectors
+   * @param frustum - defines the frustum
+   * @param result - defines the 8 vectors where to store the corners, in the same order than `getCorners`
+   */
+  export function getCornersToRef(
+    frustum: ReadonlyFrustum,
+    result: Vector3.MutableVector3[]
+  ): void {
+    for (let i = 0; i < 8; i++) {
+      intersectPlanesToRef(
+        i & 1 ? frustum.right : frustum.left,
+        i & 2 ? frustum.top : frustum.bottom,
+        i & 4 ? frustum.far : frustum.near,
+        result[i]
+      )
+    }
+  }
+
+  /** @internal */
+  function setPlaneToRef(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    result: Plane.MutablePlane
+  ): void {
+    Vector3.copyFromFloats(a, b, c, result.normal)
+    result.d = d
+    Plane.normalizeToRef(result, result)
+  }
+
+  /** @internal */
+  function intersectPlanesToRef(
+    p1: Plane.ReadonlyPlane,
+    p2: Plane.ReadonlyPlane,
+    p3: Plane.ReadonlyPlane,
+    result: Vector3.MutableVector3
+  ): void {
+    // x = -(d1 (n2 x n3) + d2 (n3 x n1) + d3 (n1 x n2)) / (n1 . (n2 x n3))
+    const n2n3 = Vector3.cross(p2.normal, p3.normal)
+    const n3n1 = Vector3.cross(p3.normal, p1.normal)
+    const n1n2 = Vector3.cross(p1.normal, p2.normal)
+    const denominator = Vector3.dot(p1.normal, n2n3)
+    const factor = denominator !== 0 ? -1 / denominator : 0
+
+    result.x = (p1.d * n2n3.x + p2.d * n3n1.x + p3.d * n1n2.x) * factor
+    result.y = (p1.d * n2n3.y + p2.d * n3n1.y + p3.d * n1n2.y) * factor
+    result.z = (p1.d * n2n3.z + p2.d * n3n1.z + p3.d * n1n2.z) * factor
+  }
+}
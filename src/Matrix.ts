@@ -1,7 +1,8 @@
-import { FloatArray } from './types'
+import { Epsilon, EulerOptions, EulerOrder, FloatArray } from './types'
 import { Vector3 } from './Vector3'
 import { Quaternion } from './Quaternion'
 import { Plane } from './Plane'
+import { Vector4 } from './Vector4'
 /**
  * Class used to store matrix data (4x4)
  * @public
@@ -59,6 +60,13 @@ export namespace Matrix {
     readonly _m: Matrix4x4
   }
 
+  /**
+   * Method used by `Matrix.orthonormalize`:
+   * - 'gramSchmidt' keeps the direction of the X axis, then the plane of the X and Y axes, and it is the fastest
+   * - 'polar' returns the closest rotation to the matrix, the error is spread over the three axes
+   */
+  export type OrthonormalizeMethod = 'gramSchmidt' | 'polar'
+
   /**
    * Gets the internal data of the matrix
    */
@@ -67,7 +75,7 @@ export namespace Matrix {
   }
 
   let _updateFlagSeed = 0
-  const _identityReadonly = {} as MutableMatrix
+  const _identityReadonly = Identity()
 
   /**
    * Gets an identity matrix that must not be updated
@@ -599,6 +607,77 @@ export namespace Matrix {
     fromQuaternionToRef(quaternionResult, result)
   }
 
+  /**
+   * Creates a rotation matrix from the given Euler angles applied in the given order (see `Quaternion.fromEuler`)
+   * @param angles - defines the Euler angles
+   * @param order - defines the rotation order, 'YXZ' by default
+   * @param options - defines the unit of the angles, degrees by default
+   * @returns the new rotation matrix
+   */
+  export function rotationEuler(
+    angles: Vector3.ReadonlyVector3,
+    order: EulerOrder = 'YXZ',
+    options: EulerOptions = {}
+  ): MutableMatrix {
+    const result = create()
+    rotationEulerToRef(angles, order, options, result)
+    return result
+  }
+
+  /**
+   * Creates a rotation matrix from the given Euler angles applied in the given order and stores it in a given matrix
+   * @param angles - defines the Euler angles
+   * @param order - defines the rotation order
+   * @param options - defines the unit of the angles
+   * @param result - defines the target matrix
+   */
+  export function rotationEulerToRef(
+    angles: Vector3.ReadonlyVector3,
+    order: EulerOrder,
+    options: EulerOptions,
+    result: MutableMatrix
+  ): void {
+    const quaternionResult = Quaternion.Zero()
+    Quaternion.fromEulerToRef(angles, order, options, quaternionResult)
+    fromQuaternionToRef(quaternionResult, result)
+  }
+
+  /**
+   * Returns the Euler angles in the given order of the rotation of the matrix (see `Quaternion.toEuler`).
+   * The scaling of the matrix is ignored
+   * @param self - defines the source matrix
+   * @param order - defines the rotation order, 'YXZ' by default
+   * @param options - defines the unit of the angles (degrees by default) and whether they are signed
+   * @returns a new Vector3 with the Euler angles
+   */
+  export function toEuler(
+    self: ReadonlyMatrix,
+    order: EulerOrder = 'YXZ',
+    options: EulerOptions = {}
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    toEulerToRef(self, order, options, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the Euler angles in the given order of the rotation of the matrix
+   * @param self - defines the source matrix
+   * @param order - defines the rotation order
+   * @param options - defines the unit of the angles and whether they are signed
+   * @param result - defines the target vector
+   */
+  export function toEulerToRef(
+    self: ReadonlyMatrix,
+    order: EulerOrder,
+    options: EulerOptions,
+    result: Vector3.MutableVector3
+  ): void {
+    const rotation = Quaternion.Identity()
+    decompose(self, undefined, rotation)
+    Quaternion.toEulerToRef(rotation, order, options, result)
+  }
+
   /**
    * Creates a scaling matrix
    * @param x - defines the scale factor on X axis
@@ -1527,6 +1606,36 @@ export namespace Matrix {
     )
   }
 
+  /**
+   * Creates a new matrix as a rotation matrix composed from the 3 left handed axes
+   * @param xaxis - defines the value of the 1st axis
+   * @param yaxis - defines the value of the 2nd axis
+   * @param zaxis - defines the value of the 3rd axis
+   * @returns the new matrix
+   */
+  export function fromXYZAxes(
+    xaxis: Vector3.ReadonlyVector3,
+    yaxis: Vector3.ReadonlyVector3,
+    zaxis: Vector3.ReadonlyVector3
+  ): MutableMatrix {
+    const result = create()
+    fromXYZAxesToRef(xaxis, yaxis, zaxis, result)
+    return result
+  }
+
+  /**
+   * Creates a new rotation matrix from a quaternion
+   * @param quat - defines the quaternion to use
+   * @returns the new matrix
+   */
+  export function fromQuaternion(
+    quat: Quaternion.ReadonlyQuaternion
+  ): MutableMatrix {
+    const result = create()
+    fromQuaternionToRef(quat, result)
+    return result
+  }
+
   /**
    * Creates a rotation matrix from a quaternion and stores it in a target matrix
    * @param quat - defines the quaternion to use
@@ -1971,7 +2080,7 @@ export namespace Matrix {
    * Gets the translation value of the current matrix
    * @returns a new Vector3 as the extracted translation from the matrix
    */
-  export function getTranslation(self: MutableMatrix): Vector3.MutableVector3 {
+  export function getTranslation(self: ReadonlyMatrix): Vector3.MutableVector3 {
     return Vector3.create(self._m[12], self._m[13], self._m[14])
   }
 
@@ -1981,7 +2090,7 @@ export namespace Matrix {
    * @returns the current matrix
    */
   export function getTranslationToRef(
-    self: MutableMatrix,
+    self: ReadonlyMatrix,
     result: Vector3.MutableVector3
   ) {
     result.x = self._m[12]
@@ -2027,7 +2136,7 @@ export namespace Matrix {
    * @returns a new matrix set with the multiplication result of the current Matrix and the given one
    */
   export function multiply(
-    self: MutableMatrix,
+    self: ReadonlyMatrix,
     other: ReadonlyMatrix
   ): MutableMatrix {
     const result = create()
@@ -2320,30 +2429,132 @@ export namespace Matrix {
    * @param index - defines the number of the row to get
    * @returns the index-th row of the current matrix as a new Vector4
    */
-  // TODO
-  // export function getRow(index: number): Nullable<Vector4> {
-  //   if (index < 0 || index > 3) {
-  //     return null
-  //   }
-  //   const i = index * 4
-  //   return new Vector4(
-  //     self._m[i + 0],
-  //     self._m[i + 1],
-  //     self._m[i + 2],
-  //     self._m[i + 3]
-  //   )
-  // }
+  export function getRow(
+    self: ReadonlyMatrix,
+    index: number
+  ): Vector4.MutableVector4 | null {
+    if (index < 0 || index > 3) {
+      return null
+    }
+    const i = index * 4
+    return Vector4.create(
+      self._m[i + 0],
+      self._m[i + 1],
+      self._m[i + 2],
+      self._m[i + 3]
+    )
+  }
+
+  /**
+   * Gets specific column of the matrix
+   * @param index - defines the number of the column to get
+   * @returns the index-th column of the current matrix as a new Vector4
+   */
+  export function getColumn(
+    self: ReadonlyMatrix,
+    index: number
+  ): Vector4.MutableVector4 | null {
+    if (index < 0 || index > 3) {
+      return null
+    }
+    return Vector4.create(
+      self._m[index],
+      self._m[index + 4],
+      self._m[index + 8],
+      self._m[index + 12]
+    )
+  }
+
+  /**
+   * Sets the given vector "result" with the index-th row of the matrix
+   * @param index - defines the number of the row to get
+   * @param result - defines the Vector4 where to store the row (unchanged if the index is out of range)
+   */
+  export function getRowToRef(
+    self: ReadonlyMatrix,
+    index: number,
+    result: Vector4.MutableVector4
+  ): void {
+    if (index < 0 || index > 3) {
+      return
+    }
+    Vector4.fromArrayToRef(self._m, index * 4, result)
+  }
+
+  /**
+   * Sets the given vector "result" with the index-th column of the matrix
+   * @param index - defines the number of the column to get
+   * @param result - defines the Vector4 where to store the column (unchanged if the index is out of range)
+   */
+  export function getColumnToRef(
+    self: ReadonlyMatrix,
+    index: number,
+    result: Vector4.MutableVector4
+  ): void {
+    if (index < 0 || index > 3) {
+      return
+    }
+    Vector4.copyFromFloats(
+      self._m[index],
+      self._m[index + 4],
+      self._m[index + 8],
+      self._m[index + 12],
+      result
+    )
+  }
 
   /**
    * Sets the index-th row of the current matrix to the vector4 values
    * @param index - defines the number of the row to set
    * @param row - defines the target vector4
-   * @returns the updated current matrix
    */
-  // TODO
-  // export function setRow(index: number, row: Vector4): MutableMatrix {
-  //   return setRowFromFloats(index, row.x, row.y, row.z, row.w)
-  // }
+  export function setRow(
+    self: MutableMatrix,
+    index: number,
+    row: Vector4.ReadonlyVector4
+  ): void {
+    setRowFromFloats(self, index, row.x, row.y, row.z, row.w)
+  }
+
+  /**
+   * Sets the index-th column of the current matrix to the vector4 values
+   * @param index - defines the number of the column to set
+   * @param column - defines the target vector4
+   */
+  export function setColumn(
+    self: MutableMatrix,
+    index: number,
+    column: Vector4.ReadonlyVector4
+  ): void {
+    setColumnFromFloats(self, index, column.x, column.y, column.z, column.w)
+  }
+
+  /**
+   * Sets the index-th column of the current matrix with the given 4 x float values
+   * @param index - defines the column index
+   * @param x - defines the value of the first row
+   * @param y - defines the value of the second row
+   * @param z - defines the value of the third row
+   * @param w - defines the value of the fourth row
+   */
+  export function setColumnFromFloats(
+    self: MutableMatrix,
+    index: number,
+    x: number,
+    y: number,
+    z: number,
+    w: number
+  ): void {
+    if (index < 0 || index > 3) {
+      return
+    }
+    self._m[index] = x
+    self._m[index + 4] = y
+    self._m[index + 8] = z
+    self._m[index + 12] = w
+
+    _markAsUpdated(self)
+  }
 
   /**
    * Sets the index-th row of the current matrix with the given 4 x float values
@@ -2503,6 +2714,139 @@ export namespace Matrix {
     )
   }
 
+  /**
+   * Returns a new matrix with the axes of the given affine matrix made orthogonal and normalized, keeping its translation.
+   * Use it to remove the drift accumulated by a rotation matrix after many multiplications, the scaling is removed too
+   * @param self - defines the source matrix
+   * @param method - defines the method to use, 'gramSchmidt' by default
+   * @returns the new matrix
+   */
+  export function orthonormalize(
+    self: ReadonlyMatrix,
+    method: OrthonormalizeMethod = 'gramSchmidt'
+  ): MutableMatrix {
+    const result = create()
+    orthonormalizeToRef(self, method, result)
+    return result
+  }
+
+  /**
+   * Sets the given matrix "result" with the axes of the given affine matrix made orthogonal and normalized, keeping its translation
+   * @param self - defines the source matrix
+   * @param method - defines the method to use
+   * @param result - defines the target matrix
+   */
+  export function orthonormalizeToRef(
+    self: ReadonlyMatrix,
+    method: OrthonormalizeMethod,
+    result: MutableMatrix
+  ): void {
+    const m = self._m
+    const xAxis = Vector3.create(m[0], m[1], m[2])
+    const yAxis = Vector3.create(m[4], m[5], m[6])
+    const zAxis = Vector3.create(m[8], m[9], m[10])
+
+    // Gram-Schmidt is also the fallback when the polar decomposition fails
+    if (method !== 'polar' || !polarDecomposition(xAxis, yAxis, zAxis)) {
+      gramSchmidt(xAxis, yAxis, zAxis)
+    }
+
+    fromValuesToRef(
+      xAxis.x,
+      xAxis.y,
+      xAxis.z,
+      0.0,
+      yAxis.x,
+      yAxis.y,
+      yAxis.z,
+      0.0,
+      zAxis.x,
+      zAxis.y,
+      zAxis.z,
+      0.0,
+      m[12],
+      m[13],
+      m[14],
+      1.0,
+      result
+    )
+  }
+
+  /**
+   * Makes the three axes orthonormal, keeping the direction of the X axis and then the plane of the X and Y axes
+   * @internal
+   */
+  function gramSchmidt(
+    xAxis: Vector3.MutableVector3,
+    yAxis: Vector3.MutableVector3,
+    zAxis: Vector3.MutableVector3
+  ): void {
+    Vector3.normalizeToRef(xAxis, xAxis)
+    Vector3.subtractToRef(
+      yAxis,
+      Vector3.scale(xAxis, Vector3.dot(yAxis, xAxis)),
+      yAxis
+    )
+    Vector3.normalizeToRef(yAxis, yAxis)
+    Vector3.subtractToRef(
+      zAxis,
+      Vector3.scale(xAxis, Vector3.dot(zAxis, xAxis)),
+      zAxis
+    )
+    Vector3.subtractToRef(
+      zAxis,
+      Vector3.scale(yAxis, Vector3.dot(zAxis, yAxis)),
+      zAxis
+    )
+    Vector3.normalizeToRef(zAxis, zAxis)
+  }
+
+  /**
+   * Replaces the three axes by the orthogonal factor of their polar decomposition,
+   * iterating R = (R + R^-T) / 2. Returns false if the axes are degenerated
+   * @internal
+   */
+  function polarDecomposition(
+    xAxis: Vector3.MutableVector3,
+    yAxis: Vector3.MutableVector3,
+    zAxis: Vector3.MutableVector3
+  ): boolean {
+    // the rows of the inverse transpose of a matrix are the cross products of its rows divided by the determinant
+    const xInverse = Vector3.create()
+    const yInverse = Vector3.create()
+    const zInverse = Vector3.create()
+    const pairs = [
+      [xAxis, xInverse],
+      [yAxis, yInverse],
+      [zAxis, zInverse]
+    ]
+    for (let iteration = 0; iteration < 20; iteration++) {
+      Vector3.crossToRef(yAxis, zAxis, xInverse)
+      Vector3.crossToRef(zAxis, xAxis, yInverse)
+      Vector3.crossToRef(xAxis, yAxis, zInverse)
+      const det = Vector3.dot(xAxis, xInverse)
+      if (Math.abs(det) < Epsilon * Epsilon) {
+        return false
+      }
+
+      const halfInverseDet = 0.5 / det
+      let change = 0
+      for (const [axis, inverse] of pairs) {
+        const x = axis.x * 0.5 + inverse.x * halfInverseDet
+        const y = axis.y * 0.5 + inverse.y * halfInverseDet
+        const z = axis.z * 0.5 + inverse.z * halfInverseDet
+        change +=
+          Math.abs(x - axis.x) + Math.abs(y - axis.y) + Math.abs(z - axis.z)
+        Vector3.copyFromFloats(x, y, z, axis)
+      }
+
+      if (change < Epsilon) {
+        break
+      }
+    }
+    return true
+  }
+
   /**
    * Toggles model matrix from being right handed to left handed in place and vice versa
    */
@@ -0,0 +1,534 @@
+import { Epsilon } from './types'
+import { Vector3 } from './Vector3'
+import { Quaternion } from './Quaternion'
+import { Matrix } from './Matrix'
+import { Scalar } from './Scalar'
+
+/**
+ * @public
+ * Matrix3 is a type and a namespace.
+ * - The namespace contains all types and functions to operates with 3x3 matrices
+ * - The type Matrix3 is an alias to Matrix3.ReadonlyMatrix3
+ *
+ * It follows the same conventions as `Matrix`: the values are stored row by row
+ * and vectors are multiplied as rows, so `multiply(a, b)` applies `a` first and then `b`.
+ * ```
+ *
+ * // Namespace usage example
+ * const normalMatrix = Matrix3.normalMatrix(worldMatrix)
+ * const worldNormal = Matrix3.transformVector(normal, normalMatrix)
+ *
+ * // Type usage example
+ * const readonlyMatrix: Matrix3 = Matrix3.Identity()
+ *
+ * // For mutable usage, use `Matrix3.Mutable`
+ * const matrix: Matrix3.Mutable = Matrix3.Identity()
+ * matrix._m[0] = 2 // this WORKS
+ * ```
+ */
+export type Matrix3 = Matrix3.ReadonlyMatrix3
+
+/**
+ * @public
+ * Matrix3 is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with 3x3 matrices
+ * const normalMatrix = Matrix3.normalMatrix(worldMatrix)
+ * // The type Matrix3 is an alias to Matrix3.ReadonlyMatrix3
+ * const readonlyMatrix: Matrix3 = Matrix3.Identity()
+ *
+ * // For mutable usage, use `Matrix3.Mutable`
+ * const matrix: Matrix3.Mutable = Matrix3.Identity()
+ * ```
+ */
+export namespace Matrix3 {
+  export type Matrix3x3 = [
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number
+  ]
+
+  /**
+   * @public
+   * For external use, type with `Matrix3`, e.g. `const matrix: Matrix3 = Matrix3.Identity()`.
+   * For mutable typing, use `Matrix3.Mutable`, e.g. `const matrix: Matrix3.Mutable = Matrix3.Identity()`.
+   */
+  export type ReadonlyMatrix3 = {
+    readonly _m: Readonly<Matrix3x3>
+  }
+
+  /**
+   * @public
+   * For external usage, type with `Matrix3`, e.g. `const matrix: Matrix3 = Matrix3.Identity()`.
+   * For mutable typing, use `Matrix3.Mutable`, e.g. `const matrix: Matrix3.Mutable = Matrix3.Identity()`.
+   */
+  export type MutableMatrix3 = {
+    _m: Matrix3x3
+  }
+
+  /**
+   * @public
+   * Type with `Matrix3` for readonly usage, e.g. `const matrix: Matrix3 = Matrix3.Identity()`.
+   * For mutable, use `Matrix3.Mutable`, e.g. `const matrix: Matrix3.Mutable = Matrix3.Identity()`.
+   */
+  export type Mutable = MutableMatrix3
+
+  /**
+   * Creates an empty matrix (filled with zeros)
+   */
+  export function create(): MutableMatrix3 {
+    return { _m: [0, 0, 0, 0, 0, 0, 0, 0, 0] }
+  }
+
+  /**
+   * Creates a new identity matrix
+   * @returns a new identity matrix
+   */
+  export function Identity(): MutableMatrix3 {
+    return fromValues(1, 0, 0, 0, 1, 0, 0, 0, 1)
+  }
+
+  /**
+   * Creates a new matrix from a list of values, row by row
+   * @returns the new matrix
+   */
+  export function fromValues(
+    initialM11: number,
+    initialM12: number,
+    initialM13: number,
+    initialM21: number,
+    initialM22: number,
+    initialM23: number,
+    initialM31: number,
+    initialM32: number,
+    initialM33: number
+  ): MutableMatrix3 {
+    return {
+      _m: [
+        initialM11,
+        initialM12,
+        initialM13,
+        initialM21,
+        initialM22,
+        initialM23,
+        initialM31,
+        initialM32,
+        initialM33
+      ]
+    }
+  }
+
+  /**
+   * Creates a matrix from an array
+   * @param array - defines the source array
+   * @param offset - defines an offset in the source array
+   * @returns a new Matrix3 set from the starting index of the given array
+   */
+  export function fromArray(
+    array: ArrayLike<number>,
+    offset: number = 0
+  ): MutableMatrix3 {
+    const result = create()
+    for (let index = 0; index < 9; index++) {
+      result._m[index] = array[index + offset]
+    }
+    return result
+  }
+
+  /**
+   * Copy the values of a matrix into another one
+   * @param from - defines the source matrix
+   * @param dest - defines the destination matrix
+   */
+  export function copy(from: ReadonlyMatrix3, dest: MutableMatrix3): void {
+    for (let index = 0; index < 9; index++) {
+      dest._m[index] = from._m[index]
+    }
+  }
+
+  /**
+   * Clone the current matrix
+   * @returns a new matrix from the current matrix
+   */
+  export function clone(self: ReadonlyMatrix3): MutableMatrix3 {
+    return fromArray(self._m)
+  }
+
+  /**
+   * Creates a new matrix with the upper-left 3x3 block of a 4x4 matrix (rotation and scale, without translation)
+   * @param matrix - defines the source 4x4 matrix
+   * @returns the new matrix
+   */
+  export function fromMatrix(matrix: Matrix.ReadonlyMatrix): MutableMatrix3 {
+    const result = create()
+    fromMatrixToRef(matrix, result)
+    return result
+  }
+
+  /**
+   * Sets the given matrix "result" with the upper-left 3x3 block of a 4x4 matrix
+   * @param matrix - defines the source 4x4 matrix
+   * @param result - defines the target matrix
+   */
+  export function fromMatrixToRef(
+    matrix: Matrix.ReadonlyMatrix,
+    result: MutableMatrix3
+  ): void {
+    const m = matrix._m
+    const rm = result._m
+    rm[0] = m[0]
+    rm[1] = m[1]
+    rm[2] = m[2]
+    rm[3] = m[4]
+    rm[4] = m[5]
+    rm[5] = m[6]
+    rm[6] = m[8]
+    rm[7] = m[9]
+    rm[8] = m[10]
+  }
+
+  /**
+   * Creates a new 4x4 matrix with the current matrix as upper-left block, and no translation
+   * @param self - defines the source matrix
+   * @returns the new 4x4 matrix
+   */
+  export function toMatrix(self: ReadonlyMatrix3): Matrix.MutableMatrix {
+    const m = self._m
+    return Matrix.fromValues(
+      m[0],
+      m[1],
+      m[2],
+      0,
+      m[3],
+      m[4],
+      m[5],
+      0,
+      m[6],
+      m[7],
+      m[8],
+      0,
+      0,
+      0,
+      0,
+      1
+    )
+  }
+
+  /**
+   * Creates a rotation matrix from a quaternion
+   * @param quat - defines the quaternion to use
+   * @returns the new matrix
+   */
+  export function fromQuaternion(
+    quat: Quaternion.ReadonlyQuaternion
+  ): MutableMatrix3 {
+    const result = create()
+    fromQuaternionToRef(quat, result)
+    return result
+  }
+
+  /**
+   * Sets the given matrix "result" to the rotation matrix of a quaternion
+   * @param quat - defines the quaternion to use
+   * @param result - defines the target matrix
+   */
+  export function fromQuaternionToRef(
+    quat: Quaternion.ReadonlyQuaternion,
+    result: MutableMatrix3
+  ): void {
+    const xx = quat.x * quat.x
+    const yy = quat.y * quat.y
+    const zz = quat.z * quat.z
+    const xy = quat.x * quat.y
+    const zw = quat.z * quat.w
+    const zx = quat.z * quat.x
+    const yw = quat.y * quat.w
+    const yz = quat.y * quat.z
+    const xw = quat.x * quat.w
+
+    const rm = result._m
+    rm[0] = 1.0 - 2.0 * (yy + zz)
+    rm[1] = 2.0 * (xy + zw)
+    rm[2] = 2.0 * (zx - yw)
+
+    rm[3] = 2.0 * (xy - zw)
+    rm[4] = 1.0 - 2.0 * (zz + xx)
+    rm[5] = 2.0 * (yz + xw)
+
+    rm[6] = 2.0 * (zx + yw)
+    rm[7] = 2.0 * (yz - xw)
+    rm[8] = 1.0 - 2.0 * (yy + xx)
+  }
+
+  /**
+   * Multiply two matrices
+   * @param self - defines the first matrix (applied first)
+   * @param other - defines the second matrix (applied second)
+   * @returns a new matrix set with the multiplication result
+   */
+  export function multiply(
+    self: ReadonlyMatrix3,
+    other: ReadonlyMatrix3
+  ): MutableMatrix3 {
+    const result = create()
+    multiplyToRef(self, other, result)
+    return result
+  }
+
+  /**
+   * Sets the given matrix "result" with the multiplication of two matrices. "result" can be one of the operands
+   * @param self - defines the first matrix (applied first)
+   * @param other - defines the second matrix (applied second)
+   * @param result - defines the target matrix
+   */
+  export function multiplyToRef(
+    self: ReadonlyMatrix3,
+    other: ReadonlyMatrix3,
+    result: MutableMatrix3
+  ): void {
+    const a = self._m
+    const b = other._m
+
+    const a0 = a[0],
+      a1 = a[1],
+      a2 = a[2]
+    const a3 = a[3],
+      a4 = a[4],
+      a5 = a[5]
+    const a6 = a[6],
+      a7 = a[7],
+      a8 = a[8]
+
+    const b0 = b[0],
+      b1 = b[1],
+      b2 = b[2]
+    const b3 = b[3],
+      b4 = b[4],
+      b5 = b[5]
+    const b6 = b[6],
+      b7 = b[7],
+      b8 = b[8]
+
+    const rm = result._m
+    rm[0] = a0 * b0 + a1 * b3 + a2 * b6
+    rm[1] = a0 * b1 + a1 * b4 + a2 * b7
+    rm[2] = a0 * b2 + a1 * b5 + a2 * b8
+
+    rm[3] = a3 * b0 + a4 * b3 + a5 * b6
+    rm[4] = a3 * b1 + a4 * b4 + a5 * b7
+    rm[5] = a3 * b2 + a4 * b5 + a5 * b8
+
+    rm[6] = a6 * b0 + a7 * b3 + a8 * b6
+    rm[7] = a6 * b1 + a7 * b4 + a8 * b7
+    rm[8] = a6 * b2 + a7 * b5 + a8 * b8
+  }
+
+  /**
+   * Gets the determinant of the matrix
+   * @returns the matrix determinant
+   */
+  export function determinant(self: ReadonlyMatrix3): number {
+    const m = self._m
+    return (
+      m[0] * (m[4] * m[8] - m[5] * m[7]) -
+      m[1] * (m[3] * m[8] - m[5] * m[6]) +
+      m[2] * (m[3] * m[7] - m[4] * m[6])
+    )
+  }
+
+  /**
+   * Inverts the given matrix
+   * @param source - defines the source matrix
+   * @returns a new matrix
+   */
+  export function invert(source: ReadonlyMatrix3): MutableMatrix3 {
+    const result = create()
+    invertToRef(source, result)
+    return result
+  }
+
+  /**
+   * Sets the given matrix "result" with the inverse of the source matrix.
+   * If the source matrix is not invertible (determinant equals to 0), it is copied without change
+   * @param source - defines the source matrix
+   * @param result - defines the target matrix
+   */
+  export function invertToRef(
+    source: ReadonlyMatrix3,
+    result: MutableMatrix3
+  ): void {
+    const m = source._m
+    const m00 = m[0],
+      m01 = m[1],
+      m02 = m[2]
+    const m10 = m[3],
+      m11 = m[4],
+      m12 = m[5]
+    const m20 = m[6],
+      m21 = m[7],
+      m22 = m[8]
+
+    const cofact00 = m11 * m22 - m12 * m21
+    const cofact01 = m12 * m20 - m10 * m22
+    const cofact02 = m10 * m21 - m11 * m20
+
+    const det = m00 * cofact00 + m01 * cofact01 + m02 * cofact02
+    if (det === 0) {
+      copy(source, result)
+      return
+    }
+
+    const detInv = 1 / det
+    const rm = result._m
+    rm[0] = cofact00 * detInv
+    rm[1] = (m02 * m21 - m01 * m22) * detInv
+    rm[2] = (m01 * m12 - m02 * m11) * detInv
+    rm[3] = cofact01 * detInv
+    rm[4] = (m00 * m22 - m02 * m20) * detInv
+    rm[5] = (m02 * m10 - m00 * m12) * detInv
+    rm[6] = cofact02 * detInv
+    rm[7] = (m01 * m20 - m00 * m21) * detInv
+    rm[8] = (m00 * m11 - m01 * m10) * detInv
+  }
+
+  /**
+   * Compute the transpose of a given matrix
+   * @param matrix - defines the matrix to transpose
+   * @returns the new matrix
+   */
+  export function transpose(matrix: ReadonlyMatrix3): MutableMatrix3 {
+    const result = create()
+    transposeToRef(matrix, result)
+    return result
+  }
+
+  /**
+   * Compute the transpose of a matrix and store it in a target matrix. "result" can be the source matrix
+   * @param matrix - defines the matrix to transpose
+   * @param result - defines the target matrix
+   */
+  export function transposeToRef(
+    matrix: ReadonlyMatrix3,
+    result: MutableMatrix3
+  ): void {
+    const m = matrix._m
+    const m1 = m[1],
+      m2 = m[2],
+      m5 = m[5]
+    const rm = result._m
+    rm[0] = m[0]
+    rm[1] = m[3]
+    rm[2] = m[6]
+    rm[3] = m1
+    rm[4] = m[4]
+    rm[5] = m[7]
+    rm[6] = m2
+    rm[7] = m5
+    rm[8] = m[8]
+  }
+
+  /**
+   * Computes the normal matrix of a 4x4 matrix: the inverse transpose of its upper-left 3x3 block.
+   * Use it to transform normals with non uniform scales
+   * @param matrix - defines the source 4x4 matrix (e.g. a world matrix)
+   * @returns the new matrix
+   */
+  export function normalMatrix(matrix: Matrix.ReadonlyMatrix): MutableMatrix3 {
+    const result = create()
+    normalMatrixToRef(matrix, result)
+    return result
+  }
+
+  /**
+   * Sets the given matrix "result" with the normal matrix of a 4x4 matrix
+   * @param matrix - defines the source 4x4 matrix
+   * @param result - defines the target matrix
+   */
+  export function normalMatrixToRef(
+    matrix: Matrix.ReadonlyMatrix,
+    result: MutableMatrix3
+  ): void {
+    fromMatrixToRef(matrix, result)
+    invertToRef(result, result)
+    transposeToRef(result, result)
+  }
+
+  /**
+   * Returns a new Vector3 set with the result of the transformation by the given matrix of the given vector
+   * @param vector - defines the vector to transform
+   * @param transformation - defines the transformation matrix
+   * @returns the transformed Vector3
+   */
+  export function transformVector(
+    vector: Vector3.ReadonlyVector3,
+    transformation: ReadonlyMatrix3
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    transformVectorToRef(vector, transformation, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the result of the transformation by the given matrix of the given vector
+   * @param vector - defines the vector to transform
+   * @param transformation - defines the transformation matrix
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function transformVectorToRef(
+    vector: Vector3.ReadonlyVector3,
+    transformation: ReadonlyMatrix3,
+    result: Vector3.MutableVector3
+  ): void {
+    const m = transformation._m
+    const x = vector.x
+    const y = vector.y
+    const z = vector.z
+    result.x = x * m[0] + y * m[3] + z * m[6]
+    result.y = x * m[1] + y * m[4] + z * m[7]
+    result.z = x * m[2] + y * m[5] + z * m[8]
+  }
+
+  /**
+   * Check equality between two matrices
+   * @param self - defines the first matrix
+   * @param other - defines the second matrix
+   * @returns true if both matrices are equals
+   */
+  export function equals(
+    self: ReadonlyMatrix3,
+    other: ReadonlyMatrix3
+  ): boolean {
+    for (let index = 0; index < 9; index++) {
+      if (self._m[index] !== other._m[index]) {
+        return false
+      }
+    }
+    return true
+  }
+
+  /**
+   * Check equality between two matrices with a tolerance
+   * @param self - defines the first matrix
+   * @param other - defines the second matrix
+   * @param epsilon - defines the minimal distance to define values as equals
+   * @returns true if both matrices are distant less than epsilon
+   */
+  export function equalsWithEpsilon(
+    self: ReadonlyMatrix3,
+    other: ReadonlyMatrix3,
+    epsilon: number = Epsilon
+  ): boolean {
+    for (let index = 0; index < 9; index++) {
+      if (!Scalar.withinEpsilon(self._m[index], other._m[index], epsilon)) {
+        return false
+      }
+    }
+    return true
+  }
+}
@@ -0,0 +1,675 @@
+import { Vector2 } from './Vector2'
+import { Vector3 } from './Vector3'
+import { Vector4 } from './Vector4'
+import { Random } from './Random'
+
+/**
+ * @public
+ * Seeded coherent noise: Perlin, simplex and Worley noises, and their fractal sums.
+ * The noises only use arithmetic operations and Math.sqrt, so they give the same values on every JS engine.
+ * ```
+ * const source = Noise.create(1234)
+ * const height = Noise.fbm(
+ *   (point) => Noise.simplex2(source, point),
+ *   Vector2.create(x / 50, z / 50),
+ *   { octaves: 5 }
+ * )
+ * ```
+ */
+export namespace Noise {
+  /**
+   * @public
+   * Permutation table of a seed, shared by all the noises
+   */
+  export type Source = {
+    /**
+     * Seed of the source
+     */
+    readonly seed: number
+    /**
+     * Shuffled integers from 0 to 255, repeated twice
+     */
+    readonly permutation: ReadonlyArray<number>
+  }
+
+  /**
+   * @public
+   * Any point accepted by the noises: Vector2, Vector3 or Vector4
+   */
+  export type Point = {
+    /**
+     * X coordinate
+     */
+    readonly x: number
+    /**
+     * Y coordinate
+     */
+    readonly y: number
+    /**
+     * Z coordinate, for the 3D and 4D noises
+     */
+    readonly z?: number
+    /**
+     * W coordinate, for the 4D noises
+     */
+    readonly w?: number
+  }
+
+  /**
+   * @public
+   * Noise function of a point, e.g. `(point) => Noise.perlin3(source, point)`
+   */
+  export type NoiseFunction<T extends Point> = (point: T) => number
+
+  /**
+   * @public
+   * Options of the fractal sums of noises
+   */
+  export type FractalOptions = {
+    /**
+     * Number of noises added, 4 by default
+     */
+    octaves?: number
+    /**
+     * Frequency multiplier between an octave and the next one, 2 by default
+     */
+    lacunarity?: number
+    /**
+     * Amplitude multiplier between an octave and the next one, 0.5 by default
+     */
+    gain?: number
+  }
+
+  /**
+   * Creates a new noise source
+   * @param seed - defines the seed, the same seed gives the same noises
+   * @returns the new source
+   */
+  export function create(seed: number = 0): Source {
+    const values = Array.from({ length: 256 }, (_, index) => index)
+    const shuffled = Random.shuffle(Random.create(seed), values)
+    return { seed, permutation: shuffled.concat(shuffled) }
+  }
+
+  /**
+   * Returns the 2D Perlin noise at the given point
+   * @param source - defines the noise source
+   * @param point - defines the point
+   * @returns the noise, between -1 and 1
+   */
+  export function perlin2(
+    source: Source,
+    point: Vector2.ReadonlyVector2
+  ): number {
+    const p = source.permutation
+    const floorX = Math.floor(point.x)
+    const floorY = Math.floor(point.y)
+    const X = floorX & 255
+    const Y = floorY & 255
+    const x = point.x - floorX
+    const y = point.y - floorY
+    const u = fade(x)
+    const v = fade(y)
+
+    const A = p[X] + Y
+    const B = p[X + 1] + Y
+    return lerp(
+      v,
+      lerp(u, gradient2(p[A], x, y), gradient2(p[B], x - 1, y)),
+      lerp(u, gradient2(p[A + 1], x, y - 1), gradient2(p[B + 1], x - 1, y - 1))
+    )
+  }
+
+  /**
+   * Returns the 3D Perlin noise at the given point, Ken Perlin's improved noise
+   * @param source - defines the noise source
+   * @param point - defines the point
+   * @returns the noise, between -1 and 1
+   */
+  export function perlin3(
+    source: Source,
+    point: Vector3.ReadonlyVector3
+  ): number {
+    const p = source.permutation
+    const floorX = Math.floor(point.x)
+    const floorY = Math.floor(point.y)
+    const floorZ = Math.floor(point.z)
+    const X = floorX & 255
+    const Y = floorY & 255
+    const Z = floorZ & 255
+    const x = point.x - floorX
+    const y = point.y - floorY
+    const z = point.z - floorZ
+    const u = fade(x)
+    const v = fade(y)
+    const w = fade(z)
+
+    const A = p[X] + Y
+    const AA = p[A] + Z
+    const AB = p[A + 1] + Z
+    const B = p[X + 1] + Y
+    const BA = p[B] + Z
+    const BB = p[B + 1] + Z
+    return lerp(
+      w,
+      lerp(
+        v,
+        lerp(u, gradient3(p[AA], x, y, z), gradient3(p[BA], x - 1, y, z)),
+        lerp(
+          u,
+          gradient3(p[AB], x, y - 1, z),
+          gradient3(p[BB], x - 1, y - 1, z)
+        )
+      ),
+      lerp(
+        v,
+        lerp(
+          u,
+          gradient3(p[AA + 1], x, y, z - 1),
+          gradient3(p[BA + 1], x - 1, y, z - 1)
+        ),
+        lerp(
+          u,
+          gradient3(p[AB + 1], x, y - 1, z - 1),
+          gradient3(p[BB + 1], x - 1, y - 1, z - 1)
+        )
+      )
+    )
+  }
+
+  /**
+   * Returns the 4D Perlin noise at the given point, e.g. a 3D noise animated along w
+   * @param source - defines the noise source
+   * @param point - defines the point
+   * @returns the noise, between -1 and 1
+   */
+  export function perlin4(
+    source: Source,
+    point: Vector4.ReadonlyVector4
+  ): number {
+    const p = source.permutation
+    const floorX = Math.floor(point.x)
+    const floorY = Math.floor(point.y)
+    const floorZ = Math.floor(point.z)
+    const floorW = Math.floor(point.w)
+    const X = floorX & 255
+    const Y = floorY & 255
+    const Z = floorZ & 255
+    const W = floorW & 255
+    const x = point.x - floorX
+    const y = point.y - floorY
+    const z = point.z - floorZ
+    const w = point.w - floorW
+
+    // the gradients of the 16 corners of the hypercube, the bits of the index are the offsets along x, y, z and w
+    const values: number[] = []
+    for (let corner = 0; corner < 16; corner++) {
+      const dx = corner & 1
+      const dy = (corner >> 1) & 1
+      const dz = (corner >> 2) & 1
+      const dw = (corner >> 3) & 1
+      const hash = p[p[p[p[X + dx] + Y + dy] + Z + dz] + W + dw]
+      values.push(gradient4(hash & 31, x - dx, y - dy, z - dz, w - dw))
+    }
+
+    // then interpolate along each axis, halving the values each time
+    for (const amount of [fade(x), fade(y), fade(z), fade(w)]) {
+      for (let index = 0; index < values.length / 2; index++) {
+        values[index] = lerp(amount, values[2 * index], values[2 * index + 1])
+      }
+      values.length /= 2
+    }
+    // the dot products reach 1.5 at the center of the hypercube
+    return (values[0] * 2) / 3
+  }
+
+  /**
+   * Returns the 2D simplex noise at the given point
+   * @param source - defines the noise source
+   * @param point - defines the point
+   * @returns the noise, between -1 and 1
+   */
+  export function simplex2(
+    source: Source,
+    point: Vector2.ReadonlyVector2
+  ): number {
+    const p = source.permutation
+    // skew the space to find the simplex cell
+    const skew = (point.x + point.y) * F2
+    const i = Math.floor(point.x + skew)
+    const j = Math.floor(point.y + skew)
+    const unskew = (i + j) * G2
+    const x0 = point.x - (i - unskew)
+    const y0 = point.y - (j - unskew)
+
+    const i1 = x0 > y0 ? 1 : 0
+    const j1 = x0 > y0 ? 0 : 1
+    const x1 = x0 - i1 + G2
+    const y1 = y0 - j1 + G2
+    const x2 = x0 - 1 + 2 * G2
+    const y2 = y0 - 1 + 2 * G2
+
+    const ii = i & 255
+    const jj = j & 255
+    return (
+      70 *
+      (simplexCorner(p[ii + p[jj]] % 12, 0.5 - x0 * x0 - y0 * y0, x0, y0, 0) +
+        simplexCorner(
+          p[ii + i1 + p[jj + j1]] % 12,
+          0.5 - x1 * x1 - y1 * y1,
+          x1,
+          y1,
+          0
+        ) +
+        simplexCorner(
+          p[ii + 1 + p[jj + 1]] % 12,
+          0.5 - x2 * x2 - y2 * y2,
+          x2,
+          y2,
+          0
+        ))
+    )
+  }
+
+  /**
+   * Returns the 3D simplex noise at the given point
+   * @param source - defines the noise source
+   * @param point - defines the point
+   * @returns the noise, between -1 and 1
+   */
+  export function simplex3(
+    source: Source,
+    point: Vector3.ReadonlyVector3
+  ): number {
+    const p = source.permutation
+    const { x, y, z } = point
+    const skew = (x + y + z) * F3
+    const i = Math.floor(x + skew)
+    const j = Math.floor(y + skew)
+    const k = Math.floor(z + skew)
+    const unskew = (i + j + k) * G3
+    const x0 = x - (i - unskew)
+    const y0 = y - (j - unskew)
+    const z0 = z - (k - unskew)
+
+    // offsets of the second and third corners of the simplex
+    let i1: number, j1: number, k1: number, i2: number, j2: number, k2: number
+    if (x0 >= y0) {
+      if (y0 >= z0) {
+        ;[i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 1, 0]
+      } else if (x0 >= z0) {
+        ;[i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 0, 1]
+      } else {
+        ;[i1, j1, k1, i2, j2, k2] = [0, 0, 1, 1, 0, 1]
+      }
+    } else {
+      if (y0 < z0) {
+        ;[i1, j1, k1, i2, j2, k2] = [0, 0, 1, 0, 1, 1]
+      } else if (x0 < z0) {
+        ;[i1, j1, k1, i2, j2, k2] = [0, 1, 0, 0, 1, 1]
+      } else {
+        ;[i1, j1, k1, i2, j2, k2] = [0, 1, 0, 1, 1, 0]
+      }
+    }
+
+    const ii = i & 255
+    const jj = j & 255
+    const kk = k & 255
+    let total = 0
+    const corners = [
+      [0, 0, 0],
+      [i1, j1, k1],
+      [i2, j2, k2],
+      [1, 1, 1]
+    ]
+    corners.forEach(([di, dj, dk], index) => {
+      const cx = x0 - di + index * G3
+      const cy = y0 - dj + index * G3
+      const cz = z0 - dk + index * G3
+      const hash = p[ii + di + p[jj + dj + p[kk + dk]]] % 12
+      total += simplexCorner(
+        hash,
+        0.6 - cx * cx - cy * cy - cz * cz,
+        cx,
+        cy,
+        cz
+      )
+    })
+    return 32 * total
+  }
+
+  /**
+   * Returns the 4D simplex noise at the given point, e.g. a 3D noise animated along w
+   * @param source - defines the noise source
+   * @param point - defines the point
+   * @returns the noise, between -1 and 1
+   */
+  export function simplex4(
+    source: Source,
+    point: Vector4.ReadonlyVector4
+  ): number {
+    const p = source.permutation
+    const { x, y, z, w } = point
+    const skew = (x + y + z + w) * F4
+    const i = Math.floor(x + skew)
+    const j = Math.floor(y + skew)
+    const k = Math.floor(z + skew)
+    const l = Math.floor(w + skew)
+    const unskew = (i + j + k + l) * G4
+    const x0 = x - (i - unskew)
+    const y0 = y - (j - unskew)
+    const z0 = z - (k - unskew)
+    const w0 = w - (l - unskew)
+
+    // the rank of each coordinate gives the order in which the simplex moves along the axes
+    let rankX = 0
+    let rankY = 0
+    let rankZ = 0
+    let rankW = 0
+    if (x0 > y0) {
+      rankX++
+    } else {
+      rankY++
+    }
+    if (x0 > z0) {
+      rankX++
+    } else {
+      rankZ++
+    }
+    if (x0 > w0) {
+      rankX++
+    } else {
+      rankW++
+    }
+    if (y0 > z0) {
+      rankY++
+    } else {
+      rankZ++
+    }
+    if (y0 > w0) {
+      rankY++
+    } else {
+      rankW++
+    }
+    if (z0 > w0) {
+      rankZ++
+    } else {
+      rankW++
+    }
+
+    const ii = i & 255
+    const jj = j & 255
+    const kk = k & 255
+    const ll = l & 255
+    let total = 0
+    for (let corner = 0; corner < 5; corner++) {
+      // rank 3 moves first, then 2, then 1, and the last corner is (1, 1, 1, 1)
+      const threshold = 4 - corner
+      const di = corner === 0 ? 0 : rankX >= threshold ? 1 : 0
+      const dj = corner === 0 ? 0 : rankY >= threshold ? 1 : 0
+      const dk = corner === 0 ? 0 : rankZ >= threshold ? 1 : 0
+      const dl = corner === 0 ? 0 : rankW >= threshold ? 1 : 0
+      const cx = x0 - di + corner * G4
+      const cy = y0 - dj + corner * G4
+      const cz = z0 - dk + corner * G4
+      const cw = w0 - dl + corner * G4
+      const t = 0.6 - cx * cx - cy * cy - cz * cz - cw * cw
+      if (t > 0) {
+        const hash = p[ii + di + p[jj + dj + p[kk + dk + p[ll + dl]]]] & 31
+        total += t * t * t * t * gradient4(hash, cx, cy, cz, cw)
+      }
+    }
+    return 27 * total
+  }
+
+  /**
+   * Returns the 2D Worley (cellular) noise at the given point, with one random feature point in each unit cell
+   * @param source - defines the noise source
+   * @param point - defines the point
+   * @returns the distance to the closest feature point, between 0 and about 1
+   */
+  export function worley2(
+    source: Source,
+    point: Vector2.ReadonlyVector2
+  ): number {
+    const cellX = Math.floor(point.x)
+    const cellY = Math.floor(point.y)
+    let closest = Infinity
+    for (let i = cellX - 1; i <= cellX + 1; i++) {
+      for (let j = cellY - 1; j <= cellY + 1; j++) {
+        const dx = i + hashCell(source.seed, i, j, 0, 0) - point.x
+        const dy = j + hashCell(source.seed, i, j, 0, 1) - point.y
+        closest = Math.min(closest, dx * dx + dy * dy)
+      }
+    }
+    return Math.sqrt(closest)
+  }
+
+  /**
+   * Returns the 3D Worley (cellular) noise at the given point, with one random feature point in each unit cell
+   * @param source - defines the noise source
+   * @param point - defines the point
+   * @returns the distance to the closest feature point, between 0 and about 1
+   */
+  export function worley3(
+    source: Source,
+    point: Vector3.ReadonlyVector3
+  ): number {
+    const cellX = Math.floor(point.x)
+    const cellY = Math.floor(point.y)
+    const cellZ = Math.floor(point.z)
+    let closest = Infinity
+    for (let i = cellX - 1; i <= cellX + 1; i++) {
+      for (let j = cellY - 1; j <= cellY + 1; j++) {
+        for (let k = cellZ - 1; k <= cellZ + 1; k++) {
+          const dx = i + hashCell(source.seed, i, j, k, 0) - point.x
+          const dy = j + hashCell(source.seed, i, j, k, 1) - point.y
+          const dz = k + hashCell(source.seed, i, j, k, 2) - point.z
+          closest = Math.min(closest, dx * dx + dy * dy + dz * dz)
+        }
+      }
+    }
+    return Math.sqrt(closest)
+  }
+
+  /**
+   * Returns the fractal Brownian motion of the noise: the sum of octaves of increasing frequency and decreasing amplitude
+   * @param noise - defines the noise function
+   * @param point - defines the point
+   * @param options - defines the octaves, lacunarity and gain
+   * @returns the sum, in the range of the noise
+   */
+  export function fbm<T extends Point>(
+    noise: NoiseFunction<T>,
+    point: T,
+    options: FractalOptions = {}
+  ): number {
+    return fractal(noise, point, options, (value) => value)
+  }
+
+  /**
+   * Returns the ridged fractal sum of the noise, which makes sharp crests where the noise crosses 0, e.g. for mountains
+   * @param noise - defines the noise function, between -1 and 1
+   * @param point - defines the point
+   * @param options - defines the octaves, lacunarity and gain
+   * @returns the sum, between 0 and 1
+   */
+  export function ridged<T extends Point>(
+    noise: NoiseFunction<T>,
+    point: T,
+    options: FractalOptions = {}
+  ): number {
+    return fractal(noise, point, options, (value) => {
+      const ridge = 1 - Math.abs(value)
+      return ridge * ridge
+    })
+  }
+
+  /**
+   * Returns the turbulence of the noise, the fractal sum of its absolute value, e.g. for fire or marble
+   * @param noise - defines the noise function, between -1 and 1
+   * @param point - defines the point
+   * @param options - defines the octaves, lacunarity and gain
+   * @returns the sum, between 0 and 1
+   */
+  export function turbulence<T extends Point>(
+    noise: NoiseFunction<T>,
+    point: T,
+    options: FractalOptions = {}
+  ): number {
+    return fractal(noise, point, options, Math.abs)
+  }
+
+  /** @internal */
+  const F2 = 0.5 * (Math.sqrt(3) - 1)
+  /** @internal */
+  const G2 = (3 - Math.sqrt(3)) / 6
+  /** @internal */
+  const F3 = 1 / 3
+  /** @internal */
+  const G3 = 1 / 6
+  /** @internal */
+  const F4 = (Math.sqrt(5) - 1) / 4
+  /** @internal */
+  const G4 = (5 - Math.sqrt(5)) / 20
+
+  /**
+   * Middle points of the edges of a cube
+   * @internal
+   */
+  const gradients3 = [
+    [1, 1, 0],
+    [-1, 1, 0],
+    [1, -1, 0],
+    [-1, -1, 0],
+    [1, 0, 1],
+    [-1, 0, 1],
+    [1, 0, -1],
+    [-1, 0, -1],
+    [0, 1, 1],
+    [0, -1, 1],
+    [0, 1, -1],
+    [0, -1, -1]
+  ]
+
+  /**
+   * Sums the octaves of the noise, each one shaped by the given function, divided by the sum of the amplitudes
+   * @internal
+   */
+  function fractal<T extends Point>(
+    noise: NoiseFunction<T>,
+    point: T,
+    options: FractalOptions,
+    shape: (value: number) => number
+  ): number {
+    const { octaves = 4, lacunarity = 2, gain = 0.5 } = options
+    let frequency = 1
+    let amplitude = 1
+    let total = 0
+    let amplitudes = 0
+    for (let octave = 0; octave < octaves; octave++) {
+      const scaled: Point = {
+        x: point.x * frequency,
+        y: point.y * frequency,
+        z: point.z !== undefined ? point.z * frequency : undefined,
+        w: point.w !== undefined ? point.w * frequency : undefined
+      }
+      total += shape(noise(scaled as T)) * amplitude
+      amplitudes += amplitude
+      frequency *= lacunarity
+      amplitude *= gain
+    }
+    return amplitudes ? total / amplitudes : 0
+  }
+
+  /** @internal */
+  function fade(t: number) {
+    return t * t * t * (t * (t * 6 - 15) + 10)
+  }
+
+  /** @internal */
+  function lerp(amount: number, start: number, end: number) {
+    return start + amount * (end - start)
+  }
+
+  /** @internal */
+  function gradient2(hash: number, x: number, y: number) {
+    switch (hash & 7) {
+      case 0:
+        return x + y
+      case 1:
+        return -x + y
+      case 2:
+        return x - y
+      case 3:
+        return -x - y
+      case 4:
+        return x
+      case 5:
+        return -x
+      case 6:
+        return y
+      default:
+        return -y
+    }
+  }
+
+  /** @internal */
+  function gradient3(hash: number, x: number, y: number, z: number) {
+    const h = hash & 15
+    const u = h < 8 ? x : y
+    const v = h < 4 ? y : h === 12 || h === 14 ? x : z
+    return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v)
+  }
+
+  /**
+   * Dot product with one of the 32 middle points of the edges of a 4D hypercube
+   * @internal
+   */
+  function gradient4(hash: number, x: number, y: number, z: number, w: number) {
+    // the coordinate of the zero component, then the signs of the three others
+    const axis = hash >> 3
+    const a = axis === 0 ? y : x
+    const b = axis <= 1 ? z : y
+    const c = axis <= 2 ? w : z
+    return (hash & 1 ? -a : a) + (hash & 2 ? -b : b) + (hash & 4 ? -c : c)
+  }
+
+  /** @internal */
+  function simplexCorner(
+    hash: number,
+    t: number,
+    x: number,
+    y: number,
+    z: number
+  ) {
+    if (t < 0) {
+      return 0
+    }
+    const gradient = gradients3[hash]
+    return t * t * t * t * (gradient[0] * x + gradient[1] * y + gradient[2] * z)
+  }
+
+  /**
+   * Returns a random number between 0 and 1 for the cell and the axis, from integer operations only
+   * @internal
+   */
+  function hashCell(
+    seed: number,
+    i: number,
+    j: number,
+    k: number,
+    axis: number
+  ) {
+    let hash =
+      seed ^
+      Math.imul(i, 0x27d4eb2d) ^
+      Math.imul(j, 0x165667b1) ^
+      Math.imul(k, 0x1b873593) ^
+      Math.imul(axis + 1, 0x85ebca6b)
+    hash = Math.imul(hash ^ (hash >>> 15), 0x2c1b3c6d)
+    hash = Math.imul(hash ^ (hash >>> 12), 0x297a2d39)
+    hash ^= hash >>> 15
+    return (hash >>> 0) / 4294967296
+  }
+}
@@ -0,0 +1,379 @@
+import { Vector3 } from './Vector3'
+import { AABB } from './AABB'
+
+/**
+ * @public
+ * Parcel is a type and a namespace.
+ * - The namespace contains all types and functions to operates with Parcel
+ * - The type Parcel is an alias to Parcel.ReadonlyParcel
+ * ```
+ *
+ * // Namespace usage example
+ * const base = Parcel.parse('-10,4')
+ * const position = Parcel.sceneToWorld(Vector3.create(8, 0, 8), base)
+ *
+ * // Type usage example
+ * const readonlyParcel: Parcel = Parcel.create(-10, 4)
+ * readonlyParcel.x = 0 // this FAILS
+ *
+ * // For mutable usage, use `Parcel.Mutable`
+ * const parcel: Parcel.Mutable = Parcel.create(-10, 4)
+ * parcel.x = 0 // this WORKS
+ * ```
+ */
+export type Parcel = Parcel.ReadonlyParcel
+
+/**
+ * @public
+ * Parcel is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with Parcel
+ * const base = Parcel.parse('-10,4')
+ * // The type Parcel is an alias to Parcel.ReadonlyParcel
+ * const readonlyParcel: Parcel = Parcel.create(-10, 4)
+ * readonlyParcel.x = 0 // this FAILS
+ *
+ * // For mutable usage, use `Parcel.Mutable`
+ * const parcel: Parcel.Mutable = Parcel.create(-10, 4)
+ * parcel.x = 0 // this WORKS
+ * ```
+ */
+export namespace Parcel {
+  /**
+   * Size of a parcel in meters, along the X and Z axes
+   */
+  export const Size: number = 16
+
+  /**
+   * @public
+   * For external use, type with `Parcel`, e.g. `const parcel: Parcel = Parcel.create(0, 0)`.
+   * For mutable typing, use `Parcel.Mutable`, e.g. `const parcel: Parcel.Mutable = Parcel.create(0, 0)`.
+   */
+  export type ReadonlyParcel = {
+    /**
+     * Coordinate of the parcel along the world X axis
+     */
+    readonly x: number
+    /**
+     * Coordinate of the parcel along the world Z axis
+     */
+    readonly y: number
+  }
+
+  /**
+   * @public
+   * For external usage, type with `Parcel`, e.g. `const parcel: Parcel = Parcel.create(0, 0)`.
+   * For mutable typing, use `Parcel.Mutable`, e.g. `const parcel: Parcel.Mutable = Parcel.create(0, 0)`.
+   */
+  export type MutableParcel = {
+    /**
+     * Coordinate of the parcel along the world X axis
+     */
+    x: number
+    /**
+     * Coordinate of the parcel along the world Z axis
+     */
+    y: number
+  }
+
+  /**
+   * @public
+   * Type with `Parcel` for readonly usage, e.g. `const parcel: Parcel = Parcel.create(0, 0)`.
+   * For mutable, use `Parcel.Mutable`, e.g. `const parcel: Parcel.Mutable = Parcel.create(0, 0)`.
+   */
+  export type Mutable = MutableParcel
+
+  /**
+   * Creates a new parcel from its coordinates
+   * @param x - defines the coordinate along the world X axis
+   * @param y - defines the coordinate along the world Z axis
+   * @returns the new parcel
+   */
+  export function create(x: number = 0, y: number = 0): MutableParcel {
+    return { x, y }
+  }
+
+  /**
+   * Parses a parcel from its coordinates string, e.g. `"-10,4"` as in the `scene.json` files
+   * @param value - defines the string to parse, spaces around the numbers are allowed
+   * @returns the new parcel, or undefined if the string is not two integers separated by a comma
+   */
+  export function parse(value: string): MutableParcel | undefined {
+    const match = /^\s*([+-]?\d+)\s*,\s*([+-]?\d+)\s*$/.exec(value)
+    if (!match) {
+      return undefined
+    }
+    // + 0 turns -0 into 0
+    return create(Number(match[1]) + 0, Number(match[2]) + 0)
+  }
+
+  /**
+   * Returns the coordinates string of the parcel, e.g. `"-10,4"`
+   * @param parcel - defines the parcel
+   * @returns the string
+   */
+  export function toString(parcel: ReadonlyParcel): string {
+    return `${parcel.x},${parcel.y}`
+  }
+
+  /**
+   * Checks if the two parcels have the same coordinates
+   * @param left - defines the first parcel
+   * @param right - defines the second parcel
+   * @returns true if both parcels are the same
+   */
+  export function equals(left: ReadonlyParcel, right: ReadonlyParcel): boolean {
+    return left.x === right.x && left.y === right.y
+  }
+
+  /**
+   * Returns a new Vector3 with the world position of the corner of the parcel, its minimum X and Z
+   * @param parcel - defines the parcel
+   * @param size - defines the size of a parcel, 16 meters by default
+   * @returns the new Vector3
+   */
+  export function toWorldPosition(
+    parcel: ReadonlyParcel,
+    size: number = Size
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    toWorldPositionToRef(parcel, size, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the world position of the corner of the parcel
+   * @param parcel - defines the parcel
+   * @param size - defines the size of a parcel
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function toWorldPositionToRef(
+    parcel: ReadonlyParcel,
+    size: number,
+    result: Vector3.MutableVector3
+  ): void {
+    Vector3.copyFromFloats(parcel.x * size, 0, parcel.y * size, result)
+  }
+
+  /**
+   * Returns a new parcel with the one containing the given world position
+   * @param position - defines the world position, its height is ignored
+   * @param size - defines the size of a parcel, 16 meters by default
+   * @returns the new parcel
+   */
+  export function fromWorldPosition(
+    position: Vector3.ReadonlyVector3,
+    size: number = Size
+  ): MutableParcel {
+    const result = create()
+    fromWorldPositionToRef(position, size, result)
+    return result
+  }
+
+  /**
+   * Sets the given parcel "result" with the one containing the given world position
+   * @param position - defines the world position, its height is ignored
+   * @param size - defines the size of a parcel
+   * @param result - defines the parcel where to store the result
+   */
+  export function fromWorldPositionToRef(
+    position: Vector3.ReadonlyVector3,
+    size: number,
+    result: MutableParcel
+  ): void {
+    result.x = Math.floor(position.x / size) + 0
+    result.y = Math.floor(position.z / size) + 0
+  }
+
+  /**
+   * Returns a new Vector3 with the world position of a position relative to the scene,
+   * whose origin is the corner of its base parcel
+   * @param position - defines the position relative to the scene
+   * @param base - defines the base parcel of the scene
+   * @param size - defines the size of a parcel, 16 meters by default
+   * @returns the new Vector3
+   */
+  export function sceneToWorld(
+    position: Vector3.ReadonlyVector3,
+    base: ReadonlyParcel,
+    size: number = Size
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    sceneToWorldToRef(position, base, size, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the world position of a position relative to the scene
+   * @param position - defines the position relative to the scene
+   * @param base - defines the base parcel of the scene
+   * @param size - defines the size of a parcel
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function sceneToWorldToRef(
+    position: Vector3.ReadonlyVector3,
+    base: ReadonlyParcel,
+    size: number,
+    result: Vector3.MutableVector3
+  ): void {
+    Vector3.copyFromFloats(
+      position.x + base.x * size,
+      position.y,
+      position.z + base.y * size,
+      result
+    )
+  }
+
+  /**
+   * Returns a new Vector3 with a world position relative to the scene, whose origin is the corner of its base parcel
+   * @param position - defines the world position
+   * @param base - defines the base parcel of the scene
+   * @param size - defines the size of a parcel, 16 meters by default
+   * @returns the new Vector3
+   */
+  export function worldToScene(
+    position: Vector3.ReadonlyVector3,
+    base: ReadonlyParcel,
+    size: number = Size
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    worldToSceneToRef(position, base, size, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with a world position relative to the scene
+   * @param position - defines the world position
+   * @param base - defines the base parcel of the scene
+   * @param size - defines the size of a parcel
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function worldToSceneToRef(
+    position: Vector3.ReadonlyVector3,
+    base: ReadonlyParcel,
+    size: number,
+    result: Vector3.MutableVector3
+  ): void {
+    Vector3.copyFromFloats(
+      position.x - base.x * size,
+      position.y,
+      position.z - base.y * size,
+      result
+    )
+  }
+
+  /**
+   * Checks if the parcels form a single area, every parcel sharing a side with another one
+   * @param parcels - defines the parcels of the scene
+   * @returns true if the parcels are contiguous, false if there are none
+   */
+  export function areContiguous(
+    parcels: ReadonlyArray<ReadonlyParcel>
+  ): boolean {
+    if (parcels.length === 0) {
+      return false
+    }
+
+    const remaining = new Set(parcels.map(toString))
+    const queue: ReadonlyParcel[] = [parcels[0]]
+    remaining.delete(toString(parcels[0]))
+    while (queue.length) {
+      const { x, y } = queue.pop()!
+      for (const neighbour of [
+        create(x + 1, y),
+        create(x - 1, y),
+        create(x, y + 1),
+        create(x, y - 1)
+      ]) {
+        if (remaining.delete(toString(neighbour))) {
+          queue.push(neighbour)
+        }
+      }
+    }
+    return remaining.size === 0
+  }
+
+  /**
+   * Returns the max height of a scene in meters, log2(parcelCount + 1) * 20
+   * @param parcelCount - defines the number of parcels of the scene
+   * @returns the height
+   */
+  export function getHeightLimit(parcelCount: number): number {
+    return Math.log2(parcelCount + 1) * 20
+  }
+
+  /**
+   * Returns a new AABB with the world bounds of the scene, from the ground to its height limit
+   * @param parcels - defines the parcels of the scene
+   * @param size - defines the size of a parcel, 16 meters by default
+   * @returns the new AABB, empty if there are no parcels
+   */
+  export function getSceneBounds(
+    parcels: ReadonlyArray<ReadonlyParcel>,
+    size: number = Size
+  ): AABB.MutableAABB {
+    const result = AABB.Empty()
+    getSceneBoundsToRef(parcels, size, result)
+    return result
+  }
+
+  /**
+   * Sets the given AABB "result" with the world bounds of the scene, from the ground to its height limit
+   * @param parcels - defines the parcels of the scene
+   * @param size - defines the size of a parcel
+   * @param result - defines the AABB where to store the result
+   */
+  export function getSceneBoundsToRef(
+    parcels: ReadonlyArray<ReadonlyParcel>,
+    size: number,
+    result: AABB.MutableAABB
+  ): void {
+    if (parcels.length === 0) {
+      AABB.setEmpty(result)
+      return
+    }
+
+    let minX = Infinity
+    let minY = Infinity
+    let maxX = -Infinity
+    let maxY = -Infinity
+    for (const parcel of parcels) {
+      minX = Math.min(minX, parcel.x)
+      minY = Math.min(minY, parcel.y)
+      maxX = Math.max(maxX, parcel.x)
+      maxY = Math.max(maxY, parcel.y)
+    }
+    const count = new Set(parcels.map(toString)).size
+    Vector3.copyFromFloats(minX * size, 0, minY * size, result.min)
+    Vector3.copyFromFloats(
+      (maxX + 1) * size,
+      getHeightLimit(count),
+      (maxY + 1) * size,
+      result.max
+    )
+  }
+
+  /**
+   * Checks if the world position is over one of the parcels of the scene, including their borders.
+   * The height is ignored, see `getSceneBounds` for the height limit
+   * @param position - defines the world position
+   * @param parcels - defines the parcels of the scene
+   * @param size - defines the size of a parcel, 16 meters by default
+   * @returns true if the position is inside the scene
+   */
+  export function isInsideScene(
+    position: Vector3.ReadonlyVector3,
+    parcels: ReadonlyArray<ReadonlyParcel>,
+    size: number = Size
+  ): boolean {
+    const keys = new Set(parcels.map(toString))
+    const x = position.x / size
+    const y = position.z / size
+    // a position on a border belongs to the parcels of both sides
+    const xs = Math.floor(x) === x ? [x - 1, x] : [Math.floor(x)]
+    const ys = Math.floor(y) === y ? [y - 1, y] : [Math.floor(y)]
+    return xs.some((parcelX) =>
+      ys.some((parcelY) => keys.has(toString(create(parcelX + 0, parcelY + 0))))
+    )
+  }
+}
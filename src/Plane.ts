@@ -131,11 +131,24 @@ export namespace Plane {
     return 0
   }
   /**
-   * Normalize the current Plane in place.
-   * @returns the updated Plane.
+   * Normalize the given Plane so its normal has a length of 1
+   * @returns a new normalized Plane.
    */
   export function normalize(plane: ReadonlyPlane): MutablePlane {
     const result = create(0, 0, 0, 0)
+    normalizeToRef(plane, result)
+    return result
+  }
+
+  /**
+   * Normalize the given Plane and stores the result in "result" (it can be the same plane)
+   * @param plane - the plane to normalize
+   * @param result - the plane where to store the result
+   */
+  export function normalizeToRef(
+    plane: ReadonlyPlane,
+    result: MutablePlane
+  ): void {
     const norm = Math.sqrt(
       plane.normal.x * plane.normal.x +
         plane.normal.y * plane.normal.y +
@@ -149,9 +162,9 @@ export namespace Plane {
     result.normal.x = plane.normal.x * magnitude
     result.normal.y = plane.normal.y * magnitude
     result.normal.z = plane.normal.z * magnitude
-    result.d *= magnitude
-    return plane
+    result.d = plane.d * magnitude
   }
+
   /**
    * Applies a transformation the plane and returns the result
    * @param transformation - the transformation matrix to be applied to the plane
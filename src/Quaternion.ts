@@ -1,6 +1,6 @@
 import { Vector3 } from './Vector3'
 import { Scalar } from './Scalar'
-import { DEG2RAD, RAD2DEG } from './types'
+import { DEG2RAD, Epsilon, EulerOptions, EulerOrder, RAD2DEG } from './types'
 import { Matrix } from './Matrix'
 
 /**
@@ -71,6 +71,55 @@ export namespace Quaternion {
    */
   export type Mutable = MutableQuaternion
 
+  /**
+   * @public
+   * Rotation expressed as an angle around an axis, see `Quaternion.toAngleAxis`
+   */
+  export type AngleAxis = {
+    /**
+     * Angle of the rotation in degrees, between 0 and 180
+     */
+    angle: number
+    /**
+     * Normalized axis of the rotation
+     */
+    axis: Vector3.MutableVector3
+  }
+
+  /**
+   * @public
+   * Rotation split in a twist around an axis and the remaining swing, see `Quaternion.swingTwist`
+   */
+  export type SwingTwist = {
+    /**
+     * Rotation that moves the axis, applied after the twist
+     */
+    swing: MutableQuaternion
+    /**
+     * Rotation around the axis
+     */
+    twist: MutableQuaternion
+  }
+
+  /**
+   * @public
+   * Elliptical limit of a swing, see `Quaternion.clampSwingCone`
+   */
+  export type SwingEllipse = {
+    /**
+     * Axis perpendicular to the twist axis, the swings around it are limited by `degrees`
+     */
+    axis: Vector3.ReadonlyVector3
+    /**
+     * Maximum swing around `axis`, in degrees
+     */
+    degrees: number
+    /**
+     * Maximum swing around the axis perpendicular to `axis` and to the twist axis, in degrees
+     */
+    perpendicularDegrees: number
+  }
+
   /**
    * Creates a new Quaternion from the given floats
    * @param x - defines the first component (0 by default)
@@ -91,6 +140,42 @@ export namespace Quaternion {
     return { x, y, z, w }
   }
 
+  /**
+   * Copy source into dest
+   * @param source - defines the quaternion to copy
+   * @param dest - defines the quaternion where to store the result
+   */
+  export function copyFrom(
+    source: ReadonlyQuaternion,
+    dest: MutableQuaternion
+  ): void {
+    dest.x = source.x
+    dest.y = source.y
+    dest.z = source.z
+    dest.w = source.w
+  }
+
+  /**
+   * Sets the given quaternion "dest" with the given floats.
+   * @param x - defines the x coordinate of the source
+   * @param y - defines the y coordinate of the source
+   * @param z - defines the z coordinate of the source
+   * @param w - defines the w coordinate of the source
+   * @param dest - defines the quaternion where to store the result
+   */
+  export function copyFromFloats(
+    x: number,
+    y: number,
+    z: number,
+    w: number,
+    dest: MutableQuaternion
+  ): void {
+    dest.x = x
+    dest.y = y
+    dest.z = z
+    dest.w = w
+  }
+
   /**
    * Returns a new Quaternion as the result of the addition of the two given quaternions.
    * @param q1 - the first quaternion
@@ -104,6 +189,162 @@ export namespace Quaternion {
     return { x: q1.x + q2.x, y: q1.y + q2.y, z: q1.z + q2.z, w: q1.w + q2.w }
   }
 
+  /**
+   * Performs addition between q1 and q2 and stores the result into result
+   * @param q1 - the first quaternion
+   * @param q2 - the second quaternion
+   * @param result - the quaternion where the result of the addition is stored
+   */
+  export function addToRef(
+    q1: ReadonlyQuaternion,
+    q2: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    result.x = q1.x + q2.x
+    result.y = q1.y + q2.y
+    result.z = q1.z + q2.z
+    result.w = q1.w + q2.w
+  }
+
+  /**
+   * Returns a new Quaternion as the result of the substraction of the two given quaternions.
+   * @param q1 - the first quaternion
+   * @param q2 - the second quaternion
+   * @returns the resulting quaternion
+   */
+  export function subtract(
+    q1: ReadonlyQuaternion,
+    q2: ReadonlyQuaternion
+  ): MutableQuaternion {
+    return { x: q1.x - q2.x, y: q1.y - q2.y, z: q1.z - q2.z, w: q1.w - q2.w }
+  }
+
+  /**
+   * Performs substraction between q1 and q2 and stores the result into result
+   * @param q1 - the first quaternion
+   * @param q2 - the second quaternion
+   * @param result - the quaternion where the result of the substraction is stored
+   */
+  export function subtractToRef(
+    q1: ReadonlyQuaternion,
+    q2: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    result.x = q1.x - q2.x
+    result.y = q1.y - q2.y
+    result.z = q1.z - q2.z
+    result.w = q1.w - q2.w
+  }
+
+  /**
+   * Returns a new Quaternion with the other sign. It represents the same rotation
+   * @param q - the source quaternion
+   * @returns the resulting quaternion
+   */
+  export function negate(q: ReadonlyQuaternion): MutableQuaternion {
+    return { x: -q.x, y: -q.y, z: -q.z, w: -q.w }
+  }
+
+  /**
+   * Sets the given quaternion "result" with the other sign of the given quaternion
+   * @param q - the source quaternion
+   * @param result - the quaternion where to store the result
+   */
+  export function negateToRef(
+    q: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    result.x = -q.x
+    result.y = -q.y
+    result.z = -q.z
+    result.w = -q.w
+  }
+
+  /**
+   * Returns a new Quaternion set with the given quaternion components multiplied by the float "scale"
+   * @param q - the source quaternion
+   * @param scale - defines the multiplier factor
+   * @returns the resulting quaternion
+   */
+  export function scale(
+    q: ReadonlyQuaternion,
+    scale: number
+  ): MutableQuaternion {
+    return create(q.x * scale, q.y * scale, q.z * scale, q.w * scale)
+  }
+
+  /**
+   * Multiplies the given quaternion components by the float "scale" and stores the result in the given quaternion "result"
+   * @param q - the source quaternion
+   * @param scale - defines the multiplier factor
+   * @param result - the quaternion where to store the result
+   */
+  export function scaleToRef(
+    q: ReadonlyQuaternion,
+    scale: number,
+    result: MutableQuaternion
+  ): void {
+    result.x = q.x * scale
+    result.y = q.y * scale
+    result.z = q.z * scale
+    result.w = q.w * scale
+  }
+
+  /**
+   * Returns a new Quaternion with the conjugate of the given quaternion (x, y and z with the other sign).
+   * For a normalized quaternion it is the inverse rotation
+   * @param q - the source quaternion
+   * @returns the resulting quaternion
+   */
+  export function conjugate(q: ReadonlyQuaternion): MutableQuaternion {
+    return create(-q.x, -q.y, -q.z, q.w)
+  }
+
+  /**
+   * Sets the given quaternion "result" with the conjugate of the given quaternion
+   * @param q - the source quaternion
+   * @param result - the quaternion where to store the result
+   */
+  export function conjugateToRef(
+    q: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    result.x = -q.x
+    result.y = -q.y
+    result.z = -q.z
+    result.w = q.w
+  }
+
+  /**
+   * Returns a new Quaternion with the inverse of the given quaternion, so `multiply(q, inverse(q))` is the identity.
+   * It works with non normalized quaternions, use `conjugate` when the quaternion is known to be normalized
+   * @param q - the source quaternion
+   * @returns the resulting quaternion
+   */
+  export function inverse(q: ReadonlyQuaternion): MutableQuaternion {
+    const result = create()
+    inverseToRef(q, result)
+    return result
+  }
+
+  /**
+   * Sets the given quaternion "result" with the inverse of the given quaternion.
+   * If the quaternion has a length of 0, the result is a zero quaternion
+   * @param q - the source quaternion
+   * @param result - the quaternion where to store the result
+   */
+  export function inverseToRef(
+    q: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    const lengthSq = lengthSquared(q)
+    const invLengthSq = lengthSq === 0 ? 0 : 1 / lengthSq
+    result.x = -q.x * invLengthSq
+    result.y = -q.y * invLengthSq
+    result.z = -q.z * invLengthSq
+    result.w = q.w * invLengthSq
+  }
+
   /**
    * Creates a new rotation from the given Euler float angles (y, x, z) and stores it in the target quaternion
    * @param yaw - defines the rotation around Y axis (radians)
@@ -216,6 +457,53 @@ export namespace Quaternion {
     return slerp(from, to, t)
   }
 
+  /**
+   * Gradually changes a rotation towards a target over time, like a critically damped spring that never overshoots.
+   * It is frame rate independent, call it every frame with the time elapsed since the previous one (see `Scalar.smoothDamp`)
+   * @param current - the current rotation
+   * @param target - the target rotation
+   * @param velocity - the rate of change of the quaternion components, updated by each call. Start with `Quaternion.Zero()`
+   * @param smoothTime - approximate time to reach the target, in seconds
+   * @param deltaTime - time since the last call, in seconds
+   * @returns a new normalized Quaternion
+   */
+  export function smoothDamp(
+    current: ReadonlyQuaternion,
+    target: ReadonlyQuaternion,
+    velocity: MutableQuaternion,
+    smoothTime: number,
+    deltaTime: number
+  ): MutableQuaternion {
+    if (deltaTime <= 0) {
+      return create(current.x, current.y, current.z, current.w)
+    }
+
+    // damp the components towards the target on the same hemisphere
+    const sign = dot(current, target) < 0 ? -1 : 1
+    const speed: Scalar.Velocity = { value: 0 }
+    const damp = (from: number, to: number, rate: number) => {
+      speed.value = rate
+      return Scalar.smoothDamp(from, to * sign, speed, smoothTime, deltaTime)
+    }
+    const x = damp(current.x, target.x, velocity.x)
+    velocity.x = speed.value
+    const y = damp(current.y, target.y, velocity.y)
+    velocity.y = speed.value
+    const z = damp(current.z, target.z, velocity.z)
+    velocity.z = speed.value
+    const w = damp(current.w, target.w, velocity.w)
+    velocity.w = speed.value
+
+    const result = normalize(create(x, y, z, w))
+    // keep the velocity tangent to the unit sphere of the rotations
+    const radial = dot(velocity, result)
+    velocity.x -= result.x * radial
+    velocity.y -= result.y * radial
+    velocity.z -= result.z * radial
+    velocity.w -= result.w * radial
+    return result
+  }
+
   /**
    * Creates a rotation with the specified forward and upwards directions.
    * @param forward - the direction to look in
@@ -289,6 +577,18 @@ export namespace Quaternion {
     return create(q.x * qLength, q.y * qLength, q.z * qLength, q.w * qLength)
   }
 
+  /**
+   * Normalize the given quaternion and stores the result in the given quaternion "result" (it can be the same quaternion)
+   * @param q - the source quaternion
+   * @param result - the quaternion where to store the result
+   */
+  export function normalizeToRef(
+    q: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    scaleToRef(q, 1.0 / length(q), result)
+  }
+
   /**
    * Creates a rotation which rotates from fromDirection to toDirection.
    * @param from - defines the first direction Vector
@@ -334,7 +634,7 @@ export namespace Quaternion {
    * @public
    * @returns a new Vector3 with euler angles degrees
    */
-  export function toEulerAngles(q: MutableQuaternion): Vector3.Mutable {
+  export function toEulerAngles(q: ReadonlyQuaternion): Vector3.Mutable {
     const out = Vector3.create()
 
     // if the input quaternion is normalized, this is exactly one. Otherwise, this acts as a correction factor for the quaternion's not-normalizedness
@@ -377,6 +677,173 @@ export namespace Quaternion {
     return out
   }
 
+  /**
+   * Creates a new rotation from the given Euler angles applied in the given order.
+   * For Tait-Bryan orders (like 'YXZ') the components of "angles" are the rotations around each axis.
+   * For proper Euler orders (like 'ZXZ') the components are the first, second and third rotation of the sequence
+   * @param angles - defines the Euler angles
+   * @param order - defines the rotation order, 'YXZ' by default (the order of `fromEulerDegrees`)
+   * @param options - defines the unit of the angles, degrees by default
+   * @returns the new quaternion
+   */
+  export function fromEuler(
+    angles: Vector3.ReadonlyVector3,
+    order: EulerOrder = 'YXZ',
+    options: EulerOptions = {}
+  ): MutableQuaternion {
+    const result = create()
+    fromEulerToRef(angles, order, options, result)
+    return result
+  }
+
+  /**
+   * Creates a rotation from the given Euler angles applied in the given order and stores it in the target quaternion
+   * @param angles - defines the Euler angles
+   * @param order - defines the rotation order
+   * @param options - defines the unit of the angles
+   * @param result - defines the target quaternion
+   */
+  export function fromEulerToRef(
+    angles: Vector3.ReadonlyVector3,
+    order: EulerOrder,
+    options: EulerOptions,
+    result: MutableQuaternion
+  ): void {
+    const toRadians = options.unit === 'radians' ? 1 : DEG2RAD
+    const isProperEuler = order[0] === order[2]
+    const values = [angles.x, angles.y, angles.z]
+    let x = 0
+    let y = 0
+    let z = 0
+    let w = 1
+
+    for (let index = 0; index < 3; index++) {
+      const axis = getEulerAxis(order, index)
+      const halfAngle = values[isProperEuler ? index : axis] * toRadians * 0.5
+      const s = Math.sin(halfAngle)
+      const c = Math.cos(halfAngle)
+      const px = axis === 0 ? s : 0
+      const py = axis === 1 ? s : 0
+      const pz = axis === 2 ? s : 0
+
+      // intrinsic rotations: each one is applied in the frame rotated by the previous ones
+      const nx = x * c + y * pz - z * py + w * px
+      const ny = -x * pz + y * c + z * px + w * py
+      const nz = x * py - y * px + z * c + w * pz
+      w = -x * px - y * py - z * pz + w * c
+      x = nx
+      y = ny
+      z = nz
+    }
+
+    result.x = x
+    result.y = y
+    result.z = z
+    result.w = w
+  }
+
+  /**
+   * Returns the Euler angles of the given rotation in the given order.
+   * For Tait-Bryan orders (like 'YXZ') the components of the result are the rotations around each axis.
+   * For proper Euler orders (like 'ZXZ') the components are the first, second and third rotation of the sequence
+   * @param q - defines the rotation
+   * @param order - defines the rotation order, 'YXZ' by default (the order of `toEulerAngles`)
+   * @param options - defines the unit of the angles (degrees by default) and whether they are signed
+   * @returns a new Vector3 with the Euler angles
+   */
+  export function toEuler(
+    q: ReadonlyQuaternion,
+    order: EulerOrder = 'YXZ',
+    options: EulerOptions = {}
+  ): Vector3.Mutable {
+    const result = Vector3.create()
+    toEulerToRef(q, order, options, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the Euler angles of the given rotation in the given order.
+   * When the rotation is in gimbal lock, the third angle is 0
+   * @param q - defines the rotation
+   * @param order - defines the rotation order
+   * @param options - defines the unit of the angles and whether they are signed
+   * @param result - defines the target vector
+   */
+  export function toEulerToRef(
+    q: ReadonlyQuaternion,
+    order: EulerOrder,
+    options: EulerOptions,
+    result: Vector3.MutableVector3
+  ): void {
+    // rotation matrix (column-vector convention), corrected if the quaternion is not normalized
+    const lengthSq = lengthSquared(q)
+    const s = lengthSq > 0 ? 2 / lengthSq : 0
+    const xx = q.x * q.x * s
+    const yy = q.y * q.y * s
+    const zz = q.z * q.z * s
+    const xy = q.x * q.y * s
+    const xz = q.x * q.z * s
+    const yz = q.y * q.z * s
+    const xw = q.x * q.w * s
+    const yw = q.y * q.w * s
+    const zw = q.z * q.w * s
+    const m = [
+      1 - (yy + zz),
+      xy - zw,
+      xz + yw,
+      xy + zw,
+      1 - (xx + zz),
+      yz - xw,
+      xz - yw,
+      yz + xw,
+      1 - (xx + yy)
+    ]
+
+    const i = getEulerAxis(order, 0)
+    const j = getEulerAxis(order, 1)
+    const k = 3 - i - j
+    // +1 when the first two axes are in cyclic order (XY, YZ, ZX)
+    const sign = (j - i + 3) % 3 === 1 ? 1 : -1
+    const isProperEuler = order[0] === order[2]
+    let first: number
+    let second: number
+    let third = 0
+
+    // the gimbal lock is detected on the terms scaled by the second angle, which stay precise near the pole
+    if (isProperEuler) {
+      const sinSecond = Math.hypot(m[i * 3 + j], m[i * 3 + k])
+      second = Math.atan2(sinSecond, m[i * 3 + i])
+      if (sinSecond > 1e-12) {
+        first = Math.atan2(m[j * 3 + i], -sign * m[k * 3 + i])
+        third = Math.atan2(m[i * 3 + j], sign * m[i * 3 + k])
+      } else {
+        // gimbal lock: the first and third axes are aligned
+        first = Math.atan2(sign * m[k * 3 + j], m[j * 3 + j])
+      }
+    } else {
+      const cosSecond = Math.hypot(m[i * 3 + i], m[i * 3 + j])
+      second = Math.atan2(sign * m[i * 3 + k], cosSecond)
+      if (cosSecond > 1e-12) {
+        first = Math.atan2(-sign * m[j * 3 + k], m[k * 3 + k])
+        third = Math.atan2(-sign * m[i * 3 + j], m[i * 3 + i])
+      } else {
+        // gimbal lock: the first and third axes are aligned
+        first = Math.atan2(sign * m[k * 3 + j], m[j * 3 + j])
+      }
+    }
+
+    const values = [0, 0, 0]
+    values[isProperEuler ? 0 : i] = first
+    values[isProperEuler ? 1 : j] = second
+    values[isProperEuler ? 2 : k] = third
+
+    const inDegrees = options.unit !== 'radians'
+    const signed = options.signed === true
+    result.x = wrapEulerAngle(values[0], inDegrees, signed)
+    result.y = wrapEulerAngle(values[1], inDegrees, signed)
+    result.z = wrapEulerAngle(values[2], inDegrees, signed)
+  }
+
   /**
    * Creates a new rotation from the given Euler float angles (y, x, z) and stores it in the target quaternion
    * @param yaw - defines the rotation around Y axis (radians)
@@ -410,7 +877,21 @@ export namespace Quaternion {
   }
 
   /**
-   * Updates the given quaternion with the given rotation matrix values
+   * Creates a new quaternion from the given rotation matrix values
+   * @param matrix - defines the source matrix
+   * @returns the new quaternion
+   */
+  export function fromRotationMatrix(
+    matrix: Matrix.ReadonlyMatrix
+  ): MutableQuaternion {
+    const result = create()
+    fromRotationMatrixToRef(matrix, result)
+    return result
+  }
+
+  /**
+   * Updates the given quaternion with the given rotation matrix values.
+   * The scaling of the matrix is ignored and the translation is not used
    * @param matrix - defines the source matrix
    * @param result - defines the target quaternion
    */
@@ -419,49 +900,64 @@ export namespace Quaternion {
     result: Quaternion.MutableQuaternion
   ): void {
     const data = matrix._m
-    // tslint:disable:one-variable-per-declaration
-    const m11 = data[0],
-      m12 = data[4],
-      m13 = data[8]
-    const m21 = data[1],
-      m22 = data[5],
-      m23 = data[9]
-    const m31 = data[2],
-      m32 = data[6],
-      m33 = data[10]
-    // tslint:enable:one-variable-per-declaration
-    const trace = m11 + m22 + m33
-    let s
-
-    if (trace > 0) {
-      s = 0.5 / Math.sqrt(trace + 1.0)
-
-      result.w = 0.25 / s
-      result.x = (m32 - m23) * s
-      result.y = (m13 - m31) * s
-      result.z = (m21 - m12) * s
-    } else if (m11 > m22 && m11 > m33) {
-      s = 2.0 * Math.sqrt(1.0 + m11 - m22 - m33)
-
-      result.w = (m32 - m23) / s
-      result.x = 0.25 * s
-      result.y = (m12 + m21) / s
-      result.z = (m13 + m31) / s
-    } else if (m22 > m33) {
-      s = 2.0 * Math.sqrt(1.0 + m22 - m11 - m33)
+    fromBasisToRef(
+      data[0],
+      data[1],
+      data[2],
+      data[4],
+      data[5],
+      data[6],
+      data[8],
+      data[9],
+      data[10],
+      result
+    )
+  }
 
-      result.w = (m13 - m31) / s
-      result.x = (m12 + m21) / s
-      result.y = 0.25 * s
-      result.z = (m23 + m32) / s
-    } else {
-      s = 2.0 * Math.sqrt(1.0 + m33 - m11 - m22)
+  /**
+   * Creates a new quaternion with the rotation of the orientation defined by three axes,
+   * like the ones returned by `Vector3.rotate(Vector3.Right(), q)`, `Vector3.rotate(Vector3.Up(), q)` and `Vector3.rotate(Vector3.Forward(), q)`.
+   * The axes are normalized during this operation
+   * @param right - defines the X axis of the orientation
+   * @param up - defines the Y axis of the orientation
+   * @param forward - defines the Z axis of the orientation
+   * @returns the new quaternion
+   */
+  export function fromAxes(
+    right: Vector3.ReadonlyVector3,
+    up: Vector3.ReadonlyVector3,
+    forward: Vector3.ReadonlyVector3
+  ): MutableQuaternion {
+    const result = create()
+    fromAxesToRef(right, up, forward, result)
+    return result
+  }
 
-      result.w = (m21 - m12) / s
-      result.x = (m13 + m31) / s
-      result.y = (m23 + m32) / s
-      result.z = 0.25 * s
-    }
+  /**
+   * Updates the given quaternion with the rotation of the orientation defined by three axes
+   * @param right - defines the X axis of the orientation
+   * @param up - defines the Y axis of the orientation
+   * @param forward - defines the Z axis of the orientation
+   * @param result - defines the target quaternion
+   */
+  export function fromAxesToRef(
+    right: Vector3.ReadonlyVector3,
+    up: Vector3.ReadonlyVector3,
+    forward: Vector3.ReadonlyVector3,
+    result: MutableQuaternion
+  ): void {
+    fromBasisToRef(
+      right.x,
+      right.y,
+      right.z,
+      up.x,
+      up.y,
+      up.z,
+      forward.x,
+      forward.y,
+      forward.z,
+      result
+    )
   }
 
   /**
@@ -523,6 +1019,99 @@ export namespace Quaternion {
     result.w = num3 * left.w + num2 * right.w
   }
 
+  /**
+   * Interpolates between two quaternions with a spherical quadrangle (squad), the rotation equivalent of a cubic spline.
+   * The control points are computed with `squadControlPoint` so consecutive segments join without velocity kinks
+   * @param value1 - defines the first quaternion, the start of the segment
+   * @param control1 - defines the control point of the first quaternion
+   * @param control2 - defines the control point of the second quaternion
+   * @param value2 - defines the second quaternion, the end of the segment
+   * @param amount - defines the gradient to use (between 0 and 1)
+   * @returns the new interpolated quaternion
+   */
+  export function squad(
+    value1: ReadonlyQuaternion,
+    control1: ReadonlyQuaternion,
+    control2: ReadonlyQuaternion,
+    value2: ReadonlyQuaternion,
+    amount: number
+  ): MutableQuaternion {
+    const result = Quaternion.Identity()
+    squadToRef(value1, control1, control2, value2, amount, result)
+    return result
+  }
+
+  /**
+   * Interpolates between two quaternions with a spherical quadrangle (squad) and stores the result in the given quaternion "result"
+   * @param value1 - defines the first quaternion, the start of the segment
+   * @param control1 - defines the control point of the first quaternion
+   * @param control2 - defines the control point of the second quaternion
+   * @param value2 - defines the second quaternion, the end of the segment
+   * @param amount - defines the gradient to use (between 0 and 1)
+   * @param result - defines the target quaternion
+   */
+  export function squadToRef(
+    value1: ReadonlyQuaternion,
+    control1: ReadonlyQuaternion,
+    control2: ReadonlyQuaternion,
+    value2: ReadonlyQuaternion,
+    amount: number,
+    result: MutableQuaternion
+  ): void {
+    // no shortest path flips: the hemispheres are chosen with the keys, flipping would break the continuity
+    const controls = create()
+    slerpUnflippedToRef(control1, control2, amount, controls)
+    slerpUnflippedToRef(value1, value2, amount, result)
+    slerpUnflippedToRef(result, controls, 2 * amount * (1 - amount), result)
+  }
+
+  /**
+   * Returns the squad control point of the quaternion "current", given its previous and next neighbours in a sequence.
+   * The three quaternions are expected to be normalized and on the same hemisphere
+   * @param previous - defines the previous quaternion of the sequence
+   * @param current - defines the quaternion to compute the control point of
+   * @param next - defines the next quaternion of the sequence
+   * @returns the new control point
+   */
+  export function squadControlPoint(
+    previous: ReadonlyQuaternion,
+    current: ReadonlyQuaternion,
+    next: ReadonlyQuaternion
+  ): MutableQuaternion {
+    const result = create()
+    squadControlPointToRef(previous, current, next, result)
+    return result
+  }
+
+  /**
+   * Sets the given quaternion "result" with the squad control point of the quaternion "current"
+   * @param previous - defines the previous quaternion of the sequence
+   * @param current - defines the quaternion to compute the control point of
+   * @param next - defines the next quaternion of the sequence
+   * @param result - defines the target quaternion
+   */
+  export function squadControlPointToRef(
+    previous: ReadonlyQuaternion,
+    current: ReadonlyQuaternion,
+    next: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    // current * exp(-(log(current^-1 * next) + log(current^-1 * previous)) / 4)
+    const currentInverse = inverse(current)
+    const toNext = multiply(currentInverse, next)
+    const toPrevious = multiply(currentInverse, previous)
+    logToRef(toNext, toNext)
+    logToRef(toPrevious, toPrevious)
+    const offset = add(toNext, toPrevious)
+    scaleToRef(offset, -0.25, offset)
+    expToRef(offset, offset)
+    const tangent = multiply(current, offset)
+    result.x = tangent.x
+    result.y = tangent.y
+    result.z = tangent.z
+    result.w = tangent.w
+  }
+
   /**
    * Multiplies two quaternions
    * @param self - defines the first operand
@@ -556,6 +1145,155 @@ export namespace Quaternion {
     result.w = -self.x * q1.x - self.y * q1.y - self.z * q1.z + self.w * q1.w
   }
 
+  /**
+   * Returns the exponential of the given quaternion.
+   * For a pure quaternion (w = 0) whose vector is half an angle around an axis, it is the rotation of that angle around the axis
+   * @param q - the source quaternion
+   * @returns the resulting quaternion
+   */
+  export function exp(q: ReadonlyQuaternion): MutableQuaternion {
+    const result = create()
+    expToRef(q, result)
+    return result
+  }
+
+  /**
+   * Sets the given quaternion "result" with the exponential of the given quaternion
+   * @param q - the source quaternion
+   * @param result - the quaternion where to store the result
+   */
+  export function expToRef(
+    q: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    const vectorLength = Math.sqrt(q.x * q.x + q.y * q.y + q.z * q.z)
+    const expW = Math.exp(q.w)
+    const factor =
+      vectorLength > 0 ? (expW * Math.sin(vectorLength)) / vectorLength : expW
+    result.x = q.x * factor
+    result.y = q.y * factor
+    result.z = q.z * factor
+    result.w = expW * Math.cos(vectorLength)
+  }
+
+  /**
+   * Returns the natural logarithm of the given quaternion.
+   * For a normalized quaternion it is a pure quaternion (w = 0) whose vector is the rotation axis multiplied by half the angle in radians
+   * @param q - the source quaternion
+   * @returns the resulting quaternion
+   */
+  export function log(q: ReadonlyQuaternion): MutableQuaternion {
+    const result = create()
+    logToRef(q, result)
+    return result
+  }
+
+  /**
+   * Sets the given quaternion "result" with the natural logarithm of the given quaternion
+   * @param q - the source quaternion
+   * @param result - the quaternion where to store the result
+   */
+  export function logToRef(
+    q: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    const vectorLength = Math.sqrt(q.x * q.x + q.y * q.y + q.z * q.z)
+    const factor =
+      vectorLength > 0 ? Math.atan2(vectorLength, q.w) / vectorLength : 0
+    result.w = Math.log(length(q))
+    result.x = q.x * factor
+    result.y = q.y * factor
+    result.z = q.z * factor
+  }
+
+  /**
+   * Returns the given quaternion raised to the power "exponent".
+   * For a normalized quaternion it is the same rotation axis with the angle multiplied by the exponent
+   * @param q - the source quaternion
+   * @param exponent - defines the exponent
+   * @returns the resulting quaternion
+   */
+  export function pow(
+    q: ReadonlyQuaternion,
+    exponent: number
+  ): MutableQuaternion {
+    const result = create()
+    powToRef(q, exponent, result)
+    return result
+  }
+
+  /**
+   * Sets the given quaternion "result" with the given quaternion raised to the power "exponent"
+   * @param q - the source quaternion
+   * @param exponent - defines the exponent
+   * @param result - the quaternion where to store the result
+   */
+  export function powToRef(
+    q: ReadonlyQuaternion,
+    exponent: number,
+    result: MutableQuaternion
+  ): void {
+    logToRef(q, result)
+    scaleToRef(result, exponent, result)
+    expToRef(result, result)
+  }
+
+  /**
+   * Returns true if the q1 and the q2 components are strictly equal
+   * @param q1 - defines the first operand
+   * @param q2 - defines the second operand
+   * @returns true if both quaternions are equals
+   */
+  export function equals(
+    q1: ReadonlyQuaternion,
+    q2: ReadonlyQuaternion
+  ): boolean {
+    return q1.x === q2.x && q1.y === q2.y && q1.z === q2.z && q1.w === q2.w
+  }
+
+  /**
+   * Returns true if the q1 and the q2 components are distant less than epsilon
+   * @param q1 - defines the first operand
+   * @param q2 - defines the second operand
+   * @param epsilon - defines the minimal distance to define values as equals
+   * @returns true if both quaternions are distant less than epsilon
+   */
+  export function equalsWithEpsilon(
+    q1: ReadonlyQuaternion,
+    q2: ReadonlyQuaternion,
+    epsilon: number = Epsilon
+  ): boolean {
+    return (
+      Scalar.withinEpsilon(q1.x, q2.x, epsilon) &&
+      Scalar.withinEpsilon(q1.y, q2.y, epsilon) &&
+      Scalar.withinEpsilon(q1.z, q2.z, epsilon) &&
+      Scalar.withinEpsilon(q1.w, q2.w, epsilon)
+    )
+  }
+
+  /**
+   * Returns true if q1 and q2 represent the same rotation, q and -q being the same rotation on opposite hemispheres
+   * @param q1 - defines the first operand
+   * @param q2 - defines the second operand
+   * @param epsilon - defines the minimal distance to define values as equals
+   * @returns true if both quaternions are distant less than epsilon, or opposite
+   */
+  export function equalsRotation(
+    q1: ReadonlyQuaternion,
+    q2: ReadonlyQuaternion,
+    epsilon: number = Epsilon
+  ): boolean {
+    if (dot(q1, q2) >= 0) {
+      return equalsWithEpsilon(q1, q2, epsilon)
+    }
+    return (
+      Scalar.withinEpsilon(q1.x, -q2.x, epsilon) &&
+      Scalar.withinEpsilon(q1.y, -q2.y, epsilon) &&
+      Scalar.withinEpsilon(q1.z, -q2.z, epsilon) &&
+      Scalar.withinEpsilon(q1.w, -q2.w, epsilon)
+    )
+  }
+
   /**
    *
    * @param degrees - the angle degrees
@@ -585,6 +1323,216 @@ export namespace Quaternion {
     return normalize(result)
   }
 
+  /**
+   * Returns the angle (in degrees) and the axis of the given rotation, the inverse of `fromAngleAxis`.
+   * The angle is between 0 and 180, the identity returns an angle of 0 around the X axis
+   * @param q - defines the rotation
+   * @returns a new AngleAxis
+   */
+  export function toAngleAxis(q: ReadonlyQuaternion): AngleAxis {
+    const axis = Vector3.create()
+    const angle = toAngleAxisToRef(q, axis)
+    return { angle, axis }
+  }
+
+  /**
+   * Sets the given vector "axis" with the normalized axis of the given rotation
+   * @param q - defines the rotation
+   * @param axis - defines the target vector of the axis
+   * @returns the angle of the rotation in degrees, between 0 and 180
+   */
+  export function toAngleAxisToRef(
+    q: ReadonlyQuaternion,
+    axis: Vector3.MutableVector3
+  ): number {
+    // q and -q are the same rotation, the positive w gives the shortest angle
+    const sign = q.w < 0 ? -1 : 1
+    const sinHalfAngle = Math.sqrt(q.x * q.x + q.y * q.y + q.z * q.z)
+    if (sinHalfAngle < Epsilon) {
+      Vector3.copyFromFloats(1, 0, 0, axis)
+      return 0
+    }
+
+    const factor = sign / sinHalfAngle
+    Vector3.copyFromFloats(q.x * factor, q.y * factor, q.z * factor, axis)
+    return 2 * Math.atan2(sinHalfAngle, sign * q.w) * RAD2DEG
+  }
+
+  /**
+   * Splits the given rotation in a twist around the given axis and the remaining swing, so `q = multiply(swing, twist)`:
+   * the twist is applied first, then the swing moves the axis
+   * @param q - defines the rotation
+   * @param axis - defines the twist axis
+   * @returns a new SwingTwist
+   */
+  export function swingTwist(
+    q: ReadonlyQuaternion,
+    axis: Vector3.ReadonlyVector3
+  ): SwingTwist {
+    const result = { swing: Identity(), twist: Identity() }
+    swingTwistToRef(q, axis, result.swing, result.twist)
+    return result
+  }
+
+  /**
+   * Splits the given rotation in a twist around the given axis and the remaining swing, and stores them in "swing" and "twist".
+   * When the swing is a half turn the twist is undefined, and it is set to the identity
+   * @param q - defines the rotation
+   * @param axis - defines the twist axis
+   * @param swing - defines the target quaternion of the swing
+   * @param twist - defines the target quaternion of the twist
+   */
+  export function swingTwistToRef(
+    q: ReadonlyQuaternion,
+    axis: Vector3.ReadonlyVector3,
+    swing: MutableQuaternion,
+    twist: MutableQuaternion
+  ): void {
+    const direction = Vector3.normalize(axis)
+    // the twist is the projection of the rotation axis on the twist axis
+    const projection = q.x * direction.x + q.y * direction.y + q.z * direction.z
+    const twistLength = Math.sqrt(projection * projection + q.w * q.w)
+    const rotation = create(q.x, q.y, q.z, q.w)
+
+    if (twistLength < Epsilon) {
+      twist.x = 0
+      twist.y = 0
+      twist.z = 0
+      twist.w = 1
+    } else {
+      const factor = (q.w < 0 ? -1 : 1) / twistLength
+      twist.x = direction.x * projection * factor
+      twist.y = direction.y * projection * factor
+      twist.z = direction.z * projection * factor
+      twist.w = q.w * factor
+    }
+
+    multiplyToRef(rotation, conjugate(twist), swing)
+  }
+
+  /**
+   * Returns the given rotation with its twist around the given axis clamped between two angles
+   * @param q - defines the rotation
+   * @param axis - defines the twist axis
+   * @param minDegrees - defines the minimum twist, between -180 and 180 degrees
+   * @param maxDegrees - defines the maximum twist, between -180 and 180 degrees
+   * @returns the new quaternion
+   */
+  export function clampTwist(
+    q: ReadonlyQuaternion,
+    axis: Vector3.ReadonlyVector3,
+    minDegrees: number,
+    maxDegrees: number
+  ): MutableQuaternion {
+    const result = create()
+    clampTwistToRef(q, axis, minDegrees, maxDegrees, result)
+    return result
+  }
+
+  /**
+   * Sets the given quaternion "result" with the given rotation, with its twist around the given axis clamped between two angles
+   * @param q - defines the rotation
+   * @param axis - defines the twist axis
+   * @param minDegrees - defines the minimum twist, between -180 and 180 degrees
+   * @param maxDegrees - defines the maximum twist, between -180 and 180 degrees
+   * @param result - defines the target quaternion
+   */
+  export function clampTwistToRef(
+    q: ReadonlyQuaternion,
+    axis: Vector3.ReadonlyVector3,
+    minDegrees: number,
+    maxDegrees: number,
+    result: MutableQuaternion
+  ): void {
+    const { swing, twist } = swingTwist(q, axis)
+    const direction = Vector3.normalize(axis)
+    const projection =
+      twist.x * direction.x + twist.y * direction.y + twist.z * direction.z
+    const twistDegrees = 2 * Math.atan2(projection, twist.w) * RAD2DEG
+    const clamped = fromAngleAxis(
+      Scalar.clamp(twistDegrees, minDegrees, maxDegrees),
+      direction
+    )
+    multiplyToRef(swing, clamped, result)
+  }
+
+  /**
+   * Returns the given rotation with its swing clamped, keeping its twist around the given axis.
+   * The swing is the rotation that moves the axis, the limit is a cone around the axis: either
+   * circular with the maximum angle, or elliptical with a maximum angle for each of two perpendicular swing axes
+   * @param q - defines the rotation
+   * @param axis - defines the twist axis, the center of the cone
+   * @param limit - defines the maximum swing angle in degrees, or the elliptical limit
+   * @returns the new quaternion
+   */
+  export function clampSwingCone(
+    q: ReadonlyQuaternion,
+    axis: Vector3.ReadonlyVector3,
+    limit: number | SwingEllipse
+  ): MutableQuaternion {
+    const result = create()
+    clampSwingConeToRef(q, axis, limit, result)
+    return result
+  }
+
+  /**
+   * Sets the given quaternion "result" with the given rotation, with its swing clamped and its twist around the given axis kept
+   * @param q - defines the rotation
+   * @param axis - defines the twist axis, the center of the cone
+   * @param limit - defines the maximum swing angle in degrees, or the elliptical limit
+   * @param result - defines the target quaternion
+   */
+  export function clampSwingConeToRef(
+    q: ReadonlyQuaternion,
+    axis: Vector3.ReadonlyVector3,
+    limit: number | SwingEllipse,
+    result: MutableQuaternion
+  ): void {
+    const { swing, twist } = swingTwist(q, axis)
+    // the swing as a rotation vector: its axis scaled by its angle
+    const swingVector = Vector3.create()
+    const angle = toAngleAxisToRef(swing, swingVector) * DEG2RAD
+    Vector3.scaleToRef(swingVector, angle, swingVector)
+
+    let scale = 1
+    if (typeof limit === 'number') {
+      const maxAngle = Math.max(limit * DEG2RAD, 0)
+      if (angle > maxAngle) {
+        scale = maxAngle / angle
+      }
+    } else {
+      // elliptical limit, the vector is scaled down to the ellipse along its direction
+      const direction = Vector3.normalize(axis)
+      const first = Vector3.cross(
+        Vector3.cross(direction, limit.axis),
+        direction
+      )
+      Vector3.normalizeToRef(first, first)
+      const second = Vector3.cross(direction, first)
+      const firstLimit = Math.max(limit.degrees * DEG2RAD, Epsilon)
+      const secondLimit = Math.max(
+        limit.perpendicularDegrees * DEG2RAD,
+        Epsilon
+      )
+      const firstRatio = Vector3.dot(swingVector, first) / firstLimit
+      const secondRatio = Vector3.dot(swingVector, second) / secondLimit
+      const distance = Math.sqrt(
+        firstRatio * firstRatio + secondRatio * secondRatio
+      )
+      if (distance > 1) {
+        scale = 1 / distance
+      }
+    }
+
+    if (scale === 1) {
+      multiplyToRef(swing, twist, result)
+      return
+    }
+
+    const clamped = fromAngleAxis(angle * scale * RAD2DEG, swingVector)
+    multiplyToRef(clamped, twist, result)
+  }
+
   /**
    * Creates a new quaternion containing the rotation value to reach the target (axis1, axis2, axis3) orientation as a rotated XYZ system (axis1, axis2 and axis3 are normalized during this operation)
    * @param axis1 - defines the first axis
@@ -615,14 +1563,7 @@ export namespace Quaternion {
     axis3: Vector3.ReadonlyVector3,
     ref: MutableQuaternion
   ): void {
-    const rotMat = Matrix.create()
-    Matrix.fromXYZAxesToRef(
-      Vector3.normalize(axis1),
-      Vector3.normalize(axis2),
-      Vector3.normalize(axis3),
-      rotMat
-    )
-    Quaternion.fromRotationMatrixToRef(rotMat, ref)
+    fromAxesToRef(axis1, axis2, axis3, ref)
   }
 
   /**
@@ -662,4 +1603,132 @@ export namespace Quaternion {
 
     Quaternion.fromRotationMatrixToRef(m, result)
   }
+
+  /** @internal */
+  function getEulerAxis(order: EulerOrder, index: number): number {
+    // 'X' is 88, so X, Y and Z are 0, 1 and 2
+    return order.charCodeAt(index) - 88
+  }
+
+  /** @internal */
+  function wrapEulerAngle(
+    radians: number,
+    inDegrees: boolean,
+    signed: boolean
+  ): number {
+    const fullTurn = inDegrees ? 360 : Math.PI * 2
+    const value = inDegrees ? radians * RAD2DEG : radians
+    if (signed) {
+      return value <= -fullTurn / 2 ? value + fullTurn : value
+    }
+    return Scalar.repeat(value, fullTurn)
+  }
+
+  /**
+   * Spherical interpolation like `slerpToRef`, but along the arc between the given quaternions even if it is not the shortest
+   * @internal
+   */
+  function slerpUnflippedToRef(
+    left: ReadonlyQuaternion,
+    right: ReadonlyQuaternion,
+    amount: number,
+    result: MutableQuaternion
+  ): void {
+    const cosAngle = dot(left, right)
+    let leftWeight = 1 - amount
+    let rightWeight = amount
+    // nearly equal or opposite quaternions fall back to a linear interpolation
+    if (Math.abs(cosAngle) <= 0.999999) {
+      const angle = Math.acos(cosAngle)
+      const inverseSin = 1.0 / Math.sin(angle)
+      leftWeight = Math.sin((1.0 - amount) * angle) * inverseSin
+      rightWeight = Math.sin(amount * angle) * inverseSin
+    }
+
+    result.x = leftWeight * left.x + rightWeight * right.x
+    result.y = leftWeight * left.y + rightWeight * right.y
+    result.z = leftWeight * left.z + rightWeight * right.z
+    result.w = leftWeight * left.w + rightWeight * right.w
+  }
+
+  /**
+   * Sets the quaternion with the rotation of a basis, given by its (possibly scaled) X, Y and Z axes
+   * @internal
+   */
+  function fromBasisToRef(
+    xx: number,
+    xy: number,
+    xz: number,
+    yx: number,
+    yy: number,
+    yz: number,
+    zx: number,
+    zy: number,
+    zz: number,
+    result: MutableQuaternion
+  ): void {
+    const scaleX = Math.sqrt(xx * xx + xy * xy + xz * xz)
+    let scaleY = Math.sqrt(yx * yx + yy * yy + yz * yz)
+    const scaleZ = Math.sqrt(zx * zx + zy * zy + zz * zz)
+    // a negative scaling is attributed to the Y axis, like `Matrix.decompose` does
+    const determinant =
+      xx * (yy * zz - yz * zy) -
+      xy * (yx * zz - yz * zx) +
+      xz * (yx * zy - yy * zx)
+    if (determinant < 0) {
+      scaleY = -scaleY
+    }
+
+    if (scaleX === 0 || scaleY === 0 || scaleZ === 0) {
+      result.x = 0
+      result.y = 0
+      result.z = 0
+      result.w = 1
+      return
+    }
+
+    // tslint:disable:one-variable-per-declaration
+    const m11 = xx / scaleX,
+      m12 = yx / scaleY,
+      m13 = zx / scaleZ
+    const m21 = xy / scaleX,
+      m22 = yy / scaleY,
+      m23 = zy / scaleZ
+    const m31 = xz / scaleX,
+      m32 = yz / scaleY,
+      m33 = zz / scaleZ
+    // tslint:enable:one-variable-per-declaration
+    const trace = m11 + m22 + m33
+    let s
+
+    if (trace > 0) {
+      s = 0.5 / Math.sqrt(trace + 1.0)
+
+      result.w = 0.25 / s
+      result.x = (m32 - m23) * s
+      result.y = (m13 - m31) * s
+      result.z = (m21 - m12) * s
+    } else if (m11 > m22 && m11 > m33) {
+      s = 2.0 * Math.sqrt(1.0 + m11 - m22 - m33)
+
+      result.w = (m32 - m23) / s
+      result.x = 0.25 * s
+      result.y = (m12 + m21) / s
+      result.z = (m13 + m31) / s
+    } else if (m22 > m33) {
+      s = 2.0 * Math.sqrt(1.0 + m22 - m11 - m33)
+
+      result.w = (m13 - m31) / s
+      result.x = (m12 + m21) / s
+      result.y = 0.25 * s
+      result.z = (m23 + m32) / s
+    } else {
+      s = 2.0 * Math.sqrt(1.0 + m33 - m11 - m22)
+
+      result.w = (m21 - m12) / s
+      result.x = (m13 + m31) / s
+      result.y = (m23 + m32) / s
+      result.z = 0.25 * s
+    }
+  }
 }
@@ -0,0 +1,356 @@
+import { Vector2 } from './Vector2'
+import { Vector3 } from './Vector3'
+import { Quaternion } from './Quaternion'
+
+/**
+ * @public
+ * Seeded random number generation, the same seed gives the same numbers on every client.
+ * The draws only use integer and arithmetic operations and Math.sqrt, so they do not depend on the JS engine.
+ * ```
+ * const generator = Random.create(1234)
+ * const height = Random.range(generator, 1, 3)
+ * const color = Color3.Random(generator)
+ * const rotation = Random.rotationUniform(generator)
+ * ```
+ */
+export namespace Random {
+  /**
+   * @public
+   * State of a xoshiro128** generator, updated by each draw
+   */
+  export type Generator = {
+    /**
+     * Four unsigned 32 bits integers, not all zero
+     */
+    state: number[]
+  }
+
+  /**
+   * Creates a new generator
+   * @param seed - defines the seed, only its 32 lower bits are used. A random one by default
+   * @returns the new generator
+   */
+  export function create(
+    seed: number = Math.floor(Math.random() * 4294967296)
+  ): Generator {
+    const generator: Generator = { state: [0, 0, 0, 0] }
+    setSeed(generator, seed)
+    return generator
+  }
+
+  /**
+   * Resets the generator to the start of the sequence of the given seed
+   * @param generator - defines the generator to reset
+   * @param seed - defines the seed, only its 32 lower bits are used
+   */
+  export function setSeed(generator: Generator, seed: number): void {
+    // splitmix32 spreads the seed over the whole state
+    let value = seed >>> 0
+    for (let index = 0; index < 4; index++) {
+      value = (value + 0x9e3779b9) | 0
+      let z = value
+      z = Math.imul(z ^ (z >>> 16), 0x21f0aaad)
+      z = Math.imul(z ^ (z >>> 15), 0x735a2d97)
+      generator.state[index] = (z ^ (z >>> 15)) >>> 0
+    }
+    if (generator.state.every((part) => part === 0)) {
+      generator.state[0] = 1
+    }
+  }
+
+  /**
+   * Returns a new generator at the same point of the same sequence
+   * @param generator - defines the generator to copy
+   * @returns the new generator
+   */
+  export function clone(generator: Generator): Generator {
+    return { state: generator.state.slice() }
+  }
+
+  /**
+   * Returns the next unsigned 32 bits integer of the sequence
+   * @param generator - defines the generator
+   * @returns an integer between 0 and 2^32 - 1
+   */
+  export function uint32(generator: Generator): number {
+    const state = generator.state
+    const result = Math.imul(rotateLeft(Math.imul(state[1], 5), 7), 9)
+    const shifted = state[1] << 9
+    state[2] ^= state[0]
+    state[3] ^= state[1]
+    state[1] ^= state[2]
+    state[0] ^= state[3]
+    state[2] ^= shifted
+    state[3] = rotateLeft(state[3], 11)
+    for (let index = 0; index < 4; index++) {
+      state[index] >>>= 0
+    }
+    return result >>> 0
+  }
+
+  /**
+   * Returns a random float number between 0 (included) and 1 (excluded)
+   * @param generator - defines the generator
+   * @returns the random number
+   */
+  export function float(generator: Generator): number {
+    return uint32(generator) / 4294967296
+  }
+
+  /**
+   * Returns a random float number between min (included) and max (excluded)
+   * @param generator - defines the generator
+   * @param min - defines the min value
+   * @param max - defines the max value
+   * @returns the random number
+   */
+  export function range(
+    generator: Generator,
+    min: number,
+    max: number
+  ): number {
+    return float(generator) * (max - min) + min
+  }
+
+  /**
+   * Returns a random integer between min and max, both included
+   * @param generator - defines the generator
+   * @param min - defines the min value
+   * @param max - defines the max value
+   * @returns the random integer
+   */
+  export function int(generator: Generator, min: number, max: number): number {
+    const low = Math.ceil(Math.min(min, max))
+    const high = Math.floor(Math.max(min, max))
+    return low + Math.floor(float(generator) * (high - low + 1))
+  }
+
+  /**
+   * Returns a random element of the array
+   * @param generator - defines the generator
+   * @param array - defines the array to pick from
+   * @returns the element, or undefined if the array is empty
+   */
+  export function pick<T>(
+    generator: Generator,
+    array: ReadonlyArray<T>
+  ): T | undefined {
+    if (array.length === 0) {
+      return undefined
+    }
+    return array[int(generator, 0, array.length - 1)]
+  }
+
+  /**
+   * Returns a new array with the elements of the given one in a random order
+   * @param generator - defines the generator
+   * @param array - defines the array to shuffle
+   * @returns the new array
+   */
+  export function shuffle<T>(
+    generator: Generator,
+    array: ReadonlyArray<T>
+  ): T[] {
+    // Fisher-Yates
+    const result = array.slice()
+    for (let index = result.length - 1; index > 0; index--) {
+      const other = int(generator, 0, index)
+      const element = result[index]
+      result[index] = result[other]
+      result[other] = element
+    }
+    return result
+  }
+
+  /**
+   * Returns a random number following a normal distribution
+   * @param generator - defines the generator
+   * @param mean - defines the mean of the distribution (0 by default)
+   * @param standardDeviation - defines the standard deviation of the distribution (1 by default)
+   * @returns the random number
+   */
+  export function gaussian(
+    generator: Generator,
+    mean: number = 0,
+    standardDeviation: number = 1
+  ): number {
+    // Marsaglia polar method, a point of the unit disk replaces the sine and cosine of Box-Muller
+    const point = Vector2.Zero()
+    let lengthSq = 0
+    while (lengthSq === 0) {
+      insideUnitCircleToRef(generator, point)
+      lengthSq = point.x * point.x + point.y * point.y
+    }
+    return (
+      mean +
+      standardDeviation * point.x * Math.sqrt((-2 * log(lengthSq)) / lengthSq)
+    )
+  }
+
+  /**
+   * Returns a new Vector3 with a random point inside the sphere of radius 1, uniformly distributed
+   * @param generator - defines the generator
+   * @returns the new Vector3
+   */
+  export function insideUnitSphere(
+    generator: Generator
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    insideUnitSphereToRef(generator, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with a random point inside the sphere of radius 1, uniformly distributed
+   * @param generator - defines the generator
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function insideUnitSphereToRef(
+    generator: Generator,
+    result: Vector3.MutableVector3
+  ): void {
+    // rejection sampling in the cube around the sphere
+    do {
+      Vector3.copyFromFloats(
+        2 * float(generator) - 1,
+        2 * float(generator) - 1,
+        2 * float(generator) - 1,
+        result
+      )
+    } while (Vector3.lengthSquared(result) >= 1)
+  }
+
+  /**
+   * Returns a new Vector3 with a random point on the surface of the sphere of radius 1, uniformly distributed
+   * @param generator - defines the generator
+   * @returns the new Vector3
+   */
+  export function onUnitSphere(generator: Generator): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    onUnitSphereToRef(generator, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with a random point on the surface of the sphere of radius 1, uniformly distributed
+   * @param generator - defines the generator
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function onUnitSphereToRef(
+    generator: Generator,
+    result: Vector3.MutableVector3
+  ): void {
+    // Marsaglia, Choosing a point from the surface of a sphere, from a point of the unit disk
+    const point = Vector2.Zero()
+    insideUnitCircleToRef(generator, point)
+    const lengthSq = point.x * point.x + point.y * point.y
+    const scale = 2 * Math.sqrt(1 - lengthSq)
+    Vector3.copyFromFloats(
+      point.x * scale,
+      point.y * scale,
+      1 - 2 * lengthSq,
+      result
+    )
+  }
+
+  /**
+   * Returns a new Vector2 with a random point inside the circle of radius 1, uniformly distributed
+   * @param generator - defines the generator
+   * @returns the new Vector2
+   */
+  export function insideUnitCircle(
+    generator: Generator
+  ): Vector2.MutableVector2 {
+    const result = Vector2.Zero()
+    insideUnitCircleToRef(generator, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with a random point inside the circle of radius 1, uniformly distributed
+   * @param generator - defines the generator
+   * @param result - defines the Vector2 where to store the result
+   */
+  export function insideUnitCircleToRef(
+    generator: Generator,
+    result: Vector2.MutableVector2
+  ): void {
+    // rejection sampling in the square around the circle
+    do {
+      result.x = 2 * float(generator) - 1
+      result.y = 2 * float(generator) - 1
+    } while (result.x * result.x + result.y * result.y >= 1)
+  }
+
+  /**
+   * Returns a new quaternion with a random rotation, uniformly distributed over all the rotations
+   * @param generator - defines the generator
+   * @returns the new normalized quaternion
+   */
+  export function rotationUniform(
+    generator: Generator
+  ): Quaternion.MutableQuaternion {
+    const result = Quaternion.Identity()
+    rotationUniformToRef(generator, result)
+    return result
+  }
+
+  /**
+   * Sets the given quaternion "result" with a random rotation, uniformly distributed over all the rotations
+   * @param generator - defines the generator
+   * @param result - defines the quaternion where to store the result
+   */
+  export function rotationUniformToRef(
+    generator: Generator,
+    result: Quaternion.MutableQuaternion
+  ): void {
+    // Marsaglia, a point on the 4D sphere from two points of the unit disk
+    const first = Vector2.Zero()
+    const second = Vector2.Zero()
+    insideUnitCircleToRef(generator, first)
+    let secondLengthSq = 0
+    while (secondLengthSq === 0) {
+      insideUnitCircleToRef(generator, second)
+      secondLengthSq = second.x * second.x + second.y * second.y
+    }
+    const firstLengthSq = first.x * first.x + first.y * first.y
+    const scale = Math.sqrt((1 - firstLengthSq) / secondLengthSq)
+    result.x = first.x
+    result.y = first.y
+    result.z = second.x * scale
+    result.w = second.y * scale
+  }
+
+  /**
+   * Returns the natural logarithm from arithmetic operations only, Math.log may differ between engines
+   * @internal
+   */
+  function log(value: number) {
+    // value = mantissa * 2^exponent with the mantissa between sqrt(1/2) and sqrt(2), the scaling is exact
+    let mantissa = value
+    let exponent = 0
+    while (mantissa > Math.SQRT2) {
+      mantissa /= 2
+      exponent++
+    }
+    while (mantissa < Math.SQRT1_2) {
+      mantissa *= 2
+      exponent--
+    }
+    // log(mantissa) = 2 atanh(t), whose series converges quickly as |t| < 0.18
+    const t = (mantissa - 1) / (mantissa + 1)
+    const tSq = t * t
+    let term = t
+    let sum = 0
+    for (let power = 1; power < 26; power += 2) {
+      sum += term / power
+      term *= tSq
+    }
+    return 2 * sum + exponent * Math.LN2
+  }
+
+  /** @internal */
+  function rotateLeft(value: number, bits: number) {
+    return (value << bits) | (value >>> (32 - bits))
+  }
+}
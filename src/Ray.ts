@@ -0,0 +1,443 @@
+import { Vector3 } from './Vector3'
+import { Matrix } from './Matrix'
+import { Plane } from './Plane'
+import { AABB } from './AABB'
+import { BoundingSphere } from './BoundingSphere'
+import { Epsilon } from './types'
+
+/**
+ * @public
+ * Ray is a type and a namespace.
+ * - The namespace contains all types and functions to operates with Ray
+ * - The type Ray is an alias to Ray.ReadonlyRay
+ * ```
+ *
+ * // Namespace usage example
+ * const ray = Ray.create(Vector3.Zero(), Vector3.Forward())
+ * const distance = Ray.intersectsAABB(ray, bounds)
+ *
+ * // Type usage example
+ * const readonlyRay: Ray = Ray.create()
+ * readonlyRay.length = 10 // this FAILS
+ *
+ * // For mutable usage, use `Ray.Mutable`
+ * const ray: Ray.Mutable = Ray.create()
+ * ray.length = 10 // this WORKS
+ * ```
+ */
+export type Ray = Ray.ReadonlyRay
+
+/**
+ * @public
+ * Ray is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with Ray
+ * const ray = Ray.create(Vector3.Zero(), Vector3.Forward())
+ * // The type Ray is an alias to Ray.ReadonlyRay
+ * const readonlyRay: Ray = Ray.create()
+ * readonlyRay.length = 10 // this FAILS
+ *
+ * // For mutable usage, use `Ray.Mutable`
+ * const ray: Ray.Mutable = Ray.create()
+ * ray.length = 10 // this WORKS
+ * ```
+ */
+export namespace Ray {
+  /**
+   * @public
+   * For external use, type with `Ray`, e.g. `const ray: Ray = Ray.create()`.
+   * For mutable typing, use `Ray.Mutable`, e.g. `const ray: Ray.Mutable = Ray.create()`.
+   */
+  export type ReadonlyRay = {
+    /**
+     * Starting point of the ray
+     */
+    readonly origin: Vector3.ReadonlyVector3
+    /**
+     * Normalized direction of the ray
+     */
+    readonly direction: Vector3.ReadonlyVector3
+    /**
+     * Maximum distance of the ray, hits farther than it are ignored
+     */
+    readonly length: number
+  }
+
+  /**
+   * @public
+   * For external usage, type with `Ray`, e.g. `const ray: Ray = Ray.create()`.
+   * For mutable typing, use `Ray.Mutable`, e.g. `const ray: Ray.Mutable = Ray.create()`.
+   */
+  export type MutableRay = {
+    /**
+     * Starting point of the ray
+     */
+    origin: Vector3.MutableVector3
+    /**
+     * Normalized direction of the ray
+     */
+    direction: Vector3.MutableVector3
+    /**
+     * Maximum distance of the ray, hits farther than it are ignored
+     */
+    length: number
+  }
+
+  /**
+   * @public
+   * Type with `Ray` for readonly usage, e.g. `const ray: Ray = Ray.create()`.
+   * For mutable, use `Ray.Mutable`, e.g. `const ray: Ray.Mutable = Ray.create()`.
+   */
+  export type Mutable = MutableRay
+
+  /**
+   * @public
+   * Result of a ray-triangle intersection
+   */
+  export type TriangleIntersection = {
+    /**
+     * Distance from the ray origin to the hit point
+     */
+    distance: number
+    /**
+     * Barycentric weight of the second vertex of the triangle
+     */
+    bu: number
+    /**
+     * Barycentric weight of the third vertex of the triangle
+     */
+    bv: number
+  }
+
+  /**
+   * Creates a new Ray. The origin and direction are copied, and the direction is normalized
+   * @param origin - defines the starting point of the ray (0, 0, 0 by default)
+   * @param direction - defines the direction of the ray (forward by default)
+   * @param length - defines the maximum distance of the ray (infinite by default)
+   * @returns the new Ray
+   */
+  export function create(
+    origin: Vector3.ReadonlyVector3 = Vector3.Zero(),
+    direction: Vector3.ReadonlyVector3 = Vector3.Forward(),
+    length: number = Infinity
+  ): MutableRay {
+    return {
+      origin: Vector3.clone(origin),
+      direction: Vector3.normalize(direction),
+      length
+    }
+  }
+
+  /**
+   * Returns a new Ray with the same value
+   * @param ray - defines the source ray
+   * @returns the new Ray
+   */
+  export function clone(ray: ReadonlyRay): MutableRay {
+    return {
+      origin: Vector3.clone(ray.origin),
+      direction: Vector3.clone(ray.direction),
+      length: ray.length
+    }
+  }
+
+  /**
+   * Copy source into dest
+   * @param source - defines the source ray
+   * @param dest - defines the destination ray
+   */
+  export function copyFrom(source: ReadonlyRay, dest: MutableRay): void {
+    Vector3.copyFrom(source.origin, dest.origin)
+    Vector3.copyFrom(source.direction, dest.direction)
+    dest.length = source.length
+  }
+
+  /**
+   * Returns the point of the ray at the given distance from its origin
+   * @param ray - defines the ray
+   * @param distance - defines the distance along the ray
+   * @returns the new Vector3
+   */
+  export function getPoint(
+    ray: ReadonlyRay,
+    distance: number
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    getPointToRef(ray, distance, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" to the point of the ray at the given distance from its origin
+   * @param ray - defines the ray
+   * @param distance - defines the distance along the ray
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function getPointToRef(
+    ray: ReadonlyRay,
+    distance: number,
+    result: Vector3.MutableVector3
+  ): void {
+    result.x = ray.origin.x + ray.direction.x * distance
+    result.y = ray.origin.y + ray.direction.y * distance
+    result.z = ray.origin.z + ray.direction.z * distance
+  }
+
+  /**
+   * Computes the intersection of the ray with a plane
+   * @param ray - defines the ray
+   * @param plane - defines the plane (normalized, otherwise the distance is scaled)
+   * @returns the hit distance, or undefined if the ray is parallel to the plane, points away from it or is too short
+   */
+  export function intersectsPlane(
+    ray: ReadonlyRay,
+    plane: Plane.ReadonlyPlane
+  ): number | undefined {
+    const dot = Vector3.dot(plane.normal, ray.direction)
+    if (Math.abs(dot) < Epsilon) {
+      return undefined
+    }
+
+    const distance = -Plane.signedDistanceTo(plane, ray.origin) / dot
+    return validDistance(ray, distance)
+  }
+
+  /**
+   * Computes the intersection of the ray with an AABB, using the slab method
+   * @param ray - defines the ray
+   * @param aabb - defines the box
+   * @returns the hit distance (0 if the origin is inside the box), or undefined if the ray misses the box
+   */
+  export function intersectsAABB(
+    ray: ReadonlyRay,
+    aabb: AABB.ReadonlyAABB
+  ): number | undefined {
+    let near = -Infinity
+    let far = Infinity
+
+    for (const axis of ['x', 'y', 'z'] as const) {
+      const origin = ray.origin[axis]
+      const direction = ray.direction[axis]
+      const min = aabb.min[axis]
+      const max = aabb.max[axis]
+
+      if (Math.abs(direction) < Epsilon) {
+        // parallel to the slab, it must start between both planes
+        if (origin < min || origin > max) {
+          return undefined
+        }
+      } else {
+        const inverse = 1 / direction
+        let t1 = (min - origin) * inverse
+        let t2 = (max - origin) * inverse
+        if (t1 > t2) {
+          const swap = t1
+          t1 = t2
+          t2 = swap
+        }
+        near = Math.max(near, t1)
+        far = Math.min(far, t2)
+        if (near > far) {
+          return undefined
+        }
+      }
+    }
+
+    if (far < 0) {
+      return undefined
+    }
+    return validDistance(ray, Math.max(near, 0))
+  }
+
+  /**
+   * Computes the intersection of the ray with a sphere
+   * @param ray - defines the ray
+   * @param sphere - defines the sphere
+   * @returns the hit distance (0 if the origin is inside the sphere), or undefined if the ray misses the sphere
+   */
+  export function intersectsSphere(
+    ray: ReadonlyRay,
+    sphere: BoundingSphere.ReadonlyBoundingSphere
+  ): number | undefined {
+    const x = ray.origin.x - sphere.center.x
+    const y = ray.origin.y - sphere.center.y
+    const z = ray.origin.z - sphere.center.z
+    const b = x * ray.direction.x + y * ray.direction.y + z * ray.direction.z
+    const c = x * x + y * y + z * z - sphere.radius * sphere.radius
+
+    if (c <= 0) {
+      return 0
+    }
+
+    const discriminant = b * b - c
+    if (discriminant < 0) {
+      return undefined
+    }
+
+    return validDistance(ray, -b - Math.sqrt(discriminant))
+  }
+
+  /**
+   * Computes the intersection of the ray with a triangle, using the Möller–Trumbore algorithm
+   * @param ray - defines the ray
+   * @param vertex0 - defines the first vertex of the triangle
+   * @param vertex1 - defines the second vertex of the triangle
+   * @param vertex2 - defines the third vertex of the triangle
+   * @param cullBackFaces - if true, the triangle is ignored when its normal, (vertex1 - vertex0) x (vertex2 - vertex0), points along the ray direction
+   * @returns the hit distance and the barycentric coordinates of the hit point, or undefined if the ray misses the triangle
+   */
+  export function intersectsTriangle(
+    ray: ReadonlyRay,
+    vertex0: Vector3.ReadonlyVector3,
+    vertex1: Vector3.ReadonlyVector3,
+    vertex2: Vector3.ReadonlyVector3,
+    cullBackFaces: boolean = false
+  ): TriangleIntersection | undefined {
+    const edge1 = Vector3.subtract(vertex1, vertex0)
+    const edge2 = Vector3.subtract(vertex2, vertex0)
+    const pvec = Vector3.cross(ray.direction, edge2)
+    const det = Vector3.dot(edge1, pvec)
+
+    if (cullBackFaces ? det < Epsilon : Math.abs(det) < Epsilon) {
+      return undefined
+    }
+
+    const invDet = 1 / det
+    const tvec = Vector3.subtract(ray.origin, vertex0)
+    const bu = Vector3.dot(tvec, pvec) * invDet
+    if (bu < 0 || bu > 1) {
+      return undefined
+    }
+
+    const qvec = Vector3.cross(tvec, edge1)
+    const bv = Vector3.dot(ray.direction, qvec) * invDet
+    if (bv < 0 || bu + bv > 1) {
+      return undefined
+    }
+
+    const distance = validDistance(ray, Vector3.dot(edge2, qvec) * invDet)
+    if (distance === undefined) {
+      return undefined
+    }
+    return { distance, bu, bv }
+  }
+
+  /**
+   * Creates a new Ray going from the camera through the given screen point
+   * @param x - defines the x coordinate of the point on the screen, in pixels from the left
+   * @param y - defines the y coordinate of the point on the screen, in pixels from the top
+   * @param viewportWidth - defines the width of the screen
+   * @param viewportHeight - defines the height of the screen
+   * @param view - defines the view matrix of the camera
+   * @param projection - defines the projection matrix of the camera
+   * @returns the new Ray, starting on the near plane
+   */
+  export function fromScreenPoint(
+    x: number,
+    y: number,
+    viewportWidth: number,
+    viewportHeight: number,
+    view: Matrix.ReadonlyMatrix,
+    projection: Matrix.ReadonlyMatrix
+  ): MutableRay {
+    const result = create()
+    fromScreenPointToRef(
+      x,
+      y,
+      viewportWidth,
+      viewportHeight,
+      view,
+      projection,
+      result
+    )
+    return result
+  }
+
+  /**
+   * Sets the given Ray "result" to the ray going from the camera through the given screen point
+   * @param x - defines the x coordinate of the point on the screen, in pixels from the left
+   * @param y - defines the y coordinate of the point on the screen, in pixels from the top
+   * @param viewportWidth - defines the width of the screen
+   * @param viewportHeight - defines the height of the screen
+   * @param view - defines the view matrix of the camera
+   * @param projection - defines the projection matrix of the camera
+   * @param result - defines the Ray where to store the result
+   */
+  export function fromScreenPointToRef(
+    x: number,
+    y: number,
+    viewportWidth: number,
+    viewportHeight: number,
+    view: Matrix.ReadonlyMatrix,
+    projection: Matrix.ReadonlyMatrix,
+    result: MutableRay
+  ): void {
+    const inverse = Matrix.create()
+    Matrix.multiplyToRef(view, projection, inverse)
+    Matrix.invertToRef(inverse, inverse)
+
+    const clipX = (x / viewportWidth) * 2 - 1
+    const clipY = -((y / viewportHeight) * 2 - 1)
+    const far = Vector3.Zero()
+    Vector3.transformCoordinatesFromFloatsToRef(
+      clipX,
+      clipY,
+      -1,
+      inverse,
+      result.origin
+    )
+    Vector3.transformCoordinatesFromFloatsToRef(clipX, clipY, 1, inverse, far)
+    Vector3.subtractToRef(far, result.origin, result.direction)
+    Vector3.normalizeToRef(result.direction, result.direction)
+    result.length = Infinity
+  }
+
+  /**
+   * Returns a new Ray transformed by the given matrix, e.g. to move a world space ray into the local space of an entity.
+   * The length of the ray is scaled like its direction
+   * @param ray - defines the source ray
+   * @param transformation - defines the transformation matrix
+   * @returns the new Ray
+   */
+  export function transform(
+    ray: ReadonlyRay,
+    transformation: Matrix.ReadonlyMatrix
+  ): MutableRay {
+    const result = create()
+    transformToRef(ray, transformation, result)
+    return result
+  }
+
+  /**
+   * Sets the given Ray "result" with the source ray transformed by the given matrix
+   * @param ray - defines the source ray
+   * @param transformation - defines the transformation matrix
+   * @param result - defines the Ray where to store the result
+   */
+  export function transformToRef(
+    ray: ReadonlyRay,
+    transformation: Matrix.ReadonlyMatrix,
+    result: MutableRay
+  ): void {
+    Vector3.transformCoordinatesToRef(ray.origin, transformation, result.origin)
+    Vector3.transformNormalToRef(
+      ray.direction,
+      transformation,
+      result.direction
+    )
+    const scale = Vector3.length(result.direction)
+    result.length = ray.length * scale
+    Vector3.normalizeFromLengthToRef(result.direction, scale, result.direction)
+  }
+
+  /** @internal */
+  function validDistance(
+    ray: ReadonlyRay,
+    distance: number
+  ): number | undefined {
+    if (distance < 0 || distance > ray.length) {
+      return undefined
+    }
+    return distance
+  }
+}
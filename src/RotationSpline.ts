@@ -0,0 +1,228 @@
+import { Quaternion } from './Quaternion'
+
+/**
+ * @public
+ * RotationSpline is a type and a namespace.
+ * - The namespace contains all types and functions to operates with RotationSpline
+ * - The type RotationSpline is an alias to RotationSpline.ReadonlyRotationSpline
+ * ```
+ *
+ * // Namespace usage example
+ * const spline = RotationSpline.create([
+ *   { time: 0, rotation: Quaternion.Identity() },
+ *   { time: 2, rotation: Quaternion.fromEulerDegrees(0, 90, 0) },
+ *   { time: 3, rotation: Quaternion.fromEulerDegrees(45, 90, 0) }
+ * ])
+ * const rotation = RotationSpline.evaluate(spline, 1.5)
+ *
+ * // Type usage example
+ * const readonlySpline: RotationSpline = RotationSpline.create(keys)
+ * readonlySpline.keys = [] // this FAILS
+ *
+ * // For mutable usage, use `RotationSpline.Mutable`
+ * const spline: RotationSpline.Mutable = RotationSpline.create(keys)
+ * spline.keys = [] // this WORKS
+ * ```
+ */
+export type RotationSpline = RotationSpline.ReadonlyRotationSpline
+
+/**
+ * @public
+ * RotationSpline is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with RotationSpline
+ * const spline = RotationSpline.create(keys)
+ * // The type RotationSpline is an alias to RotationSpline.ReadonlyRotationSpline
+ * const readonlySpline: RotationSpline = RotationSpline.create(keys)
+ * readonlySpline.keys = [] // this FAILS
+ *
+ * // For mutable usage, use `RotationSpline.Mutable`
+ * const spline: RotationSpline.Mutable = RotationSpline.create(keys)
+ * spline.keys = [] // this WORKS
+ * ```
+ */
+export namespace RotationSpline {
+  /**
+   * @public
+   * Rotation of the spline at a given time
+   */
+  export type Key = {
+    /**
+     * Time of the key, in any unit as long as all the keys use the same
+     */
+    time: number
+    /**
+     * Rotation at the time of the key
+     */
+    rotation: Quaternion.ReadonlyQuaternion
+  }
+
+  /**
+   * @public
+   * For external use, type with `RotationSpline`, e.g. `const spline: RotationSpline = RotationSpline.create(keys)`.
+   * For mutable typing, use `RotationSpline.Mutable`, e.g. `const spline: RotationSpline.Mutable = RotationSpline.create(keys)`.
+   */
+  export type ReadonlyRotationSpline = {
+    /**
+     * Keys of the spline sorted by time, with normalized rotations
+     */
+    readonly keys: ReadonlyArray<Readonly<Key>>
+    /**
+     * Squad control point of each key
+     */
+    readonly controlPoints: ReadonlyArray<Quaternion.ReadonlyQuaternion>
+  }
+
+  /**
+   * @public
+   * For external usage, type with `RotationSpline`, e.g. `const spline: RotationSpline = RotationSpline.create(keys)`.
+   * For mutable typing, use `RotationSpline.Mutable`, e.g. `const spline: RotationSpline.Mutable = RotationSpline.create(keys)`.
+   */
+  export type MutableRotationSpline = {
+    /**
+     * Keys of the spline sorted by time, with normalized rotations
+     */
+    keys: Key[]
+    /**
+     * Squad control point of each key
+     */
+    controlPoints: Quaternion.MutableQuaternion[]
+  }
+
+  /**
+   * @public
+   * Type with `RotationSpline` for readonly usage, e.g. `const spline: RotationSpline = RotationSpline.create(keys)`.
+   * For mutable, use `RotationSpline.Mutable`, e.g. `const spline: RotationSpline.Mutable = RotationSpline.create(keys)`.
+   */
+  export type Mutable = MutableRotationSpline
+
+  /**
+   * Creates a new rotation spline going through the given keys.
+   * The keys are copied, sorted by time and their rotations normalized
+   * @param keys - defines the keys of the spline
+   * @param fixHemispheres - when true (default), each rotation is negated if needed to be on the same hemisphere as the previous one, so the spline takes the shortest path between keys
+   * @returns the new rotation spline
+   */
+  export function create(
+    keys: ReadonlyArray<Readonly<Key>>,
+    fixHemispheres: boolean = true
+  ): MutableRotationSpline {
+    const sortedKeys: Key[] = keys
+      .map((key) => ({
+        time: key.time,
+        rotation: Quaternion.normalize(key.rotation)
+      }))
+      .sort((a, b) => a.time - b.time)
+
+    if (fixHemispheres) {
+      for (let index = 1; index < sortedKeys.length; index++) {
+        const previous = sortedKeys[index - 1].rotation
+        const current = sortedKeys[index].rotation
+        if (Quaternion.dot(previous, current) < 0) {
+          sortedKeys[index].rotation = Quaternion.negate(current)
+        }
+      }
+    }
+
+    const last = sortedKeys.length - 1
+    const controlPoints = sortedKeys.map((key, index) =>
+      index === 0 || index === last
+        ? Quaternion.normalize(key.rotation)
+        : Quaternion.squadControlPoint(
+            sortedKeys[index - 1].rotation,
+            key.rotation,
+            sortedKeys[index + 1].rotation
+          )
+    )
+
+    return { keys: sortedKeys, controlPoints }
+  }
+
+  /**
+   * Returns the time of the first key of the spline, 0 if the spline has no keys
+   * @param spline - defines the rotation spline
+   * @returns the start time
+   */
+  export function startTime(spline: ReadonlyRotationSpline): number {
+    return spline.keys.length ? spline.keys[0].time : 0
+  }
+
+  /**
+   * Returns the time of the last key of the spline, 0 if the spline has no keys
+   * @param spline - defines the rotation spline
+   * @returns the end time
+   */
+  export function endTime(spline: ReadonlyRotationSpline): number {
+    return spline.keys.length ? spline.keys[spline.keys.length - 1].time : 0
+  }
+
+  /**
+   * Returns a new quaternion with the rotation of the spline at the given time.
+   * Times before the first key or after the last one are clamped, a spline without keys returns the identity
+   * @param spline - defines the rotation spline
+   * @param time - defines the time to evaluate
+   * @returns the new quaternion
+   */
+  export function evaluate(
+    spline: ReadonlyRotationSpline,
+    time: number
+  ): Quaternion.MutableQuaternion {
+    const result = Quaternion.Identity()
+    evaluateToRef(spline, time, result)
+    return result
+  }
+
+  /**
+   * Sets the given quaternion "result" with the rotation of the spline at the given time
+   * @param spline - defines the rotation spline
+   * @param time - defines the time to evaluate
+   * @param result - defines the target quaternion
+   */
+  export function evaluateToRef(
+    spline: ReadonlyRotationSpline,
+    time: number,
+    result: Quaternion.MutableQuaternion
+  ): void {
+    const { keys, controlPoints } = spline
+    if (keys.length === 0) {
+      Quaternion.copyFromFloats(0, 0, 0, 1, result)
+      return
+    }
+
+    const index = findSegment(keys, time)
+    if (index === keys.length - 1 || time <= keys[index].time) {
+      Quaternion.copyFrom(keys[index].rotation, result)
+      return
+    }
+
+    const start = keys[index]
+    const end = keys[index + 1]
+    const amount = (time - start.time) / (end.time - start.time)
+    Quaternion.squadToRef(
+      start.rotation,
+      controlPoints[index],
+      controlPoints[index + 1],
+      end.rotation,
+      amount,
+      result
+    )
+  }
+
+  /**
+   * Returns the index of the last key whose time is lower or equal than the given one, 0 if there is none
+   * @internal
+   */
+  function findSegment(keys: ReadonlyArray<Readonly<Key>>, time: number) {
+    let low = 0
+    let high = keys.length - 1
+    while (low < high) {
+      const middle = (low + high + 1) >> 1
+      if (keys[middle].time <= time) {
+        low = middle
+      } else {
+        high = middle - 1
+      }
+    }
+    return low
+  }
+}
@@ -1,3 +1,5 @@
+import { Random } from './Random'
+
 /**
  * Scalar computation library
  * @public
@@ -8,6 +10,34 @@ export namespace Scalar {
    */
   export const TwoPi: number = Math.PI * 2
 
+  /**
+   * Velocity kept between the calls of `smoothDamp` and `spring`, start with `{ value: 0 }`
+   */
+  export type Velocity = {
+    /**
+     * Current velocity, in units per second
+     */
+    value: number
+  }
+
+  /**
+   * Parameters of a damped harmonic spring, see `spring`
+   */
+  export type Spring = {
+    /**
+     * Force pulling towards the target per unit of distance, it must be positive
+     */
+    stiffness: number
+    /**
+     * Force slowing down the motion per unit of velocity, 2 * sqrt(stiffness * mass) is critically damped
+     */
+    damping: number
+    /**
+     * Mass of the moving value, it must be positive
+     */
+    mass: number
+  }
+
   /**
    * Boolean : true if the absolute difference between a and b is lower than epsilon (default = 1.401298E-45)
    * @param a - number
@@ -207,6 +237,118 @@ export namespace Scalar {
     return result
   }
 
+  /**
+   * Gradually changes a value towards a target over time, like a critically damped spring that never overshoots.
+   * It is frame rate independent, call it every frame with the time elapsed since the previous one.
+   * @param current - current value
+   * @param target - target value
+   * @param velocity - velocity of the value, updated by each call
+   * @param smoothTime - approximate time to reach the target, in seconds
+   * @param deltaTime - time since the last call, in seconds
+   * @param maxSpeed - max speed of the value, infinite by default
+   * @returns resulting value
+   */
+  export function smoothDamp(
+    current: number,
+    target: number,
+    velocity: Velocity,
+    smoothTime: number,
+    deltaTime: number,
+    maxSpeed: number = Infinity
+  ): number {
+    if (deltaTime <= 0) {
+      return current
+    }
+
+    // Game Programming Gems 4, chapter 1.10
+    const omega = 2 / Math.max(0.0001, smoothTime)
+    const x = omega * deltaTime
+    const decay = 1 / (1 + x + 0.48 * x * x + 0.235 * x * x * x)
+    const maxChange = maxSpeed * Math.max(0.0001, smoothTime)
+    const change = clamp(current - target, -maxChange, maxChange)
+    const clampedTarget = current - change
+
+    const temp = (velocity.value + omega * change) * deltaTime
+    velocity.value = (velocity.value - omega * temp) * decay
+    let result = clampedTarget + (change + temp) * decay
+
+    // prevent overshooting
+    if (target - current > 0 === result > target) {
+      result = target
+      velocity.value = 0
+    }
+    return result
+  }
+
+  /**
+   * Moves a value towards a target with a damped harmonic spring.
+   * The motion is computed with the exact solution of the spring equation, so it is stable for any deltaTime.
+   * @param current - current value
+   * @param target - target value, the rest position of the spring
+   * @param velocity - velocity of the value, updated by each call
+   * @param config - stiffness, damping and mass of the spring
+   * @param deltaTime - time since the last call, in seconds
+   * @returns resulting value
+   */
+  export function spring(
+    current: number,
+    target: number,
+    velocity: Velocity,
+    config: Spring,
+    deltaTime: number
+  ): number {
+    if (deltaTime <= 0) {
+      return current
+    }
+
+    const mass = Math.max(config.mass, 1e-6)
+    const naturalFrequency = Math.sqrt(Math.max(config.stiffness, 1e-6) / mass)
+    const dampingRatio =
+      Math.max(config.damping, 0) / (2 * naturalFrequency * mass)
+    const offset = current - target
+    const speed = velocity.value
+    const t = deltaTime
+
+    let resultOffset: number
+    if (Math.abs(dampingRatio - 1) < 1e-4) {
+      // critically damped
+      const decay = Math.exp(-naturalFrequency * t)
+      const c = speed + naturalFrequency * offset
+      resultOffset = (offset + c * t) * decay
+      velocity.value = (speed - naturalFrequency * c * t) * decay
+    } else if (dampingRatio < 1) {
+      // under damped, it oscillates around the target
+      const decayRate = dampingRatio * naturalFrequency
+      const frequency =
+        naturalFrequency * Math.sqrt(1 - dampingRatio * dampingRatio)
+      const decay = Math.exp(-decayRate * t)
+      const cos = Math.cos(frequency * t)
+      const sin = Math.sin(frequency * t)
+      resultOffset =
+        decay *
+        (offset * cos + ((speed + decayRate * offset) / frequency) * sin)
+      velocity.value =
+        decay *
+        (speed * cos -
+          ((decayRate * speed + naturalFrequency * naturalFrequency * offset) /
+            frequency) *
+            sin)
+    } else {
+      // over damped, it slowly reaches the target
+      const root = naturalFrequency * Math.sqrt(dampingRatio * dampingRatio - 1)
+      const rate1 = -naturalFrequency * dampingRatio + root
+      const rate2 = -naturalFrequency * dampingRatio - root
+      const c1 = (speed - rate2 * offset) / (rate1 - rate2)
+      const c2 = offset - c1
+      const exp1 = Math.exp(rate1 * t)
+      const exp2 = Math.exp(rate2 * t)
+      resultOffset = c1 * exp1 + c2 * exp2
+      velocity.value = c1 * rate1 * exp1 + c2 * rate2 * exp2
+    }
+
+    return target + resultOffset
+  }
+
   /**
    * Creates a new scalar with values linearly interpolated of "amount" between the start scalar and the end scalar
    * @param start - start value
@@ -286,13 +428,19 @@ export namespace Scalar {
    * Returns a random float number between and min and max values
    * @param min - min value of random
    * @param max - max value of random
+   * @param generator - seeded generator to draw from, `Math.random` by default
    * @returns random value
    */
-  export function randomRange(min: number, max: number): number {
+  export function randomRange(
+    min: number,
+    max: number,
+    generator?: Random.Generator
+  ): number {
     if (min === max) {
       return min
     }
-    return Math.random() * (max - min) + min
+    const value = generator ? Random.float(generator) : Math.random()
+    return value * (max - min) + min
   }
 
   /**
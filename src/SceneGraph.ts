@@ -0,0 +1,239 @@
+import { Matrix } from './Matrix'
+
+/**
+ * @public
+ * SceneGraph is a type and a namespace.
+ * - The namespace contains all types and functions to operates with SceneGraph
+ * - The type SceneGraph is an alias to SceneGraph.ReadonlySceneGraph
+ * ```
+ *
+ * // Namespace usage example
+ * const graph = SceneGraph.create<Entity>()
+ * SceneGraph.update(graph, nodes)
+ * const world = SceneGraph.getWorldMatrix(graph, entity)
+ *
+ * // Type usage example
+ * const readonlyGraph: SceneGraph<Entity> = SceneGraph.create<Entity>()
+ * readonlyGraph.order = [] // this FAILS
+ *
+ * // For mutable usage, use `SceneGraph.Mutable`
+ * const graph: SceneGraph.Mutable<Entity> = SceneGraph.create<Entity>()
+ * graph.order = [] // this WORKS
+ * ```
+ */
+export type SceneGraph<K = number> = SceneGraph.ReadonlySceneGraph<K>
+
+/**
+ * @public
+ * SceneGraph is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with SceneGraph
+ * const graph = SceneGraph.create<Entity>()
+ * // The type SceneGraph is an alias to SceneGraph.ReadonlySceneGraph
+ * const readonlyGraph: SceneGraph<Entity> = SceneGraph.create<Entity>()
+ * readonlyGraph.order = [] // this FAILS
+ *
+ * // For mutable usage, use `SceneGraph.Mutable`
+ * const graph: SceneGraph.Mutable<Entity> = SceneGraph.create<Entity>()
+ * graph.order = [] // this WORKS
+ * ```
+ */
+export namespace SceneGraph {
+  /**
+   * @public
+   * Entity of the scene graph, with its parent and its local matrix
+   */
+  export type Node<K = number> = {
+    /**
+     * Parent of the entity, undefined for the entities at the root of the scene.
+     * A parent that is not in the scene graph is treated as the root
+     */
+    parent?: K
+    /**
+     * Matrix of the entity relative to its parent, e.g. from `Transform.toMatrixToRef`.
+     * Its `updateFlag` tells when the world matrix must be computed again
+     */
+    local: Matrix.ReadonlyMatrix
+  }
+
+  /**
+   * @public
+   * For external use, type with `SceneGraph`, e.g. `const graph: SceneGraph = SceneGraph.create()`.
+   * For mutable typing, use `SceneGraph.Mutable`, e.g. `const graph: SceneGraph.Mutable = SceneGraph.create()`.
+   */
+  export type ReadonlySceneGraph<K = number> = {
+    /**
+     * World matrix of each entity
+     */
+    readonly worldMatrices: ReadonlyMap<K, Matrix.ReadonlyMatrix>
+    /**
+     * Entities sorted so that every parent comes before its children
+     */
+    readonly order: ReadonlyArray<K>
+    /**
+     * `updateFlag` of the local matrix of each entity when its world matrix was computed
+     */
+    readonly _localFlags: ReadonlyMap<K, number>
+    /**
+     * `updateFlag` of the world matrix of the parent of each entity when its world matrix was computed, -1 for the root
+     */
+    readonly _parentFlags: ReadonlyMap<K, number>
+  }
+
+  /**
+   * @public
+   * For external usage, type with `SceneGraph`, e.g. `const graph: SceneGraph = SceneGraph.create()`.
+   * For mutable typing, use `SceneGraph.Mutable`, e.g. `const graph: SceneGraph.Mutable = SceneGraph.create()`.
+   */
+  export type MutableSceneGraph<K = number> = {
+    /**
+     * World matrix of each entity
+     */
+    worldMatrices: Map<K, Matrix.MutableMatrix>
+    /**
+     * Entities sorted so that every parent comes before its children
+     */
+    order: K[]
+    /**
+     * `updateFlag` of the local matrix of each entity when its world matrix was computed
+     */
+    _localFlags: Map<K, number>
+    /**
+     * `updateFlag` of the world matrix of the parent of each entity when its world matrix was computed, -1 for the root
+     */
+    _parentFlags: Map<K, number>
+  }
+
+  /**
+   * @public
+   * Type with `SceneGraph` for readonly usage, e.g. `const graph: SceneGraph = SceneGraph.create()`.
+   * For mutable, use `SceneGraph.Mutable`, e.g. `const graph: SceneGraph.Mutable = SceneGraph.create()`.
+   */
+  export type Mutable<K = number> = MutableSceneGraph<K>
+
+  /**
+   * Creates a new empty scene graph, that keeps the world matrices between updates
+   * @returns the new scene graph
+   */
+  export function create<K = number>(): MutableSceneGraph<K> {
+    return {
+      worldMatrices: new Map(),
+      order: [],
+      _localFlags: new Map(),
+      _parentFlags: new Map()
+    }
+  }
+
+  /**
+   * Returns the entities sorted so that every parent comes before its children
+   * @param nodes - defines the entities of the scene with their parent
+   * @returns the sorted entities, or undefined if the parents form a cycle
+   */
+  export function getTopologicalOrder<K>(
+    nodes: ReadonlyMap<K, Readonly<Node<K>>>
+  ): K[] | undefined {
+    const order: K[] = []
+    const sorted = new Set<K>()
+    const path = new Set<K>()
+
+    for (const entity of nodes.keys()) {
+      // walk up the parents until an already sorted entity or the root
+      let current: K | undefined = entity
+      while (
+        current !== undefined &&
+        nodes.has(current) &&
+        !sorted.has(current)
+      ) {
+        if (path.has(current)) {
+          return undefined
+        }
+        path.add(current)
+        current = nodes.get(current)!.parent
+      }
+
+      // the path goes from the child to the parent
+      const ancestors = Array.from(path)
+      for (let index = ancestors.length - 1; index >= 0; index--) {
+        order.push(ancestors[index])
+        sorted.add(ancestors[index])
+      }
+      path.clear()
+    }
+
+    return order
+  }
+
+  /**
+   * Computes the world matrices of the given entities, `world = local * parentWorld`.
+   * Only the entities whose local matrix, parent or parent world matrix changed since the previous update are computed,
+   * and the world matrices of the entities that are no longer in the scene are removed
+   * @param graph - defines the scene graph to update
+   * @param nodes - defines the entities of the scene with their parent
+   * @returns false if the parents form a cycle, then the scene graph is not updated
+   */
+  export function update<K>(
+    graph: MutableSceneGraph<K>,
+    nodes: ReadonlyMap<K, Readonly<Node<K>>>
+  ): boolean {
+    const order = getTopologicalOrder(nodes)
+    if (!order) {
+      return false
+    }
+
+    for (const entity of graph.worldMatrices.keys()) {
+      if (!nodes.has(entity)) {
+        graph.worldMatrices.delete(entity)
+        graph._localFlags.delete(entity)
+        graph._parentFlags.delete(entity)
+      }
+    }
+
+    for (const entity of order) {
+      const node = nodes.get(entity)!
+      const parentWorld =
+        node.parent !== undefined
+          ? graph.worldMatrices.get(node.parent)
+          : undefined
+      const localFlag = node.local.updateFlag
+      const parentFlag = parentWorld ? parentWorld.updateFlag : -1
+
+      let world = graph.worldMatrices.get(entity)
+      if (
+        world &&
+        graph._localFlags.get(entity) === localFlag &&
+        graph._parentFlags.get(entity) === parentFlag
+      ) {
+        continue
+      }
+
+      if (!world) {
+        world = Matrix.create()
+        graph.worldMatrices.set(entity, world)
+      }
+
+      if (parentWorld) {
+        Matrix.multiplyToRef(node.local, parentWorld, world)
+      } else {
+        Matrix.copy(node.local, world)
+      }
+      graph._localFlags.set(entity, localFlag)
+      graph._parentFlags.set(entity, parentFlag)
+    }
+
+    graph.order = order
+    return true
+  }
+
+  /**
+   * Returns the world matrix of the entity computed by the last update
+   * @param graph - defines the scene graph
+   * @param entity - defines the entity
+   * @returns the world matrix, or undefined if the entity was not in the scene
+   */
+  export function getWorldMatrix<K>(
+    graph: ReadonlySceneGraph<K>,
+    entity: K
+  ): Matrix.ReadonlyMatrix | undefined {
+    return graph.worldMatrices.get(entity)
+  }
+}
@@ -0,0 +1,428 @@
+import { Vector3 } from './Vector3'
+import { Quaternion } from './Quaternion'
+import { Matrix } from './Matrix'
+
+/**
+ * @public
+ * Transform is a type and a namespace.
+ * - The namespace contains all types and functions to operates with Transform
+ * - The type Transform is an alias to Transform.ReadonlyTransform
+ * ```
+ *
+ * // Namespace usage example
+ * const world = Transform.multiply(parentTransform, childTransform)
+ * const point = Transform.transformPoint(world, Vector3.Forward())
+ *
+ * // Type usage example
+ * const readonlyTransform: Transform = Transform.create()
+ * readonlyTransform.position = Vector3.One() // this FAILS
+ *
+ * // For mutable usage, use `Transform.Mutable`
+ * const transform: Transform.Mutable = Transform.create()
+ * transform.position = Vector3.One() // this WORKS
+ * ```
+ */
+export type Transform = Transform.ReadonlyTransform
+
+/**
+ * @public
+ * Transform is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with Transform
+ * const world = Transform.multiply(parentTransform, childTransform)
+ * // The type Transform is an alias to Transform.ReadonlyTransform
+ * const readonlyTransform: Transform = Transform.create()
+ * readonlyTransform.position = Vector3.One() // this FAILS
+ *
+ * // For mutable usage, use `Transform.Mutable`
+ * const transform: Transform.Mutable = Transform.create()
+ * transform.position = Vector3.One() // this WORKS
+ * ```
+ */
+export namespace Transform {
+  /**
+   * @public
+   * For external use, type with `Transform`, e.g. `const transform: Transform = Transform.create()`.
+   * For mutable typing, use `Transform.Mutable`, e.g. `const transform: Transform.Mutable = Transform.create()`.
+   */
+  export type ReadonlyTransform = {
+    /**
+     * Position of the transform, applied after the rotation
+     */
+    readonly position: Vector3.ReadonlyVector3
+    /**
+     * Rotation of the transform, applied after the scale
+     */
+    readonly rotation: Quaternion.ReadonlyQuaternion
+    /**
+     * Scale of the transform, applied first
+     */
+    readonly scale: Vector3.ReadonlyVector3
+  }
+
+  /**
+   * @public
+   * For external usage, type with `Transform`, e.g. `const transform: Transform = Transform.create()`.
+   * For mutable typing, use `Transform.Mutable`, e.g. `const transform: Transform.Mutable = Transform.create()`.
+   */
+  export type MutableTransform = {
+    /**
+     * Position of the transform, applied after the rotation
+     */
+    position: Vector3.MutableVector3
+    /**
+     * Rotation of the transform, applied after the scale
+     */
+    rotation: Quaternion.MutableQuaternion
+    /**
+     * Scale of the transform, applied first
+     */
+    scale: Vector3.MutableVector3
+  }
+
+  /**
+   * @public
+   * Type with `Transform` for readonly usage, e.g. `const transform: Transform = Transform.create()`.
+   * For mutable, use `Transform.Mutable`, e.g. `const transform: Transform.Mutable = Transform.create()`.
+   */
+  export type Mutable = MutableTransform
+
+  /**
+   * Creates a new transform
+   * @param position - defines the position, zero by default
+   * @param rotation - defines the rotation, the identity by default
+   * @param scale - defines the scale, one by default
+   * @returns the new transform
+   */
+  export function create(
+    position: Vector3.ReadonlyVector3 = Vector3.Zero(),
+    rotation: Quaternion.ReadonlyQuaternion = Quaternion.Identity(),
+    scale: Vector3.ReadonlyVector3 = Vector3.One()
+  ): MutableTransform {
+    return {
+      position: Vector3.clone(position),
+      rotation: Quaternion.create(
+        rotation.x,
+        rotation.y,
+        rotation.z,
+        rotation.w
+      ),
+      scale: Vector3.clone(scale)
+    }
+  }
+
+  /**
+   * Returns a new transform that does not move, rotate or scale
+   * @returns the new transform
+   */
+  export function Identity(): MutableTransform {
+    return create()
+  }
+
+  /**
+   * Copy the given transform to a new one
+   * @param transform - defines the source transform
+   * @returns the new transform
+   */
+  export function clone(transform: ReadonlyTransform): MutableTransform {
+    return create(transform.position, transform.rotation, transform.scale)
+  }
+
+  /**
+   * Copies the source transform into the destination one
+   * @param source - defines the source transform
+   * @param dest - defines the destination transform
+   */
+  export function copyFrom(
+    source: ReadonlyTransform,
+    dest: MutableTransform
+  ): void {
+    Vector3.copyFrom(source.position, dest.position)
+    Quaternion.copyFrom(source.rotation, dest.rotation)
+    Vector3.copyFrom(source.scale, dest.scale)
+  }
+
+  /**
+   * Returns a new matrix with the scale, rotation and translation of the transform
+   * @param transform - defines the source transform
+   * @returns the new matrix
+   */
+  export function toMatrix(transform: ReadonlyTransform): Matrix.MutableMatrix {
+    const result = Matrix.create()
+    toMatrixToRef(transform, result)
+    return result
+  }
+
+  /**
+   * Sets the given matrix "result" with the scale, rotation and translation of the transform
+   * @param transform - defines the source transform
+   * @param result - defines the target matrix
+   */
+  export function toMatrixToRef(
+    transform: ReadonlyTransform,
+    result: Matrix.MutableMatrix
+  ): void {
+    Matrix.composeToRef(
+      transform.scale,
+      transform.rotation,
+      transform.position,
+      result
+    )
+  }
+
+  /**
+   * Returns a new transform with the decomposed scale, rotation and translation of the matrix
+   * @param matrix - defines the source matrix
+   * @returns the new transform
+   */
+  export function fromMatrix(matrix: Matrix.ReadonlyMatrix): MutableTransform {
+    const result = create()
+    fromMatrixToRef(matrix, result)
+    return result
+  }
+
+  /**
+   * Sets the given transform "result" with the decomposed scale, rotation and translation of the matrix
+   * @param matrix - defines the source matrix
+   * @param result - defines the target transform
+   */
+  export function fromMatrixToRef(
+    matrix: Matrix.ReadonlyMatrix,
+    result: MutableTransform
+  ): void {
+    Matrix.decompose(matrix, result.scale, result.rotation, result.position)
+  }
+
+  /**
+   * Returns a new transform that applies the child transform and then the parent one, the world transform of the child.
+   * As a transform cannot shear, the scale is only exact when the parent scale is uniform or the child is not rotated
+   * @param parent - defines the parent transform
+   * @param child - defines the child transform, relative to the parent
+   * @returns the new transform
+   */
+  export function multiply(
+    parent: ReadonlyTransform,
+    child: ReadonlyTransform
+  ): MutableTransform {
+    const result = create()
+    multiplyToRef(parent, child, result)
+    return result
+  }
+
+  /**
+   * Sets the given transform "result" with the transform that applies the child transform and then the parent one
+   * @param parent - defines the parent transform
+   * @param child - defines the child transform, relative to the parent
+   * @param result - defines the target transform
+   */
+  export function multiplyToRef(
+    parent: ReadonlyTransform,
+    child: ReadonlyTransform,
+    result: MutableTransform
+  ): void {
+    const position = transformPoint(parent, child.position)
+    const rotation = Quaternion.multiply(parent.rotation, child.rotation)
+    Vector3.multiplyToRef(parent.scale, child.scale, result.scale)
+    Vector3.copyFrom(position, result.position)
+    Quaternion.copyFrom(rotation, result.rotation)
+  }
+
+  /**
+   * Returns a new transform that undoes the given one.
+   * As a transform cannot shear, it is only exact when the scale is uniform, use `Matrix.invert` with `toMatrix` otherwise
+   * @param transform - defines the source transform
+   * @returns the new transform
+   */
+  export function inverse(transform: ReadonlyTransform): MutableTransform {
+    const result = create()
+    inverseToRef(transform, result)
+    return result
+  }
+
+  /**
+   * Sets the given transform "result" with the transform that undoes the given one
+   * @param transform - defines the source transform
+   * @param result - defines the target transform
+   */
+  export function inverseToRef(
+    transform: ReadonlyTransform,
+    result: MutableTransform
+  ): void {
+    // the new position is where the inverse moves the origin
+    const position = inverseTransformPoint(transform, Vector3.Zero())
+    Quaternion.conjugateToRef(transform.rotation, result.rotation)
+    Vector3.divideToRef(Vector3.One(), transform.scale, result.scale)
+    Vector3.copyFrom(position, result.position)
+  }
+
+  /**
+   * Returns a new Vector3 with the point transformed from the local space of the transform to its parent space
+   * @param transform - defines the transform
+   * @param point - defines the point in local space
+   * @returns the new Vector3
+   */
+  export function transformPoint(
+    transform: ReadonlyTransform,
+    point: Vector3.ReadonlyVector3
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    transformPointToRef(transform, point, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the point transformed from the local space of the transform to its parent space
+   * @param transform - defines the transform
+   * @param point - defines the point in local space
+   * @param result - defines the target vector
+   */
+  export function transformPointToRef(
+    transform: ReadonlyTransform,
+    point: Vector3.ReadonlyVector3,
+    result: Vector3.MutableVector3
+  ): void {
+    Vector3.multiplyToRef(point, transform.scale, result)
+    Vector3.rotateToRef(result, transform.rotation, result)
+    Vector3.addToRef(result, transform.position, result)
+  }
+
+  /**
+   * Returns a new Vector3 with the direction rotated from the local space of the transform to its parent space.
+   * The position and the scale of the transform are not used, so the length of the direction is kept
+   * @param transform - defines the transform
+   * @param direction - defines the direction in local space
+   * @returns the new Vector3
+   */
+  export function transformDirection(
+    transform: ReadonlyTransform,
+    direction: Vector3.ReadonlyVector3
+  ): Vector3.MutableVector3 {
+    return Vector3.rotate(direction, transform.rotation)
+  }
+
+  /**
+   * Sets the given vector "result" with the direction rotated from the local space of the transform to its parent space
+   * @param transform - defines the transform
+   * @param direction - defines the direction in local space
+   * @param result - defines the target vector
+   */
+  export function transformDirectionToRef(
+    transform: ReadonlyTransform,
+    direction: Vector3.ReadonlyVector3,
+    result: Vector3.MutableVector3
+  ): void {
+    Vector3.rotateToRef(direction, transform.rotation, result)
+  }
+
+  /**
+   * Returns a new Vector3 with the point transformed from the parent space of the transform to its local space,
+   * the inverse of `transformPoint`
+   * @param transform - defines the transform
+   * @param point - defines the point in parent space
+   * @returns the new Vector3
+   */
+  export function inverseTransformPoint(
+    transform: ReadonlyTransform,
+    point: Vector3.ReadonlyVector3
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    inverseTransformPointToRef(transform, point, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the point transformed from the parent space of the transform to its local space
+   * @param transform - defines the transform
+   * @param point - defines the point in parent space
+   * @param result - defines the target vector
+   */
+  export function inverseTransformPointToRef(
+    transform: ReadonlyTransform,
+    point: Vector3.ReadonlyVector3,
+    result: Vector3.MutableVector3
+  ): void {
+    Vector3.subtractToRef(point, transform.position, result)
+    Vector3.rotateToRef(
+      result,
+      Quaternion.conjugate(transform.rotation),
+      result
+    )
+    Vector3.divideToRef(result, transform.scale, result)
+  }
+
+  /**
+   * Returns a new transform between the start and the end ones: the position and the scale are linearly interpolated,
+   * the rotation is spherically interpolated
+   * @param start - defines the start value
+   * @param end - defines the end value
+   * @param amount - defines the gradient to use (between 0 and 1)
+   * @returns the new transform
+   */
+  export function lerp(
+    start: ReadonlyTransform,
+    end: ReadonlyTransform,
+    amount: number
+  ): MutableTransform {
+    const result = create()
+    lerpToRef(start, end, amount, result)
+    return result
+  }
+
+  /**
+   * Sets the given transform "result" with the interpolation between the start and the end transforms
+   * @param start - defines the start value
+   * @param end - defines the end value
+   * @param amount - defines the gradient to use (between 0 and 1)
+   * @param result - defines the target transform
+   */
+  export function lerpToRef(
+    start: ReadonlyTransform,
+    end: ReadonlyTransform,
+    amount: number,
+    result: MutableTransform
+  ): void {
+    Vector3.lerpToRef(start.position, end.position, amount, result.position)
+    Quaternion.slerpToRef(start.rotation, end.rotation, amount, result.rotation)
+    Vector3.lerpToRef(start.scale, end.scale, amount, result.scale)
+  }
+
+  /**
+   * Returns a new transform with the rotation changed so the forward axis of the transform points to the target
+   * @param transform - defines the source transform
+   * @param target - defines the point to look at, in the parent space
+   * @param up - defines the up direction, Vector3.Up() by default
+   * @returns the new transform
+   */
+  export function lookAt(
+    transform: ReadonlyTransform,
+    target: Vector3.ReadonlyVector3,
+    up: Vector3.ReadonlyVector3 = Vector3.Up()
+  ): MutableTransform {
+    const result = clone(transform)
+    lookAtToRef(transform, target, up, result)
+    return result
+  }
+
+  /**
+   * Sets the given transform "result" with the source transform whose forward axis points to the target.
+   * If the target is at the position of the transform, the rotation is kept
+   * @param transform - defines the source transform
+   * @param target - defines the point to look at, in the parent space
+   * @param up - defines the up direction
+   * @param result - defines the target transform
+   */
+  export function lookAtToRef(
+    transform: ReadonlyTransform,
+    target: Vector3.ReadonlyVector3,
+    up: Vector3.ReadonlyVector3,
+    result: MutableTransform
+  ): void {
+    const forward = Vector3.subtract(target, transform.position)
+    const rotation =
+      Vector3.lengthSquared(forward) === 0
+        ? transform.rotation
+        : Quaternion.lookRotation(forward, up)
+    copyFrom(transform, result)
+    Quaternion.copyFrom(rotation, result.rotation)
+  }
+}
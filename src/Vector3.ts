@@ -1,7 +1,8 @@
-import { Epsilon, FloatArray } from './types'
+import { Epsilon, FloatArray, Viewport } from './types'
 import { Quaternion } from './Quaternion'
 import { Matrix } from './Matrix'
 import { Scalar } from './Scalar'
+import { Random } from './Random'
 
 /**
  * @public
@@ -720,6 +721,107 @@ export namespace Vector3 {
     result.z = x * m[2] + y * m[6] + z * m[10]
   }
 
+  /**
+   * Projects a point from world space to screen space.
+   * The same code works with left-handed and right-handed projections (e.g. `perspectiveFovLH` or `PerspectiveFovRH`)
+   * @param point - defines the point to project
+   * @param world - defines the world matrix of the point (use `Matrix.Identity()` if the point is already in world space)
+   * @param view - defines the view matrix of the camera
+   * @param projection - defines the projection matrix of the camera
+   * @param viewport - defines the screen viewport
+   * @returns a new Vector3 with the screen coordinates in pixels on x and y (y goes down), and the depth from 0 (near) to 1 (far) on z
+   */
+  export function project(
+    point: ReadonlyVector3,
+    world: Matrix.ReadonlyMatrix,
+    view: Matrix.ReadonlyMatrix,
+    projection: Matrix.ReadonlyMatrix,
+    viewport: Viewport
+  ): MutableVector3 {
+    const result = Zero()
+    projectToRef(point, world, view, projection, viewport, result)
+    return result
+  }
+
+  /**
+   * Projects a point from world space to screen space and stores the result in the given vector "result"
+   * @param point - defines the point to project
+   * @param world - defines the world matrix of the point
+   * @param view - defines the view matrix of the camera
+   * @param projection - defines the projection matrix of the camera
+   * @param viewport - defines the screen viewport
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function projectToRef(
+    point: ReadonlyVector3,
+    world: Matrix.ReadonlyMatrix,
+    view: Matrix.ReadonlyMatrix,
+    projection: Matrix.ReadonlyMatrix,
+    viewport: Viewport,
+    result: MutableVector3
+  ): void {
+    const matrix = Matrix.create()
+    Matrix.multiplyToRef(world, view, matrix)
+    Matrix.multiplyToRef(matrix, projection, matrix)
+    transformCoordinatesToRef(point, matrix, result)
+
+    result.x = viewport.x + (result.x + 1) * 0.5 * viewport.width
+    result.y = viewport.y + (1 - result.y) * 0.5 * viewport.height
+    result.z = (result.z + 1) * 0.5
+  }
+
+  /**
+   * Unprojects a point from screen space to world space. This is the inverse of `project`
+   * @param source - defines the screen point, in pixels on x and y (y goes down), and the depth from 0 (near) to 1 (far) on z
+   * @param world - defines the world matrix to apply (use `Matrix.Identity()` to get the point in world space)
+   * @param view - defines the view matrix of the camera
+   * @param projection - defines the projection matrix of the camera
+   * @param viewport - defines the screen viewport
+   * @returns the new Vector3
+   */
+  export function unproject(
+    source: ReadonlyVector3,
+    world: Matrix.ReadonlyMatrix,
+    view: Matrix.ReadonlyMatrix,
+    projection: Matrix.ReadonlyMatrix,
+    viewport: Viewport
+  ): MutableVector3 {
+    const result = Zero()
+    unprojectToRef(source, world, view, projection, viewport, result)
+    return result
+  }
+
+  /**
+   * Unprojects a point from screen space to world space and stores the result in the given vector "result"
+   * @param source - defines the screen point
+   * @param world - defines the world matrix to apply
+   * @param view - defines the view matrix of the camera
+   * @param projection - defines the projection matrix of the camera
+   * @param viewport - defines the screen viewport
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function unprojectToRef(
+    source: ReadonlyVector3,
+    world: Matrix.ReadonlyMatrix,
+    view: Matrix.ReadonlyMatrix,
+    projection: Matrix.ReadonlyMatrix,
+    viewport: Viewport,
+    result: MutableVector3
+  ): void {
+    const matrix = Matrix.create()
+    Matrix.multiplyToRef(world, view, matrix)
+    Matrix.multiplyToRef(matrix, projection, matrix)
+    Matrix.invertToRef(matrix, matrix)
+
+    transformCoordinatesFromFloatsToRef(
+      ((source.x - viewport.x) / viewport.width) * 2 - 1,
+      1 - ((source.y - viewport.y) / viewport.height) * 2,
+      source.z * 2 - 1,
+      matrix,
+      result
+    )
+  }
+
   /**
    * Returns a new Vector3 located for "amount" on the CatmullRom interpolation spline defined by the vectors "value1", "value2", "value3", "value4"
    * @param value1 - defines the first control point
@@ -855,6 +957,151 @@ export namespace Vector3 {
     return create(x, y, z)
   }
 
+  /**
+   * Gradually changes a vector towards a target over time, like a critically damped spring that never overshoots.
+   * It is frame rate independent, call it every frame with the time elapsed since the previous one (see `Scalar.smoothDamp`)
+   * @param current - defines the current value
+   * @param target - defines the target value
+   * @param velocity - defines the velocity of the value, updated by each call
+   * @param smoothTime - defines the approximate time to reach the target, in seconds
+   * @param deltaTime - defines the time since the last call, in seconds
+   * @param maxSpeed - defines the max speed of the value, infinite by default
+   * @returns the new Vector3
+   */
+  export function smoothDamp(
+    current: ReadonlyVector3,
+    target: ReadonlyVector3,
+    velocity: MutableVector3,
+    smoothTime: number,
+    deltaTime: number,
+    maxSpeed: number = Infinity
+  ): MutableVector3 {
+    const result = Zero()
+    smoothDampToRef(
+      current,
+      target,
+      velocity,
+      smoothTime,
+      deltaTime,
+      maxSpeed,
+      result
+    )
+    return result
+  }
+
+  /**
+   * Gradually changes a vector towards a target over time and stores the result in the given vector "result"
+   * @param current - defines the current value
+   * @param target - defines the target value
+   * @param velocity - defines the velocity of the value, updated by each call
+   * @param smoothTime - defines the approximate time to reach the target, in seconds
+   * @param deltaTime - defines the time since the last call, in seconds
+   * @param maxSpeed - defines the max speed of the value
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function smoothDampToRef(
+    current: ReadonlyVector3,
+    target: ReadonlyVector3,
+    velocity: MutableVector3,
+    smoothTime: number,
+    deltaTime: number,
+    maxSpeed: number,
+    result: MutableVector3
+  ): void {
+    if (deltaTime <= 0) {
+      copyFrom(current, result)
+      return
+    }
+
+    // Game Programming Gems 4, chapter 1.10
+    const time = Math.max(0.0001, smoothTime)
+    const omega = 2 / time
+    const x = omega * deltaTime
+    const decay = 1 / (1 + x + 0.48 * x * x + 0.235 * x * x * x)
+
+    const change = subtract(current, target)
+    const maxChange = maxSpeed * time
+    const changeLength = length(change)
+    if (changeLength > maxChange) {
+      scaleToRef(change, maxChange / changeLength, change)
+    }
+
+    const tempX = (velocity.x + omega * change.x) * deltaTime
+    const tempY = (velocity.y + omega * change.y) * deltaTime
+    const tempZ = (velocity.z + omega * change.z) * deltaTime
+    velocity.x = (velocity.x - omega * tempX) * decay
+    velocity.y = (velocity.y - omega * tempY) * decay
+    velocity.z = (velocity.z - omega * tempZ) * decay
+
+    const resultX = current.x - change.x + (change.x + tempX) * decay
+    const resultY = current.y - change.y + (change.y + tempY) * decay
+    const resultZ = current.z - change.z + (change.z + tempZ) * decay
+
+    // prevent overshooting
+    const overshoot =
+      (target.x - current.x) * (resultX - target.x) +
+        (target.y - current.y) * (resultY - target.y) +
+        (target.z - current.z) * (resultZ - target.z) >
+      0
+    if (overshoot) {
+      copyFrom(target, result)
+      copyFromFloats(0, 0, 0, velocity)
+    } else {
+      copyFromFloats(resultX, resultY, resultZ, result)
+    }
+  }
+
+  /**
+   * Moves a vector towards a target with a damped harmonic spring, stable for any deltaTime (see `Scalar.spring`)
+   * @param current - defines the current value
+   * @param target - defines the target value, the rest position of the spring
+   * @param velocity - defines the velocity of the value, updated by each call
+   * @param config - defines the stiffness, damping and mass of the spring
+   * @param deltaTime - defines the time since the last call, in seconds
+   * @returns the new Vector3
+   */
+  export function spring(
+    current: ReadonlyVector3,
+    target: ReadonlyVector3,
+    velocity: MutableVector3,
+    config: Scalar.Spring,
+    deltaTime: number
+  ): MutableVector3 {
+    const result = Zero()
+    springToRef(current, target, velocity, config, deltaTime, result)
+    return result
+  }
+
+  /**
+   * Moves a vector towards a target with a damped harmonic spring and stores the result in the given vector "result"
+   * @param current - defines the current value
+   * @param target - defines the target value, the rest position of the spring
+   * @param velocity - defines the velocity of the value, updated by each call
+   * @param config - defines the stiffness, damping and mass of the spring
+   * @param deltaTime - defines the time since the last call, in seconds
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function springToRef(
+    current: ReadonlyVector3,
+    target: ReadonlyVector3,
+    velocity: MutableVector3,
+    config: Scalar.Spring,
+    deltaTime: number,
+    result: MutableVector3
+  ): void {
+    // the spring equation is linear, so each axis moves independently
+    const speed: Scalar.Velocity = { value: velocity.x }
+    const x = Scalar.spring(current.x, target.x, speed, config, deltaTime)
+    velocity.x = speed.value
+    speed.value = velocity.y
+    const y = Scalar.spring(current.y, target.y, speed, config, deltaTime)
+    velocity.y = speed.value
+    speed.value = velocity.z
+    const z = Scalar.spring(current.z, target.z, speed, config, deltaTime)
+    velocity.z = speed.value
+    copyFromFloats(x, y, z, result)
+  }
+
   /**
    * Gets the minimal coordinate values between two Vector3
    * @param left - defines the first operand
@@ -1283,9 +1530,14 @@ export namespace Vector3 {
 
   /**
    * Returns a new random Vector3
+   * @param generator - defines the seeded generator to draw from, `Math.random` by default
    * @returns a random Vector3
    */
-  export function Random(): MutableVector3 {
-    return create(Math.random(), Math.random(), Math.random())
+  export function Random(generator?: Random.Generator): MutableVector3 {
+    return create(
+      Scalar.randomRange(0, 1, generator),
+      Scalar.randomRange(0, 1, generator),
+      Scalar.randomRange(0, 1, generator)
+    )
   }
 }
@@ -0,0 +1,871 @@
+import { Epsilon, FloatArray } from './types'
+import { Vector3 } from './Vector3'
+import { Color4 } from './Color4'
+import { Matrix } from './Matrix'
+import { Scalar } from './Scalar'
+
+/**
+ * @public
+ * Vector4 is a type and a namespace.
+ * - The namespace contains all types and functions to operates with Vector4
+ * - The type Vector4 is an alias to Vector4.ReadonlyVector4
+ * ```
+ *
+ * // Namespace usage example
+ * const clip = Vector4.transform(Vector4.fromVector3(position, 1), viewProjection)
+ *
+ * // Type usage example
+ * const readonlyVector: Vector4 = Vector4.Zero()
+ * readonlyVector.w = 0.1 // this FAILS
+ *
+ * // For mutable usage, use `Vector4.Mutable`
+ * const vector: Vector4.Mutable = Vector4.One()
+ * vector.w = 3.0 // this WORKS
+ * ```
+ */
+export type Vector4 = Vector4.ReadonlyVector4
+
+/**
+ * @public
+ * Vector4 is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with Vector4
+ * const clip = Vector4.transform(Vector4.fromVector3(position, 1), viewProjection)
+ * // The type Vector4 is an alias to Vector4.ReadonlyVector4
+ * const readonlyVector: Vector4 = Vector4.Zero()
+ * readonlyVector.w = 0.1 // this FAILS
+ *
+ * // For mutable usage, use `Vector4.Mutable`
+ * const vector: Vector4.Mutable = Vector4.One()
+ * vector.w = 3.0 // this WORKS
+ * ```
+ */
+export namespace Vector4 {
+  /**
+   * @public
+   * For external use, type with `Vector4`, e.g. `const zero: Vector4 = Vector4.Zero()`.
+   * For mutable typing, use `Vector4.Mutable`, e.g. `const one: Vector4.Mutable = Vector4.One()`.
+   */
+  export type ReadonlyVector4 = {
+    readonly x: number
+    readonly y: number
+    readonly z: number
+    readonly w: number
+  }
+
+  /**
+   * @public
+   * For external usage, type with `Vector4`, e.g. `const zero: Vector4 = Vector4.Zero()`.
+   * For mutable typing, use `Vector4.Mutable`, e.g. `const one: Vector4.Mutable = Vector4.One()`.
+   */
+  export type MutableVector4 = {
+    x: number
+    y: number
+    z: number
+    w: number
+  }
+
+  /**
+   * @public
+   * Type with `Vector4` for readonly usage, e.g. `const zero: Vector4 = Vector4.Zero()`.
+   * For mutable, use `Vector4.Mutable`, e.g. `const one: Vector4.Mutable = Vector4.One()`.
+   */
+  export type Mutable = MutableVector4
+
+  /**
+   * Creates a new Vector4 object from the given x, y, z, w (floats) coordinates.
+   * @param x - defines the first coordinates (on X axis)
+   * @param y - defines the second coordinates (on Y axis)
+   * @param z - defines the third coordinates (on Z axis)
+   * @param w - defines the fourth coordinates (on W axis)
+   */
+  export function create(
+    /**
+     * Defines the first coordinates (on X axis)
+     */
+    x: number = 0,
+    /**
+     * Defines the second coordinates (on Y axis)
+     */
+    y: number = 0,
+    /**
+     * Defines the third coordinates (on Z axis)
+     */
+    z: number = 0,
+    /**
+     * Defines the fourth coordinates (on W axis)
+     */
+    w: number = 0
+  ): MutableVector4 {
+    return { x, y, z, w }
+  }
+
+  /**
+   * Returns a new Vector4 as the result of the addition of the two given vectors.
+   * @param vector1 - the first vector
+   * @param vector2 - the second vector
+   * @returns the resulting vector
+   */
+  export function add(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4
+  ): MutableVector4 {
+    return {
+      x: vector1.x + vector2.x,
+      y: vector1.y + vector2.y,
+      z: vector1.z + vector2.z,
+      w: vector1.w + vector2.w
+    }
+  }
+
+  /**
+   * Performs addition between vectorA and vectorB and stores the result into result
+   * @param vectorA - the first vector for the addition operation
+   * @param vectorB - the second vector for the addition operation
+   * @param result - the vector where the result of the addition is stored
+   */
+  export function addToRef(
+    vectorA: ReadonlyVector4,
+    vectorB: ReadonlyVector4,
+    result: MutableVector4
+  ): void {
+    result.x = vectorA.x + vectorB.x
+    result.y = vectorA.y + vectorB.y
+    result.z = vectorA.z + vectorB.z
+    result.w = vectorA.w + vectorB.w
+  }
+
+  /**
+   * Returns a new Vector4 as the result of the substraction of the two given vectors.
+   * @returns the resulting vector
+   */
+  export function subtract(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4
+  ): MutableVector4 {
+    return {
+      x: vector1.x - vector2.x,
+      y: vector1.y - vector2.y,
+      z: vector1.z - vector2.z,
+      w: vector1.w - vector2.w
+    }
+  }
+
+  /**
+   * Performs substraction between vectorA and vectorB and stores the result into result
+   * @param vectorA - the first vector for the substraction operation
+   * @param vectorB - the second vector for the substraction operation
+   * @param result - the vector where the result of the substraction is stored
+   */
+  export function subtractToRef(
+    vectorA: ReadonlyVector4,
+    vectorB: ReadonlyVector4,
+    result: MutableVector4
+  ): void {
+    result.x = vectorA.x - vectorB.x
+    result.y = vectorA.y - vectorB.y
+    result.z = vectorA.z - vectorB.z
+    result.w = vectorA.w - vectorB.w
+  }
+
+  /**
+   * Subtracts the given floats from the current Vector4 coordinates and set the given vector "result" with this result
+   * @param x - defines the x coordinate of the operand
+   * @param y - defines the y coordinate of the operand
+   * @param z - defines the z coordinate of the operand
+   * @param w - defines the w coordinate of the operand
+   * @param result - defines the Vector4 object where to store the result
+   */
+  export function subtractFromFloatsToRef(
+    vector1: ReadonlyVector4,
+    x: number,
+    y: number,
+    z: number,
+    w: number,
+    result: MutableVector4
+  ): void {
+    result.x = vector1.x - x
+    result.y = vector1.y - y
+    result.z = vector1.z - z
+    result.w = vector1.w - w
+  }
+
+  /**
+   * Returns a new Vector4 with the other sign
+   * @returns the resulting vector
+   */
+  export function negate(value: ReadonlyVector4): MutableVector4 {
+    return { x: -value.x, y: -value.y, z: -value.z, w: -value.w }
+  }
+
+  /**
+   * Sets the given vector "result" with the other sign of the given vector
+   * @param value - defines the source vector
+   * @param result - defines the Vector4 where to store the result
+   */
+  export function negateToRef(
+    value: ReadonlyVector4,
+    result: MutableVector4
+  ): void {
+    result.x = -value.x
+    result.y = -value.y
+    result.z = -value.z
+    result.w = -value.w
+  }
+
+  /**
+   * Copy source into dest
+   *
+   */
+  export function copyFrom(
+    source: ReadonlyVector4,
+    dest: MutableVector4
+  ): void {
+    dest.x = source.x
+    dest.y = source.y
+    dest.z = source.z
+    dest.w = source.w
+  }
+
+  /**
+   * Sets the given vector "dest" with the given floats.
+   * @param x - defines the x coordinate of the source
+   * @param y - defines the y coordinate of the source
+   * @param z - defines the z coordinate of the source
+   * @param w - defines the w coordinate of the source
+   * @param dest - defines the Vector4 where to store the result
+   */
+  export function copyFromFloats(
+    x: number,
+    y: number,
+    z: number,
+    w: number,
+    dest: MutableVector4
+  ): void {
+    dest.x = x
+    dest.y = y
+    dest.z = z
+    dest.w = w
+  }
+
+  /**
+   * Returns a new Vector4 with the same value
+   * @returns the resulting vector
+   */
+  export function clone(source: ReadonlyVector4): MutableVector4 {
+    return create(source.x, source.y, source.z, source.w)
+  }
+
+  /**
+   * Returns a new Vector4 set from the index "offset" of the given array
+   * @param array - defines the source array
+   * @param offset - defines the offset in the source array
+   * @returns the new Vector4
+   */
+  export function fromArray(
+    array: FloatArray,
+    offset: number = 0
+  ): MutableVector4 {
+    return create(
+      array[offset],
+      array[offset + 1],
+      array[offset + 2],
+      array[offset + 3]
+    )
+  }
+
+  /**
+   * Sets the given vector "result" with the element values from the index "offset" of the given array
+   * @param array - defines the source array
+   * @param offset - defines the offset in the source array
+   * @param result - defines the Vector4 where to store the result
+   */
+  export function fromArrayToRef(
+    array: FloatArray,
+    offset: number,
+    result: MutableVector4
+  ): void {
+    result.x = array[offset]
+    result.y = array[offset + 1]
+    result.z = array[offset + 2]
+    result.w = array[offset + 3]
+  }
+
+  /**
+   * Populates the given array or FloatArray from the given index with the given vector coordinates
+   * @param vector - defines the source vector
+   * @param array - defines destination array
+   * @param index - defines the offset in the destination array
+   */
+  export function toArray(
+    vector: ReadonlyVector4,
+    array: FloatArray,
+    index: number = 0
+  ): void {
+    array[index] = vector.x
+    array[index + 1] = vector.y
+    array[index + 2] = vector.z
+    array[index + 3] = vector.w
+  }
+
+  /**
+   * Returns a new array with the 4 elements : [x, y, z, w]
+   * @returns a new array
+   */
+  export function asArray(vector: ReadonlyVector4): number[] {
+    return [vector.x, vector.y, vector.z, vector.w]
+  }
+
+  /**
+   * Creates a new Vector4 from the coordinates of a Vector3 and the given w
+   * @param vector - defines the source Vector3
+   * @param w - defines the w coordinate (1 for points, 0 for directions)
+   * @returns the new Vector4
+   */
+  export function fromVector3(
+    vector: Vector3.ReadonlyVector3,
+    w: number
+  ): MutableVector4 {
+    return create(vector.x, vector.y, vector.z, w)
+  }
+
+  /**
+   * Creates a new Vector4 from the (r, g, b, a) components of a Color4
+   * @param color - defines the source color
+   * @returns the new Vector4
+   */
+  export function fromColor4(color: Color4.ReadonlyColor4): MutableVector4 {
+    return create(color.r, color.g, color.b, color.a)
+  }
+
+  /**
+   * Returns a new Vector3 from the x, y and z coordinates divided by w (perspective divide)
+   * @param vector - defines the source vector
+   * @returns the new Vector3
+   */
+  export function toVector3(vector: ReadonlyVector4): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    toVector3ToRef(vector, result)
+    return result
+  }
+
+  /**
+   * Sets the given Vector3 "result" with the x, y and z coordinates divided by w (perspective divide)
+   * @param vector - defines the source vector
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function toVector3ToRef(
+    vector: ReadonlyVector4,
+    result: Vector3.MutableVector3
+  ): void {
+    const invW = 1 / vector.w
+    result.x = vector.x * invW
+    result.y = vector.y * invW
+    result.z = vector.z * invW
+  }
+
+  /**
+   * Gets the length of the Vector4
+   * @returns the length of the Vector4
+   */
+  export function length(vector: ReadonlyVector4): number {
+    return Math.sqrt(lengthSquared(vector))
+  }
+
+  /**
+   * Gets the squared length of the Vector4
+   * @returns squared length of the Vector4
+   */
+  export function lengthSquared(vector: ReadonlyVector4): number {
+    return (
+      vector.x * vector.x +
+      vector.y * vector.y +
+      vector.z * vector.z +
+      vector.w * vector.w
+    )
+  }
+
+  /**
+   * Returns a new Vector4 set with the current Vector4 coordinates multiplied by the float "scale"
+   * @param scale - defines the multiplier factor
+   * @returns a new Vector4
+   */
+  export function scale(
+    vector: ReadonlyVector4,
+    scale: number
+  ): MutableVector4 {
+    return create(
+      vector.x * scale,
+      vector.y * scale,
+      vector.z * scale,
+      vector.w * scale
+    )
+  }
+
+  /**
+   * Multiplies the current Vector4 coordinates by the float "scale" and stores the result in the given vector "result" coordinates
+   * @param scale - defines the multiplier factor
+   * @param result - defines the Vector4 object where to store the result
+   */
+  export function scaleToRef(
+    vector: ReadonlyVector4,
+    scale: number,
+    result: MutableVector4
+  ): void {
+    result.x = vector.x * scale
+    result.y = vector.y * scale
+    result.z = vector.z * scale
+    result.w = vector.w * scale
+  }
+
+  /**
+   * Returns a new Vector4 normalized from the given one
+   * @returns the normalized Vector4
+   */
+  export function normalize(vector: ReadonlyVector4): MutableVector4 {
+    const result = create()
+    normalizeToRef(vector, result)
+    return result
+  }
+
+  /**
+   * Normalize the current Vector4 with the given input length and stores the result in the given vector "result".
+   * Please note that this is an in place operation.
+   * @param vector - defines the source vector
+   * @param result - defines the Vector4 where to store the result
+   */
+  export function normalizeToRef(
+    vector: ReadonlyVector4,
+    result: MutableVector4
+  ): void {
+    const len = length(vector)
+    if (len === 0 || len === 1.0) {
+      copyFrom(vector, result)
+      return
+    }
+    scaleToRef(vector, 1.0 / len, result)
+  }
+
+  /**
+   * Returns the dot product (float) between the vectors "left" and "right"
+   * @param left - defines the left operand
+   * @param right - defines the right operand
+   * @returns the dot product
+   */
+  export function dot(left: ReadonlyVector4, right: ReadonlyVector4): number {
+    return (
+      left.x * right.x + left.y * right.y + left.z * right.z + left.w * right.w
+    )
+  }
+
+  /**
+   * Returns a new Vector4 located for "amount" (float) on the linear interpolation between the vectors "start" and "end"
+   * @param start - defines the start value
+   * @param end - defines the end value
+   * @param amount - max defines amount between both (between 0 and 1)
+   * @returns the new Vector4
+   */
+  export function lerp(
+    start: ReadonlyVector4,
+    end: ReadonlyVector4,
+    amount: number
+  ): MutableVector4 {
+    const result = create()
+    lerpToRef(start, end, amount, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the result of the linear interpolation from the vector "start" for "amount" to the vector "end"
+   * @param start - defines the start value
+   * @param end - defines the end value
+   * @param amount - max defines amount between both (between 0 and 1)
+   * @param result - defines the Vector4 where to store the result
+   */
+  export function lerpToRef(
+    start: ReadonlyVector4,
+    end: ReadonlyVector4,
+    amount: number,
+    result: MutableVector4
+  ): void {
+    result.x = start.x + (end.x - start.x) * amount
+    result.y = start.y + (end.y - start.y) * amount
+    result.z = start.z + (end.z - start.z) * amount
+    result.w = start.w + (end.w - start.w) * amount
+  }
+
+  /**
+   * Returns a new Vector4 set with the result of the transformation by the given matrix of the given vector.
+   * All four coordinates are transformed and no perspective divide is applied, use `toVector3` to apply it
+   * @param vector - defines the Vector4 to transform
+   * @param transformation - defines the transformation matrix
+   * @returns the transformed Vector4
+   */
+  export function transform(
+    vector: ReadonlyVector4,
+    transformation: Matrix.ReadonlyMatrix
+  ): MutableVector4 {
+    const result = create()
+    transformToRef(vector, transformation, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the result of the transformation by the given matrix of the given vector
+   * @param vector - defines the Vector4 to transform
+   * @param transformation - defines the transformation matrix
+   * @param result - defines the Vector4 where to store the result
+   */
+  export function transformToRef(
+    vector: ReadonlyVector4,
+    transformation: Matrix.ReadonlyMatrix,
+    result: MutableVector4
+  ): void {
+    transformFromFloatsToRef(
+      vector.x,
+      vector.y,
+      vector.z,
+      vector.w,
+      transformation,
+      result
+    )
+  }
+
+  /**
+   * Sets the given vector "result" with the result of the transformation by the given matrix of the given floats (x, y, z, w)
+   * @param x - define the x coordinate of the source vector
+   * @param y - define the y coordinate of the source vector
+   * @param z - define the z coordinate of the source vector
+   * @param w - define the w coordinate of the source vector
+   * @param transformation - defines the transformation matrix
+   * @param result - defines the Vector4 where to store the result
+   */
+  export function transformFromFloatsToRef(
+    x: number,
+    y: number,
+    z: number,
+    w: number,
+    transformation: Matrix.ReadonlyMatrix,
+    result: MutableVector4
+  ): void {
+    const m = transformation._m
+    result.x = x * m[0] + y * m[4] + z * m[8] + w * m[12]
+    result.y = x * m[1] + y * m[5] + z * m[9] + w * m[13]
+    result.z = x * m[2] + y * m[6] + z * m[10] + w * m[14]
+    result.w = x * m[3] + y * m[7] + z * m[11] + w * m[15]
+  }
+
+  /**
+   * Returns a new Vector4 set with the coordinates of "value", if the vector "value" is in the cube defined by the vectors "min" and "max"
+   * If a coordinate value of "value" is lower than one of the "min" coordinate, then this "value" coordinate is set with the "min" one
+   * If a coordinate value of "value" is greater than one of the "max" coordinate, then this "value" coordinate is set with the "max" one
+   * @param value - defines the current value
+   * @param min - defines the lower range value
+   * @param max - defines the upper range value
+   * @returns the new Vector4
+   */
+  export function clamp(
+    value: ReadonlyVector4,
+    min: ReadonlyVector4,
+    max: ReadonlyVector4
+  ): MutableVector4 {
+    const result = create()
+    clampToRef(value, min, max, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the coordinates of "value", clamped between the vectors "min" and "max"
+   * @param value - defines the current value
+   * @param min - defines the lower range value
+   * @param max - defines the upper range value
+   * @param result - defines the Vector4 where to store the result
+   */
+  export function clampToRef(
+    value: ReadonlyVector4,
+    min: ReadonlyVector4,
+    max: ReadonlyVector4,
+    result: MutableVector4
+  ): void {
+    result.x = Scalar.clamp(value.x, min.x, max.x)
+    result.y = Scalar.clamp(value.y, min.y, max.y)
+    result.z = Scalar.clamp(value.z, min.z, max.z)
+    result.w = Scalar.clamp(value.w, min.w, max.w)
+  }
+
+  /**
+   * Gets a new Vector4 from the given vectors with the minimal coordinate values
+   * @param left - defines the first operand
+   * @param right - defines the second operand
+   * @returns the new Vector4
+   */
+  export function minimize(
+    left: ReadonlyVector4,
+    right: ReadonlyVector4
+  ): MutableVector4 {
+    return create(
+      Math.min(left.x, right.x),
+      Math.min(left.y, right.y),
+      Math.min(left.z, right.z),
+      Math.min(left.w, right.w)
+    )
+  }
+
+  /**
+   * Gets a new Vector4 from the given vectors with the maximal coordinate values
+   * @param left - defines the first operand
+   * @param right - defines the second operand
+   * @returns the new Vector4
+   */
+  export function maximize(
+    left: ReadonlyVector4,
+    right: ReadonlyVector4
+  ): MutableVector4 {
+    return create(
+      Math.max(left.x, right.x),
+      Math.max(left.y, right.y),
+      Math.max(left.z, right.z),
+      Math.max(left.w, right.w)
+    )
+  }
+
+  /**
+   * Returns the distance between the vectors "value1" and "value2"
+   * @param value1 - defines the first operand
+   * @param value2 - defines the second operand
+   * @returns the distance
+   */
+  export function distance(
+    value1: ReadonlyVector4,
+    value2: ReadonlyVector4
+  ): number {
+    return Math.sqrt(distanceSquared(value1, value2))
+  }
+
+  /**
+   * Returns the squared distance between the vectors "value1" and "value2"
+   * @param value1 - defines the first operand
+   * @param value2 - defines the second operand
+   * @returns the squared distance
+   */
+  export function distanceSquared(
+    value1: ReadonlyVector4,
+    value2: ReadonlyVector4
+  ): number {
+    const x = value1.x - value2.x
+    const y = value1.y - value2.y
+    const z = value1.z - value2.z
+    const w = value1.w - value2.w
+
+    return x * x + y * y + z * z + w * w
+  }
+
+  /**
+   * Returns a new Vector4 located at the center between "value1" and "value2"
+   * @param value1 - defines the first operand
+   * @param value2 - defines the second operand
+   * @returns the new Vector4
+   */
+  export function center(
+    value1: ReadonlyVector4,
+    value2: ReadonlyVector4
+  ): MutableVector4 {
+    return scale(add(value1, value2), 0.5)
+  }
+
+  /**
+   * Creates a string representation of the Vector4
+   * @returns a string with the Vector4 coordinates.
+   */
+  export function toString(vector: ReadonlyVector4): string {
+    return `(${vector.x}, ${vector.y}, ${vector.z}, ${vector.w})`
+  }
+
+  /**
+   * Creates the Vector4 hash code
+   * @returns a number which tends to be unique between Vector4 instances
+   */
+  export function getHashCode(vector: ReadonlyVector4): number {
+    let hash = vector.x || 0
+    hash = (hash * 397) ^ (vector.y || 0)
+    hash = (hash * 397) ^ (vector.z || 0)
+    hash = (hash * 397) ^ (vector.w || 0)
+    return hash
+  }
+
+  /**
+   * Returns true if the vector1 and the vector2 coordinates are strictly equal
+   * @param vector1 - defines the first operand
+   * @param vector2 - defines the second operand
+   * @returns true if both vectors are equals
+   */
+  export function equals(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4
+  ): boolean {
+    return (
+      vector1.x === vector2.x &&
+      vector1.y === vector2.y &&
+      vector1.z === vector2.z &&
+      vector1.w === vector2.w
+    )
+  }
+
+  /**
+   * Returns true if the current Vector4 and the given vector coordinates are distant less than epsilon
+   * @param otherVector - defines the second operand
+   * @param epsilon - defines the minimal distance to define values as equals
+   * @returns true if both vectors are distant less than epsilon
+   */
+  export function equalsWithEpsilon(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4,
+    epsilon: number = Epsilon
+  ): boolean {
+    return (
+      Scalar.withinEpsilon(vector1.x, vector2.x, epsilon) &&
+      Scalar.withinEpsilon(vector1.y, vector2.y, epsilon) &&
+      Scalar.withinEpsilon(vector1.z, vector2.z, epsilon) &&
+      Scalar.withinEpsilon(vector1.w, vector2.w, epsilon)
+    )
+  }
+
+  /**
+   * Returns true if the current Vector4 coordinates equals the given floats
+   * @param x - defines the x coordinate of the operand
+   * @param y - defines the y coordinate of the operand
+   * @param z - defines the z coordinate of the operand
+   * @param w - defines the w coordinate of the operand
+   * @returns true if both vectors are equals
+   */
+  export function equalsToFloats(
+    vector: ReadonlyVector4,
+    x: number,
+    y: number,
+    z: number,
+    w: number
+  ): boolean {
+    return vector.x === x && vector.y === y && vector.z === z && vector.w === w
+  }
+
+  /**
+   * Returns a new Vector4, result of the multiplication of vector1 by the vector2
+   * @param vector1 - defines the first operand
+   * @param vector2 - defines the second operand
+   * @returns the new Vector4
+   */
+  export function multiply(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4
+  ): MutableVector4 {
+    const result = create()
+    multiplyToRef(vector1, vector2, result)
+    return result
+  }
+
+  /**
+   * Multiplies the current Vector4 by the given one and stores the result in the given vector "result"
+   * @param otherVector - defines the second operand
+   * @param result - defines the Vector4 object where to store the result
+   */
+  export function multiplyToRef(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4,
+    result: MutableVector4
+  ): void {
+    result.x = vector1.x * vector2.x
+    result.y = vector1.y * vector2.y
+    result.z = vector1.z * vector2.z
+    result.w = vector1.w * vector2.w
+  }
+
+  /**
+   * Returns a new Vector4 set with the result of the mulliplication of the current Vector4 coordinates by the given floats
+   * @param x - defines the x coordinate of the operand
+   * @param y - defines the y coordinate of the operand
+   * @param z - defines the z coordinate of the operand
+   * @param w - defines the w coordinate of the operand
+   * @returns the new Vector4
+   */
+  export function multiplyByFloats(
+    vector1: ReadonlyVector4,
+    x: number,
+    y: number,
+    z: number,
+    w: number
+  ): MutableVector4 {
+    return create(vector1.x * x, vector1.y * y, vector1.z * z, vector1.w * w)
+  }
+
+  /**
+   * Returns a new Vector4 set with the result of the division of the current Vector4 coordinates by the given ones
+   * @param otherVector - defines the second operand
+   * @returns the new Vector4
+   */
+  export function divide(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4
+  ): MutableVector4 {
+    const result = create()
+    divideToRef(vector1, vector2, result)
+    return result
+  }
+
+  /**
+   * Divides the current Vector4 coordinates by the given ones and stores the result in the given vector "result"
+   * @param otherVector - defines the second operand
+   * @param result - defines the Vector4 object where to store the result
+   */
+  export function divideToRef(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4,
+    result: MutableVector4
+  ): void {
+    result.x = vector1.x / vector2.x
+    result.y = vector1.y / vector2.y
+    result.z = vector1.z / vector2.z
+    result.w = vector1.w / vector2.w
+  }
+
+  /**
+   * Gets a new Vector4 from vector1 floored values
+   * @returns a new Vector4
+   */
+  export function floor(vector1: ReadonlyVector4): MutableVector4 {
+    return create(
+      Math.floor(vector1.x),
+      Math.floor(vector1.y),
+      Math.floor(vector1.z),
+      Math.floor(vector1.w)
+    )
+  }
+
+  /**
+   * Gets a new Vector4 from vector1 fractional values
+   * @returns a new Vector4
+   */
+  export function fract(vector1: ReadonlyVector4): MutableVector4 {
+    return create(
+      vector1.x - Math.floor(vector1.x),
+      vector1.y - Math.floor(vector1.y),
+      vector1.z - Math.floor(vector1.z),
+      vector1.w - Math.floor(vector1.w)
+    )
+  }
+
+  /**
+   * Returns a new Vector4 set to (0.0, 0.0, 0.0, 0.0)
+   * @returns a new empty Vector4
+   */
+  export function Zero(): MutableVector4 {
+    return create(0.0, 0.0, 0.0, 0.0)
+  }
+
+  /**
+   * Returns a new Vector4 set to (1.0, 1.0, 1.0, 1.0)
+   * @returns a new unit Vector4
+   */
+  export function One(): MutableVector4 {
+    return create(1.0, 1.0, 1.0, 1.0)
+  }
+}
@@ -1,8 +1,25 @@
 export * from './Quaternion'
+export * from './DualQuaternion'
+export * from './RotationSpline'
+export * from './Curve'
 export * from './Vector2'
 export * from './Vector3'
+export * from './Vector4'
 export * from './Color3'
 export * from './Color4'
+export * from './Matrix'
+export * from './Matrix3'
+export * from './Plane'
+export * from './AABB'
+export * from './BoundingSphere'
+export * from './Frustum'
+export * from './Ray'
+export * from './Transform'
+export * from './SceneGraph'
+export * from './Parcel'
 export * from './Scalar'
+export * from './Random'
+export * from './Noise'
+export * from './Easing'
 export * from './types'
 export * from './index'
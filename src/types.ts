@@ -30,3 +30,51 @@ export const DEG2RAD = Math.PI / 180
  * @public
  */
 export const RAD2DEG = 360 / (Math.PI * 2)
+
+/**
+ * Rectangle of the screen where a camera renders, in pixels.
+ * The origin is the top-left corner of the screen
+ * @public
+ */
+export type Viewport = {
+  /** left coordinate of the viewport */
+  x: number
+  /** top coordinate of the viewport */
+  y: number
+  /** width of the viewport */
+  width: number
+  /** height of the viewport */
+  height: number
+}
+
+/**
+ * Order of the rotations of an Euler angle set, as intrinsic rotations: 'YXZ' rotates around Y,
+ * then around the rotated X and finally around the twice rotated Z. It is the same rotation as
+ * the extrinsic (fixed axes) rotations applied in the reverse order: Z, then X, then Y.
+ * The first six are Tait-Bryan orders, the last six are proper Euler orders.
+ * @public
+ */
+export type EulerOrder =
+  | 'XYZ'
+  | 'XZY'
+  | 'YXZ'
+  | 'YZX'
+  | 'ZXY'
+  | 'ZYX'
+  | 'XYX'
+  | 'XZX'
+  | 'YXY'
+  | 'YZY'
+  | 'ZXZ'
+  | 'ZYZ'
+
+/**
+ * Options of the Euler angle conversions
+ * @public
+ */
+export type EulerOptions = {
+  /** unit of the angles, 'degrees' by default */
+  unit?: 'degrees' | 'radians'
+  /** when true, the angles are returned in the (-180, 180] range instead of [0, 360). False by default */
+  signed?: boolean
+}
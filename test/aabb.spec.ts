@@ -0,0 +1,131 @@
+import { AABB, Matrix, Quaternion, Vector3 } from '../src'
+
+describe('ECS AABB', () => {
+  it('AABB.fromCenterAndExtents', () => {
+    const aabb = AABB.fromCenterAndExtents(
+      Vector3.create(1, 2, 3),
+      Vector3.create(1, 1, 2)
+    )
+    expect(Vector3.equals(aabb.min, Vector3.create(0, 1, 1))).toBe(true)
+    expect(Vector3.equals(aabb.max, Vector3.create(2, 3, 5))).toBe(true)
+    expect(Vector3.equals(AABB.getCenter(aabb), Vector3.create(1, 2, 3))).toBe(
+      true
+    )
+    expect(Vector3.equals(AABB.getExtents(aabb), Vector3.create(1, 1, 2))).toBe(
+      true
+    )
+  })
+
+  it('AABB.fromPoints', () => {
+    const aabb = AABB.fromPoints([
+      Vector3.create(1, -2, 3),
+      Vector3.create(-1, 5, 0),
+      Vector3.create(0, 0, 7)
+    ])
+    expect(Vector3.equals(aabb.min, Vector3.create(-1, -2, 0))).toBe(true)
+    expect(Vector3.equals(aabb.max, Vector3.create(1, 5, 7))).toBe(true)
+    expect(AABB.isEmpty(AABB.fromPoints([]))).toBe(true)
+  })
+
+  it('AABB.fromFloatArray with offset and stride', () => {
+    const array = [99, 1, 2, 3, 0, 0, -1, -2, -3, 0, 0]
+    const aabb = AABB.fromFloatArray(array, 1, undefined, 5)
+    expect(Vector3.equals(aabb.min, Vector3.create(-1, -2, -3))).toBe(true)
+    expect(Vector3.equals(aabb.max, Vector3.create(1, 2, 3))).toBe(true)
+
+    const single = AABB.fromFloatArray(array, 1, 1, 5)
+    expect(Vector3.equals(single.min, Vector3.create(1, 2, 3))).toBe(true)
+  })
+
+  it('AABB.containsPoint and intersectsAABB', () => {
+    const aabb = AABB.create(Vector3.Zero(), Vector3.One())
+    expect(AABB.containsPoint(aabb, Vector3.create(0.5, 0.5, 0.5))).toBe(true)
+    expect(AABB.containsPoint(aabb, Vector3.create(1, 1, 1))).toBe(true)
+    expect(AABB.containsPoint(aabb, Vector3.create(1.5, 0.5, 0.5))).toBe(false)
+
+    const other = AABB.create(
+      Vector3.create(0.5, 0.5, 0.5),
+      Vector3.create(2, 2, 2)
+    )
+    const far = AABB.create(Vector3.create(3, 3, 3), Vector3.create(4, 4, 4))
+    expect(AABB.intersectsAABB(aabb, other)).toBe(true)
+    expect(AABB.intersectsAABB(aabb, far)).toBe(false)
+  })
+
+  it('AABB.union, intersection and expandByPoint', () => {
+    const a = AABB.create(Vector3.Zero(), Vector3.One())
+    const b = AABB.create(
+      Vector3.create(0.5, 0.5, 0.5),
+      Vector3.create(2, 2, 2)
+    )
+
+    const union = AABB.union(a, b)
+    expect(
+      AABB.equals(union, AABB.create(Vector3.Zero(), Vector3.create(2, 2, 2)))
+    ).toBe(true)
+
+    const intersection = AABB.intersection(a, b)
+    expect(
+      AABB.equals(
+        intersection,
+        AABB.create(Vector3.create(0.5, 0.5, 0.5), Vector3.One())
+      )
+    ).toBe(true)
+
+    const far = AABB.create(Vector3.create(3, 3, 3), Vector3.create(4, 4, 4))
+    expect(AABB.isEmpty(AABB.intersection(a, far))).toBe(true)
+
+    const expanded = AABB.expandByPoint(a, Vector3.create(-1, 0.5, 3))
+    expect(Vector3.equals(expanded.min, Vector3.create(-1, 0, 0))).toBe(true)
+    expect(Vector3.equals(expanded.max, Vector3.create(1, 1, 3))).toBe(true)
+  })
+
+  it('AABB.getCorners', () => {
+    const corners = AABB.getCorners(AABB.create(Vector3.Zero(), Vector3.One()))
+    expect(corners.length).toBe(8)
+    expect(Vector3.equals(corners[0], Vector3.Zero())).toBe(true)
+    expect(Vector3.equals(corners[7], Vector3.One())).toBe(true)
+    expect(Vector3.equals(corners[5], Vector3.create(1, 0, 1))).toBe(true)
+  })
+
+  it('AABB.transform encloses the rotated box', () => {
+    const aabb = AABB.create(Vector3.create(-1, -1, -1), Vector3.One())
+    const matrix = Matrix.compose(
+      Vector3.One(),
+      Quaternion.fromEulerDegrees(0, 45, 0),
+      Vector3.create(10, 0, 0)
+    )
+    const transformed = AABB.transform(aabb, matrix)
+    const extent = Math.SQRT2
+    expect(
+      AABB.equalsWithEpsilon(
+        transformed,
+        AABB.create(
+          Vector3.create(10 - extent, -1, -extent),
+          Vector3.create(10 + extent, 1, extent)
+        )
+      )
+    ).toBe(true)
+
+    for (const corner of AABB.getCorners(aabb)) {
+      const point = Vector3.transformCoordinates(corner, matrix)
+      expect(
+        AABB.containsPoint(
+          AABB.create(
+            Vector3.subtract(transformed.min, Vector3.create(1e-6, 1e-6, 1e-6)),
+            Vector3.add(transformed.max, Vector3.create(1e-6, 1e-6, 1e-6))
+          ),
+          point
+        )
+      ).toBe(true)
+    }
+  })
+
+  it('AABB.closestPoint and distanceToPoint', () => {
+    const aabb = AABB.create(Vector3.Zero(), Vector3.One())
+    const closest = AABB.closestPoint(aabb, Vector3.create(2, 0.5, -3))
+    expect(Vector3.equals(closest, Vector3.create(1, 0.5, 0))).toBe(true)
+    expect(AABB.distanceToPoint(aabb, Vector3.create(3, 0.5, 0.5))).toBe(2)
+    expect(AABB.distanceToPoint(aabb, Vector3.create(0.5, 0.5, 0.5))).toBe(0)
+  })
+})
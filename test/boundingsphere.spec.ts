@@ -0,0 +1,107 @@
+import {
+  AABB,
+  BoundingSphere,
+  Matrix,
+  Plane,
+  Quaternion,
+  Vector3
+} from '../src'
+
+describe('ECS BoundingSphere', () => {
+  it('BoundingSphere.fromPoints', () => {
+    const points = [
+      Vector3.create(1, 0, 0),
+      Vector3.create(-1, 0, 0),
+      Vector3.create(0, 1, 0),
+      Vector3.create(0, -1, 0),
+      Vector3.create(0, 0, 1),
+      Vector3.create(0, 0, -1),
+      Vector3.create(0.5, 0.5, 0.5)
+    ]
+    const sphere = BoundingSphere.fromPoints(points)
+    for (const point of points) {
+      expect(
+        BoundingSphere.containsPoint(
+          BoundingSphere.create(sphere.center, sphere.radius + 0.000001),
+          point
+        )
+      ).toBe(true)
+    }
+    expect(sphere.radius).toBeGreaterThanOrEqual(1)
+    expect(sphere.radius).toBeLessThan(1.1)
+
+    const empty = BoundingSphere.fromPoints([])
+    expect(empty.radius).toBe(0)
+  })
+
+  it('BoundingSphere.merge', () => {
+    const a = BoundingSphere.create(Vector3.create(0, 0, 0), 1)
+    const b = BoundingSphere.create(Vector3.create(4, 0, 0), 1)
+    const merged = BoundingSphere.merge(a, b)
+    expect(
+      BoundingSphere.equalsWithEpsilon(
+        merged,
+        BoundingSphere.create(Vector3.create(2, 0, 0), 3)
+      )
+    ).toBe(true)
+
+    const inner = BoundingSphere.create(Vector3.create(0.5, 0, 0), 0.25)
+    expect(
+      BoundingSphere.equalsWithEpsilon(BoundingSphere.merge(a, inner), a)
+    ).toBe(true)
+    expect(
+      BoundingSphere.equalsWithEpsilon(BoundingSphere.merge(inner, a), a)
+    ).toBe(true)
+  })
+
+  it('BoundingSphere intersections', () => {
+    const sphere = BoundingSphere.create(Vector3.create(0, 0, 0), 1)
+    expect(
+      BoundingSphere.intersectsSphere(
+        sphere,
+        BoundingSphere.create(Vector3.create(1.5, 0, 0), 1)
+      )
+    ).toBe(true)
+    expect(
+      BoundingSphere.intersectsSphere(
+        sphere,
+        BoundingSphere.create(Vector3.create(3, 0, 0), 1)
+      )
+    ).toBe(false)
+
+    const box = AABB.create(
+      Vector3.create(0.9, 0.9, -1),
+      Vector3.create(2, 2, 1)
+    )
+    expect(BoundingSphere.intersectsAABB(sphere, box)).toBe(false)
+    const nearBox = AABB.create(
+      Vector3.create(0.5, 0.5, -1),
+      Vector3.create(2, 2, 1)
+    )
+    expect(BoundingSphere.intersectsAABB(sphere, nearBox)).toBe(true)
+
+    const plane = Plane.create(0, 1, 0, -0.5)
+    expect(BoundingSphere.intersectsPlane(sphere, plane)).toBe(true)
+    expect(BoundingSphere.isInFrontOfPlane(sphere, plane)).toBe(false)
+    const lowPlane = Plane.create(0, 1, 0, 2)
+    expect(BoundingSphere.intersectsPlane(sphere, lowPlane)).toBe(false)
+    expect(BoundingSphere.isInFrontOfPlane(sphere, lowPlane)).toBe(true)
+  })
+
+  it('BoundingSphere.transform', () => {
+    const sphere = BoundingSphere.create(Vector3.create(1, 0, 0), 1)
+    const matrix = Matrix.compose(
+      Vector3.create(1, 3, 2),
+      Quaternion.fromEulerDegrees(0, 90, 0),
+      Vector3.create(10, 0, 0)
+    )
+    const transformed = BoundingSphere.transform(sphere, matrix)
+    expect(
+      Vector3.equalsWithEpsilon(
+        transformed.center,
+        Vector3.transformCoordinates(sphere.center, matrix)
+      )
+    ).toBe(true)
+    expect(transformed.radius).toBeCloseTo(3)
+  })
+})
@@ -0,0 +1,164 @@
+import { Color3 } from '../src'
+
+describe('ECS Color3', () => {
+  function expectColor(
+    actual: Color3.ReadonlyColor3,
+    expected: Color3.ReadonlyColor3,
+    digits: number = 6
+  ) {
+    expect(actual.r).toBeCloseTo(expected.r, digits)
+    expect(actual.g).toBeCloseTo(expected.g, digits)
+    expect(actual.b).toBeCloseTo(expected.b, digits)
+  }
+
+  const colors = [
+    Color3.create(0.2, 0.4, 0.6),
+    Color3.create(0.9, 0.1, 0.3),
+    Color3.create(0.5, 0.5, 0.1),
+    Color3.create(0.05, 0.8, 0.75),
+    Color3.create(0.7, 0.7, 0.7),
+    Color3.Black(),
+    Color3.White(),
+    Color3.Magenta()
+  ]
+
+  it('Color3 HSV conversions', () => {
+    expect(Color3.toHSV(Color3.Red())).toEqual({ h: 0, s: 1, v: 1 })
+    expect(Color3.toHSV(Color3.Teal())).toEqual({ h: 180, s: 1, v: 1 })
+    expect(Color3.toHSV(Color3.Magenta()).h).toBe(300)
+    expect(Color3.toHSV(Color3.Gray())).toEqual({ h: 0, s: 0, v: 0.5 })
+    expectColor(Color3.fromHSV({ h: 120, s: 0.5, v: 0.8 }), {
+      r: 0.4,
+      g: 0.8,
+      b: 0.4
+    })
+    // the hue is wrapped
+    expectColor(Color3.fromHSV({ h: -240, s: 1, v: 1 }), Color3.Green())
+
+    for (const color of colors) {
+      const result = Color3.create()
+      Color3.fromHSVToRef(Color3.toHSV(color), result)
+      expectColor(result, color)
+    }
+  })
+
+  it('Color3 HSL conversions', () => {
+    const hsl = Color3.toHSL(Color3.create(0.2, 0.4, 0.6))
+    expect(hsl.h).toBeCloseTo(210, 9)
+    expect(hsl.s).toBeCloseTo(0.5, 9)
+    expect(hsl.l).toBeCloseTo(0.4, 9)
+    expect(Color3.toHSL(Color3.White())).toEqual({ h: 0, s: 0, l: 1 })
+    expectColor(Color3.fromHSL({ h: 0, s: 1, l: 0.5 }), Color3.Red())
+    expectColor(Color3.fromHSL({ h: 60, s: 1, l: 0.25 }), {
+      r: 0.5,
+      g: 0.5,
+      b: 0
+    })
+
+    for (const color of colors) {
+      const result = Color3.create()
+      Color3.fromHSLToRef(Color3.toHSL(color), result)
+      expectColor(result, color)
+    }
+  })
+
+  it('Color3 OKLab and OKLCH conversions', () => {
+    const red = Color3.toOKLab(Color3.Red())
+    expect(red.l).toBeCloseTo(0.62796, 4)
+    expect(red.a).toBeCloseTo(0.22486, 4)
+    expect(red.b).toBeCloseTo(0.12585, 4)
+    const white = Color3.toOKLab(Color3.White())
+    expect(white.l).toBeCloseTo(1, 6)
+    expect(white.a).toBeCloseTo(0, 6)
+    expect(white.b).toBeCloseTo(0, 6)
+
+    const lch = Color3.toOKLCH(Color3.Red())
+    expect(lch.l).toBeCloseTo(0.62796, 4)
+    expect(lch.c).toBeCloseTo(0.25768, 4)
+    expect(lch.h).toBeCloseTo(29.2339, 2)
+    expect(Color3.toOKLCH(Color3.Gray())).toEqual({
+      l: Color3.toOKLab(Color3.Gray()).l,
+      c: 0,
+      h: 0
+    })
+
+    for (const color of colors) {
+      const result = Color3.create()
+      Color3.fromOKLabToRef(Color3.toOKLab(color), result)
+      expectColor(result, color)
+      Color3.fromOKLCHToRef(Color3.toOKLCH(color), result)
+      expectColor(result, color)
+    }
+
+    // out of gamut colors are not clamped
+    expect(Color3.fromOKLCH({ l: 0.7, c: 0.4, h: 150 }).r).toBeLessThan(0)
+  })
+
+  it('Color3 hue-aware interpolations', () => {
+    // the linear interpolation passes through gray, not the hue one
+    const red = Color3.Red()
+    const teal = Color3.Teal()
+    expect(Color3.toHSV(Color3.lerp(red, teal, 0.5)).s).toBe(0)
+    expect(Color3.toHSV(Color3.lerpHSV(red, teal, 0.5)).s).toBeCloseTo(1, 9)
+    expect(Color3.toOKLCH(Color3.lerpOKLCH(red, teal, 0.5)).c).toBeGreaterThan(
+      0.1
+    )
+
+    // the hue takes the shortest way, through magenta from red to blue
+    expectColor(
+      Color3.lerpHSV(Color3.Red(), Color3.Blue(), 0.5),
+      Color3.Magenta()
+    )
+    expectColor(
+      Color3.lerpHSV(
+        Color3.fromHSV({ h: 350, s: 1, v: 1 }),
+        Color3.fromHSV({ h: 30, s: 1, v: 1 }),
+        0.25
+      ),
+      Color3.Red()
+    )
+
+    // a gray keeps the hue of the other color
+    const hsv = Color3.toHSV(Color3.lerpHSV(Color3.White(), Color3.Blue(), 0.5))
+    expect(hsv.h).toBeCloseTo(240, 9)
+    const lch = Color3.toOKLCH(
+      Color3.lerpOKLCH(Color3.Black(), Color3.Blue(), 0.5)
+    )
+    expect(lch.h).toBeCloseTo(Color3.toOKLCH(Color3.Blue()).h, 3)
+
+    for (const amount of [0, 1]) {
+      const result = Color3.create()
+      Color3.lerpOKLCHToRef(colors[0], colors[1], amount, result)
+      expectColor(result, colors[amount])
+      Color3.lerpHSVToRef(colors[0], colors[1], amount, result)
+      expectColor(result, colors[amount])
+    }
+  })
+
+  it('Color3.parse reads CSS colors', () => {
+    expect(Color3.parse('#336699')).toEqual(Color3.fromInts(0x33, 0x66, 0x99))
+    expect(Color3.parse('#369')).toEqual(Color3.fromInts(0x33, 0x66, 0x99))
+    expect(Color3.parse('  RebeccaPurple ')).toEqual(
+      Color3.fromInts(0x66, 0x33, 0x99)
+    )
+    expect(Color3.parse('rgb(51 102 153 / 0.5)')).toEqual(
+      Color3.fromInts(51, 102, 153)
+    )
+    expectColor(Color3.parse('hsl(210 50% 40%)')!, Color3.create(0.2, 0.4, 0.6))
+    expect(Color3.parse('#12345')).toBeUndefined()
+    expect(Color3.parse('notacolor')).toBeUndefined()
+  })
+
+  it('Color3.toCssString formats CSS colors', () => {
+    const color = Color3.create(0.2, 0.4, 0.6)
+    expect(Color3.toCssString(color)).toBe('#336699')
+    expect(Color3.toCssString(color, 'rgb')).toBe('rgb(51 102 153)')
+    expect(Color3.toCssString(color, 'hsl')).toBe('hsl(210 50% 40%)')
+    expect(Color3.toCssString(Color3.create(1.5, -1, 0.5), 'rgb')).toBe(
+      'rgb(255 0 128)'
+    )
+    for (const format of ['hex', 'rgb', 'hsl'] as Color3.CssFormat[]) {
+      expectColor(Color3.parse(Color3.toCssString(color, format))!, color, 2)
+    }
+  })
+})
@@ -19,3 +19,114 @@ describe('ECS Color 4', () => {
     expect(color4Hex).toBe('#000000FF')
   })
 })
+
+describe('ECS Color 4 color spaces', () => {
+  it('converts color4 through color spaces keeping the alpha', () => {
+    const color = Color4.create(0.9, 0.1, 0.3, 0.5)
+    const hsl = Color4.toHSL(color)
+    const back = Color4.fromHSL(hsl, color.a)
+    expect(back.r).toBeCloseTo(color.r, 9)
+    expect(back.g).toBeCloseTo(color.g, 9)
+    expect(back.b).toBeCloseTo(color.b, 9)
+    expect(back.a).toBe(0.5)
+    expect(Color4.fromHSV(Color4.toHSV(color)).a).toBe(1)
+    expect(Color4.fromOKLCH(Color4.toOKLCH(color), 0.2).g).toBeCloseTo(0.1, 6)
+  })
+
+  it('interpolates color4 hue and alpha', () => {
+    const result = Color4.lerpHSV(
+      Color4.create(1, 0, 0, 0),
+      Color4.create(0, 0, 1, 1),
+      0.5
+    )
+    expect(Color4.toHexString(result)).toBe('#FF00FF7F')
+    const oklch = Color4.lerpOKLCH(Color4.Red(), Color4.Clear(), 0.25)
+    expect(oklch.a).toBe(0.75)
+  })
+})
+
+describe('ECS Color 4 CSS strings', () => {
+  function expectCss(css: string, r: number, g: number, b: number, a = 255) {
+    const color = Color4.parse(css)
+    expect(color).toBeDefined()
+    expect(color!.r * 255).toBeCloseTo(r, 6)
+    expect(color!.g * 255).toBeCloseTo(g, 6)
+    expect(color!.b * 255).toBeCloseTo(b, 6)
+    expect(color!.a * 255).toBeCloseTo(a, 6)
+  }
+
+  it('parses hexadecimal colors', () => {
+    expectCss('#f80', 255, 136, 0)
+    expectCss('#F808', 255, 136, 0, 136)
+    expectCss('#123456', 0x12, 0x34, 0x56)
+    expectCss('#123456cd', 0x12, 0x34, 0x56, 0xcd)
+    for (const invalid of [
+      '#',
+      '#12',
+      '#12345',
+      '#1234567',
+      '#12345g',
+      '123'
+    ]) {
+      expect(Color4.parse(invalid)).toBeUndefined()
+    }
+  })
+
+  it('parses named colors', () => {
+    expectCss('red', 255, 0, 0)
+    expectCss('DarkSlateGrey', 0x2f, 0x4f, 0x4f)
+    expectCss('rebeccapurple', 0x66, 0x33, 0x99)
+    expectCss('yellowgreen', 0x9a, 0xcd, 0x32)
+    expectCss('transparent', 0, 0, 0, 0)
+    expect(Color4.parse('toString')).toBeUndefined()
+    expect(Color4.parse('blurple')).toBeUndefined()
+  })
+
+  it('parses rgb and rgba in modern and legacy syntax', () => {
+    expectCss('rgb(255 128 0)', 255, 128, 0)
+    expectCss('rgb(255 128 0 / 50%)', 255, 128, 0, 127.5)
+    expectCss('rgba(100% 50% 0% / .25)', 255, 127.5, 0, 63.75)
+    expectCss('rgb(none 10 20)', 0, 10, 20)
+    expectCss('rgb(255, 128, 0)', 255, 128, 0)
+    expectCss('rgba(255,128,0,0.5)', 255, 128, 0, 127.5)
+    expectCss('rgb(300 -20 1e2)', 255, 0, 100)
+    expectCss(' RGBA( 1 2 3/0.5 ) ', 1, 2, 3, 127.5)
+    for (const invalid of [
+      'rgb(255 128)',
+      'rgb(255, 128 0)',
+      'rgb(255, 128, 0 / 1)',
+      'rgb(255 128 0 0)',
+      'rgb(255 128 0 / )',
+      'rgb(255 128 0 / 1 / 1)',
+      'rgb(none, 0, 0)',
+      'rgb(a b c)',
+      'rgb(255 128 0'
+    ]) {
+      expect(Color4.parse(invalid)).toBeUndefined()
+    }
+  })
+
+  it('parses hsl and hsla in modern and legacy syntax', () => {
+    expectCss('hsl(0 100% 50%)', 255, 0, 0)
+    expectCss('hsl(120deg 100% 25% / 0.5)', 0, 127.5, 0, 127.5)
+    expectCss('hsla(240, 100%, 50%, 1)', 0, 0, 255)
+    expectCss('hsl(0.5turn 100% 50%)', 0, 255, 255)
+    expectCss(`hsl(${Math.PI}rad 100% 50%)`, 0, 255, 255)
+    expectCss('hsl(400grad 100% 50%)', 255, 0, 0)
+    expectCss('hsl(-120 100 50)', 0, 0, 255)
+    expect(Color4.parse('hsl(10px 100% 50%)')).toBeUndefined()
+    expect(Color4.parse('hsl(0 100%)')).toBeUndefined()
+  })
+
+  it('formats CSS strings', () => {
+    const color = Color4.create(0.2, 0.4, 0.6, 0.5)
+    expect(Color4.toCssString(color)).toBe('#33669980')
+    expect(Color4.toCssString(color, 'rgb')).toBe('rgb(51 102 153 / 0.5)')
+    expect(Color4.toCssString(color, 'hsl')).toBe('hsl(210 50% 40% / 0.5)')
+    expect(Color4.toCssString(Color4.Red(), 'rgb')).toBe('rgb(255 0 0)')
+    expect(Color4.toCssString(Color4.Red())).toBe('#FF0000')
+    expect(Color4.parse(Color4.toCssString(color, 'rgb'))).toEqual(
+      Color4.fromInts(51, 102, 153, 127.5)
+    )
+  })
+})
@@ -0,0 +1,187 @@
+import { Curve, Vector3 } from '../src'
+
+describe('ECS Curve', () => {
+  const square = [
+    Vector3.create(0, 0, 0),
+    Vector3.create(10, 0, 0),
+    Vector3.create(10, 0, 10),
+    Vector3.create(0, 0, 10)
+  ]
+
+  function expectVector(
+    actual: Vector3.ReadonlyVector3,
+    expected: Vector3.ReadonlyVector3,
+    digits: number = 5
+  ) {
+    expect(actual.x).toBeCloseTo(expected.x, digits)
+    expect(actual.y).toBeCloseTo(expected.y, digits)
+    expect(actual.z).toBeCloseTo(expected.z, digits)
+  }
+
+  it('Curve.quadraticBezier and Curve.cubicBezier chain their segments', () => {
+    const quadratic = Curve.quadraticBezier([
+      Vector3.create(0, 0, 0),
+      Vector3.create(1, 2, 0),
+      Vector3.create(2, 0, 0),
+      Vector3.create(3, -2, 0),
+      Vector3.create(4, 0, 0)
+    ])
+    expect(Curve.segmentCount(quadratic)).toBe(2)
+    expectVector(Curve.getPoint(quadratic, 0.25), Vector3.create(1, 1, 0))
+    expectVector(Curve.getPoint(quadratic, 0.5), Vector3.create(2, 0, 0))
+    expectVector(Curve.getPoint(quadratic, 1), Vector3.create(4, 0, 0))
+
+    const cubic = Curve.cubicBezier([
+      Vector3.create(0, 0, 0),
+      Vector3.create(0, 1, 0),
+      Vector3.create(1, 1, 0),
+      Vector3.create(1, 0, 0)
+    ])
+    expect(Curve.segmentCount(cubic)).toBe(1)
+    expectVector(Curve.getPoint(cubic, 0.5), Vector3.create(0.5, 0.75, 0))
+    expectVector(Curve.getTangent(cubic, 0), Vector3.Up())
+    expectVector(Curve.getTangent(cubic, 1), Vector3.Down())
+
+    // the Bezier curves ignore the closed flag
+    expect(Curve.create('cubicBezier', square, true).closed).toBe(false)
+  })
+
+  it('Curve.catmullRom goes through all the points', () => {
+    for (const alpha of [0, 0.5, 1]) {
+      const open = Curve.catmullRom(square, false, alpha)
+      expect(Curve.segmentCount(open)).toBe(3)
+      square.forEach((point, index) =>
+        expectVector(Curve.getPoint(open, index / 3), point)
+      )
+
+      const closed = Curve.catmullRom(square, true, alpha)
+      expect(Curve.segmentCount(closed)).toBe(4)
+      square.forEach((point, index) =>
+        expectVector(Curve.getPoint(closed, index / 4), point)
+      )
+      expectVector(Curve.getPoint(closed, 1), square[0])
+      expectVector(Curve.getPoint(closed, 1.25), square[1])
+    }
+
+    // the uniform spline matches the single segment of Vector3.catmullRom
+    const uniform = Curve.catmullRom(square, true, 0)
+    expectVector(
+      Curve.getPoint(uniform, 0.3),
+      Vector3.catmullRom(square[0], square[1], square[2], square[3], 0.2)
+    )
+  })
+
+  it('Curve.bSpline is clamped when open and periodic when closed', () => {
+    const open = Curve.bSpline(square)
+    expectVector(Curve.getPoint(open, 0), square[0])
+    expectVector(Curve.getPoint(open, 1), square[3])
+
+    const closed = Curve.bSpline(square, true)
+    expectVector(Curve.getPoint(closed, 0), Vector3.create(10 / 6, 0, 10 / 6))
+    expectVector(Curve.getPoint(closed, 0), Curve.getPoint(closed, 1))
+    expectVector(Curve.getTangent(closed, 0), Curve.getTangent(closed, 1))
+  })
+
+  it('Curve frame is orthonormal and the normal points to the center', () => {
+    const circle = Curve.catmullRom(
+      Array.from({ length: 32 }, (_, index) =>
+        Vector3.create(
+          Math.cos((index / 32) * Math.PI * 2) * 5,
+          Math.sin((index / 32) * Math.PI * 2) * 5,
+          0
+        )
+      ),
+      true
+    )
+    for (const t of [0, 0.1, 0.37, 0.8]) {
+      const point = Curve.getPoint(circle, t)
+      const tangent = Curve.getTangent(circle, t)
+      const normal = Curve.getNormal(circle, t)
+      const binormal = Curve.getBinormal(circle, t)
+      expect(Vector3.length(tangent)).toBeCloseTo(1, 9)
+      expect(Vector3.length(normal)).toBeCloseTo(1, 9)
+      expect(Vector3.dot(tangent, normal)).toBeCloseTo(0, 9)
+      expectVector(binormal, Vector3.create(0, 0, 1), 9)
+      expectVector(normal, Vector3.normalize(Vector3.negate(point)), 2)
+    }
+
+    // straight curves keep the normal up
+    const line = Curve.catmullRom([Vector3.Zero(), Vector3.Forward()])
+    expectVector(Curve.getTangent(line, 0.5), Vector3.Forward())
+    expectVector(Curve.getNormal(line, 0.5), Vector3.Up())
+    expectVector(Curve.getBinormal(line, 0.5), Vector3.Left())
+  })
+
+  it('Curve arc lengths give constant speed travel', () => {
+    const circle = Curve.bSpline(
+      Array.from({ length: 16 }, (_, index) =>
+        Vector3.create(
+          Math.cos((index / 16) * Math.PI * 2),
+          0,
+          Math.sin((index / 16) * Math.PI * 2)
+        )
+      ),
+      true
+    )
+    const total = Curve.length(circle)
+    const steps = 50
+    let previous = Curve.getPointAtDistance(circle, 0)
+    for (let step = 1; step <= steps; step++) {
+      const point = Curve.getPointAtDistance(circle, (step * total) / steps)
+      expect(Vector3.distance(previous, point)).toBeCloseTo(total / steps, 3)
+      previous = point
+    }
+
+    // the distance wraps on closed curves and is clamped on open ones
+    expectVector(
+      Curve.getPointAtDistance(circle, total * 1.25),
+      Curve.getPointAtDistance(circle, total * 0.25)
+    )
+    const line = Curve.cubicBezier([
+      Vector3.Zero(),
+      Vector3.create(0, 0, 1),
+      Vector3.create(0, 0, 9),
+      Vector3.create(0, 0, 10)
+    ])
+    expect(Curve.length(line)).toBeCloseTo(10, 5)
+    expectVector(Curve.getPointAtDistance(line, 2), Vector3.create(0, 0, 2), 2)
+    expectVector(Curve.getPointAtDistance(line, 20), Vector3.create(0, 0, 10))
+    expect(
+      Curve.getDistanceAtParameter(line, Curve.getParameterAtDistance(line, 7))
+    ).toBeCloseTo(7, 9)
+
+    // the arc lengths follow the points after an update
+    line.points[3].z = 20
+    Curve.updateArcLengths(line)
+    expect(Curve.length(line)).toBeCloseTo(20, 5)
+  })
+
+  it('Curve.closestPoint projects a point on the curve', () => {
+    const path = Curve.catmullRom(square)
+    const t = Curve.closestParameter(path, Vector3.create(5, 3, -2))
+    const closest = Curve.getPoint(path, t)
+    expect(closest.y).toBeCloseTo(0, 9)
+    // the closest point is where the direction to the point is perpendicular to the curve
+    expect(
+      Vector3.dot(
+        Vector3.subtract(Vector3.create(5, 3, -2), closest),
+        Curve.getTangent(path, t)
+      )
+    ).toBeCloseTo(0, 4)
+
+    expectVector(Curve.closestPoint(path, Vector3.create(-5, 0, -5)), square[0])
+    expectVector(
+      Curve.closestPoint(path, Vector3.create(0, 0, 20)),
+      square[3],
+      3
+    )
+  })
+
+  it('Curve with not enough points', () => {
+    expectVector(Curve.getPoint(Curve.catmullRom([]), 0.5), Vector3.Zero())
+    const single = Curve.bSpline([Vector3.One()])
+    expect(Curve.length(single)).toBe(0)
+    expectVector(Curve.getPoint(single, 0.5), Vector3.One())
+    expect(Curve.getParameterAtDistance(single, 3)).toBe(0)
+  })
+})
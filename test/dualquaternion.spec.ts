@@ -0,0 +1,131 @@
+import { DualQuaternion, Matrix, Quaternion, Vector3 } from '../src'
+
+const matrixEquals = (a: Matrix.ReadonlyMatrix, b: Matrix.ReadonlyMatrix) =>
+  a._m.every((value, index) => Math.abs(value - b._m[index]) < 0.0001)
+
+describe('ECS DualQuaternion', () => {
+  const rotationA = Quaternion.fromEulerDegrees(10, 60, -20)
+  const translationA = Vector3.create(1, 2, 3)
+  const rotationB = Quaternion.fromEulerDegrees(-45, 15, 90)
+  const translationB = Vector3.create(-4, 0, 7)
+
+  it('DualQuaternion matrix conversions', () => {
+    const dq = DualQuaternion.fromRotationTranslation(rotationA, translationA)
+    const matrix = Matrix.compose(Vector3.One(), rotationA, translationA)
+    expect(matrixEquals(DualQuaternion.toMatrix(dq), matrix)).toBe(true)
+    expect(
+      Vector3.equalsWithEpsilon(DualQuaternion.getTranslation(dq), translationA)
+    ).toBe(true)
+    expect(
+      DualQuaternion.equalsWithEpsilon(DualQuaternion.fromMatrix(matrix), dq)
+    ).toBe(true)
+
+    const point = Vector3.create(0.5, -2, 4)
+    expect(
+      Vector3.equalsWithEpsilon(
+        DualQuaternion.transformPoint(point, dq),
+        Vector3.transformCoordinates(point, matrix)
+      )
+    ).toBe(true)
+  })
+
+  it('DualQuaternion.multiply and conjugate', () => {
+    const a = DualQuaternion.fromRotationTranslation(rotationA, translationA)
+    const b = DualQuaternion.fromRotationTranslation(rotationB, translationB)
+    const product = DualQuaternion.multiply(a, b)
+
+    expect(
+      Quaternion.angle(product.real, Quaternion.multiply(rotationA, rotationB))
+    ).toBeCloseTo(0)
+    expect(
+      matrixEquals(
+        DualQuaternion.toMatrix(product),
+        Matrix.multiply(DualQuaternion.toMatrix(b), DualQuaternion.toMatrix(a))
+      )
+    ).toBe(true)
+
+    const identity = DualQuaternion.multiply(a, DualQuaternion.conjugate(a))
+    expect(
+      DualQuaternion.equalsWithEpsilon(identity, DualQuaternion.Identity())
+    ).toBe(true)
+  })
+
+  it('DualQuaternion.normalize', () => {
+    const dq = DualQuaternion.fromRotationTranslation(rotationA, translationA)
+    const scaled = DualQuaternion.create(
+      Quaternion.create(
+        dq.real.x * 3,
+        dq.real.y * 3,
+        dq.real.z * 3,
+        dq.real.w * 3
+      ),
+      Quaternion.create(
+        dq.dual.x * 3,
+        dq.dual.y * 3,
+        dq.dual.z * 3,
+        dq.dual.w * 3
+      )
+    )
+    expect(
+      DualQuaternion.equalsWithEpsilon(DualQuaternion.normalize(scaled), dq)
+    ).toBe(true)
+  })
+
+  it('DualQuaternion.sclerp', () => {
+    const a = DualQuaternion.fromRotationTranslation(rotationA, translationA)
+    const b = DualQuaternion.fromRotationTranslation(rotationB, translationB)
+    expect(
+      DualQuaternion.equalsWithEpsilon(DualQuaternion.sclerp(a, b, 0), a)
+    ).toBe(true)
+    expect(
+      DualQuaternion.equalsWithEpsilon(DualQuaternion.sclerp(a, b, 1), b)
+    ).toBe(true)
+
+    // a screw motion around the Y axis: half the rotation, half the rise
+    const start = DualQuaternion.fromRotationTranslation(
+      Quaternion.Identity(),
+      Vector3.create(1, 0, 0)
+    )
+    const end = DualQuaternion.multiply(
+      DualQuaternion.fromRotationTranslation(
+        Quaternion.fromAngleAxis(180, Vector3.Up()),
+        Vector3.create(0, 4, 0)
+      ),
+      start
+    )
+    const half = DualQuaternion.sclerp(start, end, 0.5)
+    const expected = Vector3.add(
+      Vector3.rotate(
+        Vector3.create(1, 0, 0),
+        Quaternion.fromAngleAxis(90, Vector3.Up())
+      ),
+      Vector3.create(0, 2, 0)
+    )
+    expect(
+      Vector3.equalsWithEpsilon(
+        DualQuaternion.getTranslation(half),
+        expected,
+        0.0001
+      )
+    ).toBe(true)
+  })
+
+  it('DualQuaternion.blend', () => {
+    const a = DualQuaternion.fromRotationTranslation(
+      Quaternion.fromAngleAxis(0, Vector3.Up()),
+      Vector3.create(0, 0, 0)
+    )
+    const b = DualQuaternion.fromRotationTranslation(
+      Quaternion.fromAngleAxis(90, Vector3.Up()),
+      Vector3.create(0, 0, 0)
+    )
+    const negatedB = DualQuaternion.create(
+      Quaternion.create(-b.real.x, -b.real.y, -b.real.z, -b.real.w),
+      Quaternion.create(-b.dual.x, -b.dual.y, -b.dual.z, -b.dual.w)
+    )
+    const blended = DualQuaternion.blend([a, negatedB], [0.5, 0.5])
+    expect(
+      Quaternion.angle(blended.real, Quaternion.fromAngleAxis(45, Vector3.Up()))
+    ).toBeCloseTo(0)
+  })
+})
@@ -0,0 +1,134 @@
+import { Color4, Easing, Quaternion, Vector3 } from '../src'
+
+describe('ECS Easing', () => {
+  const curves: [string, Easing.EasingFunction][] = [
+    ['quadIn', Easing.quadIn],
+    ['quadOut', Easing.quadOut],
+    ['quadInOut', Easing.quadInOut],
+    ['cubicIn', Easing.cubicIn],
+    ['cubicOut', Easing.cubicOut],
+    ['cubicInOut', Easing.cubicInOut],
+    ['quartIn', Easing.quartIn],
+    ['quartOut', Easing.quartOut],
+    ['quartInOut', Easing.quartInOut],
+    ['quintIn', Easing.quintIn],
+    ['quintOut', Easing.quintOut],
+    ['quintInOut', Easing.quintInOut],
+    ['sineIn', Easing.sineIn],
+    ['sineOut', Easing.sineOut],
+    ['sineInOut', Easing.sineInOut],
+    ['expoIn', Easing.expoIn],
+    ['expoOut', Easing.expoOut],
+    ['expoInOut', Easing.expoInOut],
+    ['circIn', Easing.circIn],
+    ['circOut', Easing.circOut],
+    ['circInOut', Easing.circInOut],
+    ['backIn', Easing.backIn],
+    ['backOut', Easing.backOut],
+    ['backInOut', Easing.backInOut],
+    ['elasticIn', Easing.elasticIn],
+    ['elasticOut', Easing.elasticOut],
+    ['elasticInOut', Easing.elasticInOut],
+    ['bounceIn', Easing.bounceIn],
+    ['bounceOut', Easing.bounceOut],
+    ['bounceInOut', Easing.bounceInOut]
+  ]
+
+  it('Easing curves start at 0 and end at 1', () => {
+    expect(curves).toHaveLength(30)
+    for (const [name, easing] of curves) {
+      expect([name, Math.round(easing(0) * 1e9) / 1e9 + 0]).toEqual([name, 0])
+      expect([name, Math.round(easing(1) * 1e9) / 1e9]).toEqual([name, 1])
+    }
+  })
+
+  it('Easing in, out and inOut variants', () => {
+    expect(Easing.quadIn(0.5)).toBe(0.25)
+    expect(Easing.quadOut(0.5)).toBe(0.75)
+    expect(Easing.cubicInOut(0.25)).toBe(0.0625)
+    expect(Easing.quintInOut(0.5)).toBe(0.5)
+    expect(Easing.sineInOut(0.5)).toBeCloseTo(0.5)
+    expect(Easing.expoIn(0.5)).toBeCloseTo(0.03125)
+    expect(Easing.circOut(0.6)).toBeCloseTo(0.916515)
+    expect(Easing.backIn(0.2)).toBeLessThan(0)
+    expect(Easing.backOut(0.8)).toBeGreaterThan(1)
+    expect(Easing.backInOut(0.5)).toBeCloseTo(0.5)
+    expect(Easing.elasticOut(0.1)).toBeGreaterThan(1)
+    expect(Easing.elasticInOut(0.5)).toBeCloseTo(0.5)
+    expect(Easing.bounceOut(0.5)).toBeCloseTo(0.765625)
+    expect(Easing.bounceIn(0.5)).toBeCloseTo(0.234375)
+
+    // out is the mirror of in
+    for (const t of [0.1, 0.3, 0.7]) {
+      expect(Easing.quartOut(t)).toBeCloseTo(1 - Easing.quartIn(1 - t))
+      expect(Easing.bounceInOut(1 - t)).toBeCloseTo(1 - Easing.bounceInOut(t))
+    }
+  })
+
+  it('Easing.cubicBezier', () => {
+    const linear = Easing.cubicBezier(0, 0, 1, 1)
+    expect(linear(0.3)).toBeCloseTo(0.3)
+    const ease = Easing.cubicBezier(0.25, 0.1, 0.25, 1)
+    // reference values of the CSS "ease" timing function
+    expect(ease(0.25)).toBeCloseTo(0.4085, 3)
+    expect(ease(0.5)).toBeCloseTo(0.8024, 3)
+    expect(ease(0)).toBe(0)
+    expect(ease(1)).toBe(1)
+    const easeInOut = Easing.cubicBezier(0.42, 0, 0.58, 1)
+    expect(easeInOut(0.5)).toBeCloseTo(0.5)
+    // overshooting control points
+    expect(Easing.cubicBezier(0.3, -0.5, 0.7, 1.5)(0.1)).toBeLessThan(0)
+  })
+
+  it('Easing.steps', () => {
+    const end = Easing.steps(4)
+    expect([0, 0.2, 0.25, 0.99, 1].map(end)).toEqual([0, 0, 0.25, 0.75, 1])
+    const start = Easing.steps(4, 'jump-start')
+    expect([0, 0.2, 0.25, 0.99, 1].map(start)).toEqual([0.25, 0.25, 0.5, 1, 1])
+    const none = Easing.steps(5, 'jump-none')
+    expect([0, 0.19, 0.2, 0.99, 1].map(none)).toEqual([0, 0, 0.25, 1, 1])
+    const both = Easing.steps(3, 'jump-both')
+    expect([0, 0.5, 1].map(both)).toEqual([0.25, 0.5, 1])
+  })
+
+  it('Easing tween helpers', () => {
+    const vector = Easing.tweenVector3(
+      Vector3.Zero(),
+      Vector3.create(4, 8, 12),
+      0.5,
+      Easing.quadIn
+    )
+    expect(vector).toEqual(Vector3.create(1, 2, 3))
+    expect(
+      Easing.tweenVector3(Vector3.Zero(), Vector3.One(), 2, Easing.quadIn)
+    ).toEqual(Vector3.One())
+
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Easing.tweenQuaternion(
+          Quaternion.Identity(),
+          Quaternion.fromEulerDegrees(0, 90, 0),
+          0.5,
+          Easing.quadOut
+        ),
+        Quaternion.slerp(
+          Quaternion.Identity(),
+          Quaternion.fromEulerDegrees(0, 90, 0),
+          0.75
+        )
+      )
+    ).toBe(true)
+
+    const color = Easing.tweenColor4(
+      Color4.Black(),
+      Color4.White(),
+      0.5,
+      Easing.steps(2, 'start')
+    )
+    expect(color).toEqual(Color4.White())
+
+    expect(
+      Easing.tween(10, 20, 0.5, Easing.linear, (a, b, t) => a + (b - a) * t)
+    ).toBe(15)
+  })
+})
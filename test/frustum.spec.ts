@@ -0,0 +1,112 @@
+import { AABB, BoundingSphere, Frustum, Matrix, Plane, Vector3 } from '../src'
+
+const lhFrustum = () =>
+  Frustum.fromMatrix(
+    Matrix.multiply(
+      Matrix.LookAtLH(Vector3.Zero(), Vector3.Forward(), Vector3.Up()),
+      Matrix.perspectiveFovLH(Math.PI / 2, 1, 1, 100)
+    )
+  )
+
+const rhFrustum = () =>
+  Frustum.fromMatrix(
+    Matrix.multiply(
+      Matrix.lookAtRH(Vector3.Zero(), Vector3.Backward(), Vector3.Up()),
+      Matrix.PerspectiveFovRH(Math.PI / 2, 1, 1, 100)
+    )
+  )
+
+describe('ECS Frustum', () => {
+  it('Plane.normalize', () => {
+    const plane = Plane.normalize(Plane.create(0, 2, 0, 4))
+    expect(Vector3.equals(plane.normal, Vector3.create(0, 1, 0))).toBe(true)
+    expect(plane.d).toBe(2)
+  })
+
+  it('Frustum.containsPoint', () => {
+    const frustum = lhFrustum()
+    expect(Frustum.containsPoint(frustum, Vector3.create(0, 0, 10))).toBe(
+      Frustum.Containment.Inside
+    )
+    expect(Frustum.containsPoint(frustum, Vector3.create(0, 0, -10))).toBe(
+      Frustum.Containment.Outside
+    )
+    expect(Frustum.containsPoint(frustum, Vector3.create(20, 0, 10))).toBe(
+      Frustum.Containment.Outside
+    )
+    expect(Frustum.containsPoint(frustum, Vector3.create(0, 0, 1))).toBe(
+      Frustum.Containment.Intersecting
+    )
+
+    const rh = rhFrustum()
+    expect(Frustum.containsPoint(rh, Vector3.create(0, 0, -10))).toBe(
+      Frustum.Containment.Inside
+    )
+    expect(Frustum.containsPoint(rh, Vector3.create(0, 0, 10))).toBe(
+      Frustum.Containment.Outside
+    )
+  })
+
+  it('Frustum.containsSphere and containsAABB', () => {
+    const frustum = lhFrustum()
+    expect(
+      Frustum.containsSphere(
+        frustum,
+        BoundingSphere.create(Vector3.create(0, 0, 50), 5)
+      )
+    ).toBe(Frustum.Containment.Inside)
+    expect(
+      Frustum.containsSphere(
+        frustum,
+        BoundingSphere.create(Vector3.create(0, 0, 100), 5)
+      )
+    ).toBe(Frustum.Containment.Intersecting)
+    expect(
+      Frustum.containsSphere(
+        frustum,
+        BoundingSphere.create(Vector3.create(0, 0, -50), 5)
+      )
+    ).toBe(Frustum.Containment.Outside)
+
+    expect(
+      Frustum.containsAABB(
+        frustum,
+        AABB.fromCenterAndExtents(Vector3.create(0, 0, 50), Vector3.One())
+      )
+    ).toBe(Frustum.Containment.Inside)
+    expect(
+      Frustum.containsAABB(
+        frustum,
+        AABB.fromCenterAndExtents(Vector3.create(10, 0, 10), Vector3.One())
+      )
+    ).toBe(Frustum.Containment.Intersecting)
+    expect(
+      Frustum.containsAABB(
+        frustum,
+        AABB.fromCenterAndExtents(Vector3.create(-20, 0, 10), Vector3.One())
+      )
+    ).toBe(Frustum.Containment.Outside)
+  })
+
+  it('Frustum.getCorners', () => {
+    const corners = Frustum.getCorners(lhFrustum())
+    expect(
+      Vector3.equalsWithEpsilon(corners[0], Vector3.create(-1, -1, 1), 0.001)
+    ).toBe(true)
+    expect(
+      Vector3.equalsWithEpsilon(corners[7], Vector3.create(100, 100, 100), 0.01)
+    ).toBe(true)
+
+    const rhCorners = Frustum.getCorners(rhFrustum())
+    expect(
+      Vector3.equalsWithEpsilon(rhCorners[0], Vector3.create(-1, -1, -1), 0.001)
+    ).toBe(true)
+    expect(
+      Vector3.equalsWithEpsilon(
+        rhCorners[7],
+        Vector3.create(100, 100, -100),
+        0.01
+      )
+    ).toBe(true)
+  })
+})
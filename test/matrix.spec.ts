@@ -1,5 +1,4 @@
-import { Epsilon, Quaternion, Vector3 } from '../src'
-import { Matrix } from '../src/Matrix'
+import { DEG2RAD, Epsilon, Matrix, Quaternion, Vector3 } from '../src'
 
 const results = {
   identity:
@@ -54,4 +53,138 @@ describe('ECS Matrix - Next tests', () => {
         Epsilon
     ).toBe(true)
   })
+
+  it('Matrix.IdentityReadonly is an identity matrix', () => {
+    expect(matrixToString(Matrix.IdentityReadonly())).toEqual(results.identity)
+    expect(Matrix.IdentityReadonly().isIdentity).toBe(true)
+  })
+
+  it('Matrix.fromQuaternion round trip with Quaternion.fromRotationMatrix', () => {
+    const r = Quaternion.fromEulerDegrees(30, 45, 60)
+    const m = Matrix.fromQuaternion(r)
+    const q = Quaternion.fromRotationMatrix(m)
+    expect(Math.abs(Quaternion.angle(r, q)) < Epsilon).toBe(true)
+  })
+
+  it('transform pipeline with public exports', () => {
+    const t = Vector3.create(1, 2, 3)
+    const r = Quaternion.fromEulerDegrees(0, 90, 0)
+    const s = Vector3.create(2, 2, 2)
+    const world = Matrix.compose(s, r, t)
+    const point = Vector3.create(1, 0, 0)
+
+    const expected = Vector3.add(Vector3.rotate(Vector3.scale(point, 2), r), t)
+    const transformed = Vector3.transformCoordinates(point, world)
+    expect(Vector3.equalsWithEpsilon(transformed, expected)).toBe(true)
+    expect(Vector3.equalsWithEpsilon(Matrix.getTranslation(world), t)).toBe(
+      true
+    )
+
+    const back = Vector3.transformCoordinates(transformed, Matrix.invert(world))
+    expect(Vector3.equalsWithEpsilon(back, point)).toBe(true)
+  })
+
+  it('Matrix.setRow and setColumn', () => {
+    const matrix = Matrix.Identity()
+    Matrix.setRow(matrix, 3, { x: 1, y: 2, z: 3, w: 1 })
+    expect(
+      Vector3.equals(Matrix.getTranslation(matrix), Vector3.create(1, 2, 3))
+    ).toBe(true)
+    expect(matrix.isIdentity).toBe(false)
+
+    Matrix.setColumn(matrix, 0, { x: 5, y: 6, z: 7, w: 8 })
+    expect(matrix._m[0]).toBe(5)
+    expect(matrix._m[4]).toBe(6)
+    expect(matrix._m[8]).toBe(7)
+    expect(matrix._m[12]).toBe(8)
+    expect(Matrix.getColumn(matrix, 0)).toEqual({ x: 5, y: 6, z: 7, w: 8 })
+  })
+
+  it('Matrix.rotationEuler and toEuler', () => {
+    const angles = Vector3.create(10, 20, 30)
+    const matrix = Matrix.rotationEuler(angles, 'XYZ')
+    // with row vectors, the intrinsic XYZ order applies Z first
+    const expected = Matrix.multiply(
+      Matrix.multiply(
+        Matrix.rotationZ(30 * DEG2RAD),
+        Matrix.rotationY(20 * DEG2RAD)
+      ),
+      Matrix.RotationX(10 * DEG2RAD)
+    )
+    for (let index = 0; index < 16; index++) {
+      expect(matrix._m[index]).toBeCloseTo(expected._m[index])
+    }
+
+    const scaled = Matrix.compose(
+      Vector3.create(2, 3, 4),
+      Quaternion.fromEuler(angles, 'ZYX'),
+      Vector3.create(1, 2, 3)
+    )
+    expect(
+      Vector3.equalsWithEpsilon(
+        Matrix.toEuler(scaled, 'ZYX', { signed: true }),
+        angles,
+        0.0001
+      )
+    ).toBe(true)
+  })
+
+  it('Matrix.orthonormalize', () => {
+    const rotation = Quaternion.fromEulerDegrees(30, 45, 60)
+    const drifted = Matrix.compose(
+      Vector3.One(),
+      rotation,
+      Vector3.create(1, 2, 3)
+    )
+    // accumulate some error on the axes
+    drifted._m[0] += 0.01
+    drifted._m[5] -= 0.02
+    drifted._m[9] += 0.015
+
+    for (const method of ['gramSchmidt', 'polar'] as const) {
+      const result = Matrix.orthonormalize(drifted, method)
+      const m = result._m
+      const xAxis = Vector3.create(m[0], m[1], m[2])
+      const yAxis = Vector3.create(m[4], m[5], m[6])
+      const zAxis = Vector3.create(m[8], m[9], m[10])
+      expect(Vector3.length(xAxis)).toBeCloseTo(1)
+      expect(Vector3.length(yAxis)).toBeCloseTo(1)
+      expect(Vector3.length(zAxis)).toBeCloseTo(1)
+      expect(Vector3.dot(xAxis, yAxis)).toBeCloseTo(0)
+      expect(Vector3.dot(xAxis, zAxis)).toBeCloseTo(0)
+      expect(Vector3.dot(yAxis, zAxis)).toBeCloseTo(0)
+      expect(Matrix.determinant(result)).toBeCloseTo(1)
+      expect(Vector3.create(m[12], m[13], m[14])).toEqual(
+        Vector3.create(1, 2, 3)
+      )
+      expect(
+        Quaternion.angle(Quaternion.fromRotationMatrix(result), rotation)
+      ).toBeLessThan(2)
+    }
+
+    // gram-schmidt keeps the X axis direction
+    const gramSchmidt = Matrix.orthonormalize(drifted)
+    const xDirection = Vector3.normalize(
+      Vector3.create(drifted._m[0], drifted._m[1], drifted._m[2])
+    )
+    expect(
+      Vector3.equalsWithEpsilon(
+        Vector3.create(gramSchmidt._m[0], gramSchmidt._m[1], gramSchmidt._m[2]),
+        xDirection
+      )
+    ).toBe(true)
+
+    // polar gives the rotation itself for a rotation with scale
+    const scaled = Matrix.compose(
+      Vector3.create(2, 3, 4),
+      rotation,
+      Vector3.Zero()
+    )
+    expect(
+      Quaternion.equalsRotation(
+        Quaternion.fromRotationMatrix(Matrix.orthonormalize(scaled, 'polar')),
+        rotation
+      )
+    ).toBe(true)
+  })
 })
@@ -0,0 +1,74 @@
+import { Matrix, Matrix3, Quaternion, Vector3 } from '../src'
+
+describe('ECS Matrix3', () => {
+  it('Matrix3.multiply, transpose and determinant', () => {
+    const a = Matrix3.fromValues(1, 2, 3, 0, 1, 4, 5, 6, 0)
+    expect(Matrix3.determinant(a)).toBe(1)
+    expect(Matrix3.equals(Matrix3.multiply(a, Matrix3.Identity()), a)).toBe(
+      true
+    )
+    expect(
+      Matrix3.equals(
+        Matrix3.transpose(a),
+        Matrix3.fromValues(1, 0, 5, 2, 1, 6, 3, 4, 0)
+      )
+    ).toBe(true)
+
+    const inverse = Matrix3.invert(a)
+    expect(
+      Matrix3.equals(
+        inverse,
+        Matrix3.fromValues(-24, 18, 5, 20, -15, -4, -5, 4, 1)
+      )
+    ).toBe(true)
+    expect(
+      Matrix3.equalsWithEpsilon(
+        Matrix3.multiply(a, inverse),
+        Matrix3.Identity()
+      )
+    ).toBe(true)
+  })
+
+  it('Matrix3 matches the upper-left block of Matrix', () => {
+    const rotationA = Quaternion.fromEulerDegrees(10, 20, 30)
+    const rotationB = Quaternion.fromEulerDegrees(-40, 5, 60)
+    expect(
+      Matrix3.equalsWithEpsilon(
+        Matrix3.fromQuaternion(rotationA),
+        Matrix3.fromMatrix(Matrix.fromQuaternion(rotationA))
+      )
+    ).toBe(true)
+
+    const product = Matrix3.multiply(
+      Matrix3.fromQuaternion(rotationA),
+      Matrix3.fromQuaternion(rotationB)
+    )
+    const product4 = Matrix.multiply(
+      Matrix.fromQuaternion(rotationA),
+      Matrix.fromQuaternion(rotationB)
+    )
+    expect(
+      Matrix3.equalsWithEpsilon(product, Matrix3.fromMatrix(product4))
+    ).toBe(true)
+    expect(
+      Matrix.equals(Matrix3.toMatrix(Matrix3.fromMatrix(product4)), product4)
+    ).toBe(true)
+  })
+
+  it('Matrix3.normalMatrix', () => {
+    const world = Matrix.compose(
+      Vector3.create(1, 4, 1),
+      Quaternion.fromEulerDegrees(0, 45, 0),
+      Vector3.create(10, 20, 30)
+    )
+    const normalMatrix = Matrix3.normalMatrix(world)
+
+    // the transformed normal stays perpendicular to the transformed surface
+    const tangent = Vector3.transformNormal(Vector3.create(1, 1, 0), world)
+    const normal = Matrix3.transformVector(
+      Vector3.create(1, -1, 0),
+      normalMatrix
+    )
+    expect(Vector3.dot(tangent, normal)).toBeCloseTo(0)
+  })
+})
@@ -0,0 +1,122 @@
+import { Noise, Vector2, Vector3, Vector4 } from '../src'
+
+describe('ECS Noise', () => {
+  const source = Noise.create(42)
+  const point2 = Vector2.create(1.3, -2.7)
+  const point3 = Vector3.create(1.3, -2.7, 0.4)
+  const point4 = Vector4.create(1.3, -2.7, 0.4, 5.1)
+
+  const noises: [string, (point: Vector4.ReadonlyVector4) => number][] = [
+    ['perlin2', (point) => Noise.perlin2(source, point)],
+    ['perlin3', (point) => Noise.perlin3(source, point)],
+    ['perlin4', (point) => Noise.perlin4(source, point)],
+    ['simplex2', (point) => Noise.simplex2(source, point)],
+    ['simplex3', (point) => Noise.simplex3(source, point)],
+    ['simplex4', (point) => Noise.simplex4(source, point)]
+  ]
+
+  function samples(count: number) {
+    const points: Vector4.MutableVector4[] = []
+    for (let index = 0; index < count; index++) {
+      points.push(
+        Vector4.create(
+          ((index * 7.31) % 53) - 26,
+          ((index * 3.17) % 41) - 20,
+          ((index * 5.71) % 37) - 18,
+          ((index * 2.53) % 29) - 14
+        )
+      )
+    }
+    return points
+  }
+
+  it('Noise is deterministic for a seed', () => {
+    expect(Noise.create(42)).toEqual(source)
+    expect(Noise.create(43).permutation).not.toEqual(source.permutation)
+    expect(source.permutation).toHaveLength(512)
+
+    expect(Noise.perlin2(source, point2)).toBeCloseTo(-0.44258996544, 12)
+    expect(Noise.perlin3(source, point3)).toBeCloseTo(-0.195386644522, 12)
+    expect(Noise.perlin4(source, point4)).toBeCloseTo(-0.173606628223, 12)
+    expect(Noise.simplex2(source, point2)).toBeCloseTo(-0.418637855748, 12)
+    expect(Noise.simplex3(source, point3)).toBeCloseTo(0.264395287177, 12)
+    expect(Noise.simplex4(source, point4)).toBeCloseTo(0.187294365487, 12)
+    expect(Noise.worley2(source, point2)).toBeCloseTo(0.618328933666, 12)
+    expect(Noise.worley3(source, point3)).toBeCloseTo(0.721100771033, 12)
+  })
+
+  it('Noise gradient noises are continuous, between -1 and 1', () => {
+    for (const [name, noise] of noises) {
+      let min = Infinity
+      let max = -Infinity
+      for (const point of samples(2000)) {
+        const value = noise(point)
+        min = Math.min(min, value)
+        max = Math.max(max, value)
+        const near = Vector4.create(
+          point.x + 1e-4,
+          point.y - 1e-4,
+          point.z + 1e-4,
+          point.w
+        )
+        expect(Math.abs(noise(near) - value)).toBeLessThan(1e-2)
+      }
+      expect({ name, inRange: min >= -1 && max <= 1 }).toEqual({
+        name,
+        inRange: true
+      })
+      expect(max - min).toBeGreaterThan(0.8)
+    }
+
+    // Perlin noise is 0 on the lattice
+    expect(Noise.perlin3(source, Vector3.create(3, -7, 12))).toBe(0)
+  })
+
+  it('Noise.worley is the distance to the closest feature point', () => {
+    let min = Infinity
+    for (const point of samples(2000)) {
+      const value = Noise.worley2(source, point)
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1.5)
+      min = Math.min(min, value)
+      expect(Noise.worley3(source, point)).toBeLessThan(1.8)
+    }
+    expect(min).toBeLessThan(0.1)
+  })
+
+  it('Noise fractal sums', () => {
+    const noise = (point: Vector3.ReadonlyVector3) =>
+      Noise.simplex3(source, point)
+    expect(Noise.fbm(noise, point3, { octaves: 1 })).toBe(noise(point3))
+    expect(Noise.fbm(noise, point3, { octaves: 0 })).toBe(0)
+
+    // each octave doubles the frequency and halves the amplitude
+    const expected =
+      (noise(point3) + 0.5 * noise(Vector3.scale(point3, 2))) / 1.5
+    expect(Noise.fbm(noise, point3, { octaves: 2 })).toBeCloseTo(expected, 12)
+    const custom =
+      (noise(point3) + 0.25 * noise(Vector3.scale(point3, 3))) / 1.25
+    expect(
+      Noise.fbm(noise, point3, { octaves: 2, lacunarity: 3, gain: 0.25 })
+    ).toBeCloseTo(custom, 12)
+
+    for (const point of samples(500)) {
+      const position = Vector3.create(point.x, point.y, point.z)
+      const fbm = Noise.fbm(noise, position)
+      expect(Math.abs(fbm)).toBeLessThanOrEqual(1)
+      const ridged = Noise.ridged(noise, position, { octaves: 6 })
+      expect(ridged).toBeGreaterThanOrEqual(0)
+      expect(ridged).toBeLessThanOrEqual(1)
+      const turbulence = Noise.turbulence(noise, position)
+      expect(turbulence).toBeGreaterThanOrEqual(0)
+      expect(turbulence).toBeLessThanOrEqual(1)
+    }
+
+    // the combinators work with 2D points
+    expect(
+      Noise.turbulence((point) => Noise.perlin2(source, point), point2, {
+        octaves: 1
+      })
+    ).toBe(Math.abs(Noise.perlin2(source, point2)))
+  })
+})
@@ -0,0 +1,79 @@
+import { AABB, Parcel, Vector3 } from '../src'
+
+describe('ECS Parcel', () => {
+  it('Parcel.parse and Parcel.toString', () => {
+    expect(Parcel.parse('-10,4')).toEqual({ x: -10, y: 4 })
+    expect(Parcel.parse(' 3 , -0 ')).toEqual({ x: 3, y: 0 })
+    expect(Object.is(Parcel.parse('-0,0')!.x, 0)).toBe(true)
+    expect(Parcel.parse('1.5,2')).toBeUndefined()
+    expect(Parcel.parse('1,2,3')).toBeUndefined()
+    expect(Parcel.parse('a,b')).toBeUndefined()
+    expect(Parcel.parse('')).toBeUndefined()
+    expect(Parcel.toString(Parcel.create(-10, 4))).toBe('-10,4')
+    expect(Parcel.parse(Parcel.toString(Parcel.create(-150, 150)))).toEqual(
+      Parcel.create(-150, 150)
+    )
+    expect(Parcel.equals(Parcel.create(1, 2), { x: 1, y: 2 })).toBe(true)
+    expect(Parcel.equals(Parcel.create(1, 2), { x: 2, y: 1 })).toBe(false)
+  })
+
+  it('Parcel world conversions', () => {
+    expect(Parcel.toWorldPosition(Parcel.create(-2, 3))).toEqual(
+      Vector3.create(-32, 0, 48)
+    )
+    expect(Parcel.toWorldPosition(Parcel.create(-2, 3), 10)).toEqual(
+      Vector3.create(-20, 0, 30)
+    )
+    expect(Parcel.fromWorldPosition(Vector3.create(-0.5, 100, 31.9))).toEqual(
+      Parcel.create(-1, 1)
+    )
+    expect(Parcel.fromWorldPosition(Vector3.create(16, 0, -16))).toEqual(
+      Parcel.create(1, -1)
+    )
+    expect(Parcel.fromWorldPosition(Vector3.create(25, 0, 5), 10)).toEqual(
+      Parcel.create(2, 0)
+    )
+  })
+
+  it('Parcel scene positions are relative to the base parcel', () => {
+    const base = Parcel.create(-10, 4)
+    const world = Parcel.sceneToWorld(Vector3.create(8, 2, 8), base)
+    expect(world).toEqual(Vector3.create(-152, 2, 72))
+    expect(Parcel.worldToScene(world, base)).toEqual(Vector3.create(8, 2, 8))
+    expect(Parcel.fromWorldPosition(world)).toEqual(base)
+  })
+
+  it('Parcel.areContiguous', () => {
+    const parse = (parcels: string[]) => parcels.map((p) => Parcel.parse(p)!)
+    expect(Parcel.areContiguous([])).toBe(false)
+    expect(Parcel.areContiguous(parse(['5,5']))).toBe(true)
+    expect(Parcel.areContiguous(parse(['0,0', '0,1', '1,1', '2,1']))).toBe(true)
+    expect(Parcel.areContiguous(parse(['0,0', '0,1', '0,1']))).toBe(true)
+    // touching by a corner is not enough
+    expect(Parcel.areContiguous(parse(['0,0', '1,1']))).toBe(false)
+    expect(Parcel.areContiguous(parse(['0,0', '0,1', '5,5']))).toBe(false)
+  })
+
+  it('Parcel scene bounds and inside test', () => {
+    const parcels = ['0,0', '1,0', '1,1'].map((p) => Parcel.parse(p)!)
+    const bounds = Parcel.getSceneBounds(parcels)
+    expect(bounds.min).toEqual(Vector3.create(0, 0, 0))
+    expect(bounds.max).toEqual(Vector3.create(32, 40, 32))
+    expect(Parcel.getHeightLimit(1)).toBe(20)
+    expect(AABB.isEmpty(Parcel.getSceneBounds([]))).toBe(true)
+
+    expect(Parcel.isInsideScene(Vector3.create(8, 0, 8), parcels)).toBe(true)
+    expect(Parcel.isInsideScene(Vector3.create(24, 0, 24), parcels)).toBe(true)
+    // inside the bounds but not over a parcel
+    expect(Parcel.isInsideScene(Vector3.create(8, 0, 24), parcels)).toBe(false)
+    // the borders are inside
+    expect(Parcel.isInsideScene(Vector3.create(16, 0, 32), parcels)).toBe(true)
+    expect(Parcel.isInsideScene(Vector3.create(0, 0, 16), parcels)).toBe(true)
+    expect(Parcel.isInsideScene(Vector3.create(-0.1, 0, 8), parcels)).toBe(
+      false
+    )
+    expect(Parcel.isInsideScene(Vector3.create(9, 0, 5), parcels, 4)).toBe(
+      false
+    )
+  })
+})
@@ -1,4 +1,4 @@
-import { Quaternion, Vector3 } from '../src/'
+import { EulerOrder, Matrix, Quaternion, Vector3 } from '../src/'
 
 const results = {
   staticAngle01: '90.00',
@@ -68,6 +68,16 @@ function vector3ToString(vec: Vector3.ReadonlyVector3) {
 }
 
 describe('ECS Quaternion - Next tests', () => {
+  it('Quaternion.copyFrom and copyFromFloats', () => {
+    const source = Quaternion.create(1, 2, 3, 4)
+    const dest = Quaternion.Identity()
+    Quaternion.copyFrom(source, dest)
+    expect(dest).toEqual(source)
+    expect(dest).not.toBe(source)
+    Quaternion.copyFromFloats(5, 6, 7, 8, dest)
+    expect(dest).toEqual(Quaternion.create(5, 6, 7, 8))
+  })
+
   it('Quaternion.angle', () => {
     expect(
       Quaternion.angle(
@@ -416,4 +426,320 @@ describe('ECS Quaternion - Next tests', () => {
       )
     ).toEqual(results.staticSlerp04)
   })
+
+  it('Quaternion.conjugate and inverse', () => {
+    const q = Quaternion.fromEulerDegrees(10, 20, 30)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.multiply(q, Quaternion.conjugate(q)),
+        Quaternion.Identity()
+      )
+    ).toBe(true)
+
+    const scaled = Quaternion.scale(q, 3)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.multiply(scaled, Quaternion.inverse(scaled)),
+        Quaternion.Identity()
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.inverse(q),
+        Quaternion.conjugate(q)
+      )
+    ).toBe(true)
+    expect(Quaternion.equals(Quaternion.negate(Quaternion.negate(q)), q)).toBe(
+      true
+    )
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.subtract(Quaternion.add(q, scaled), scaled),
+        q
+      )
+    ).toBe(true)
+  })
+
+  it('Quaternion.exp, log and pow', () => {
+    const q = Quaternion.fromAngleAxis(90, Vector3.create(1, 2, 3))
+    const logarithm = Quaternion.log(q)
+    expect(logarithm.w).toBeCloseTo(0)
+    expect(
+      Math.sqrt(
+        logarithm.x * logarithm.x +
+          logarithm.y * logarithm.y +
+          logarithm.z * logarithm.z
+      )
+    ).toBeCloseTo(Math.PI / 4)
+    expect(Quaternion.equalsWithEpsilon(Quaternion.exp(logarithm), q)).toBe(
+      true
+    )
+
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.pow(q, 0.5),
+        Quaternion.fromAngleAxis(45, Vector3.create(1, 2, 3))
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.pow(q, 2),
+        Quaternion.multiply(q, q)
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.pow(Quaternion.Identity(), 3),
+        Quaternion.Identity()
+      )
+    ).toBe(true)
+  })
+
+  it('Quaternion.equalsRotation', () => {
+    const q = Quaternion.fromEulerDegrees(40, 50, 60)
+    const negated = Quaternion.negate(q)
+    expect(Quaternion.equalsWithEpsilon(q, negated)).toBe(false)
+    expect(Quaternion.equalsRotation(q, negated)).toBe(true)
+    expect(Quaternion.equalsRotation(q, q)).toBe(true)
+    expect(
+      Quaternion.equalsRotation(q, Quaternion.fromEulerDegrees(40, 50, 61))
+    ).toBe(false)
+  })
+
+  it('Quaternion.fromEuler and toEuler with every order', () => {
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.fromEuler(Vector3.create(10, 20, 30), 'YXZ'),
+        Quaternion.fromEulerDegrees(10, 20, 30)
+      )
+    ).toBe(true)
+    expect(
+      Vector3.equalsWithEpsilon(
+        Quaternion.toEuler(Quaternion.fromEulerDegrees(350, 20, 30)),
+        Quaternion.toEulerAngles(Quaternion.fromEulerDegrees(350, 20, 30)),
+        0.0001
+      )
+    ).toBe(true)
+
+    // intrinsic XYZ is X, then the rotated Y, then the twice rotated Z
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.fromEuler(Vector3.create(10, 20, 30), 'XYZ'),
+        Quaternion.multiply(
+          Quaternion.multiply(
+            Quaternion.fromAngleAxis(10, Vector3.Right()),
+            Quaternion.fromAngleAxis(20, Vector3.Up())
+          ),
+          Quaternion.fromAngleAxis(30, Vector3.Forward())
+        )
+      )
+    ).toBe(true)
+
+    const orders: EulerOrder[] = [
+      'XYZ',
+      'XZY',
+      'YXZ',
+      'YZX',
+      'ZXY',
+      'ZYX',
+      'XYX',
+      'XZX',
+      'YXY',
+      'YZY',
+      'ZXZ',
+      'ZYZ'
+    ]
+    for (const order of orders) {
+      const isProperEuler = order[0] === order[2]
+      // the second angle of the sequence is in the range of the conversion
+      const angles = isProperEuler
+        ? Vector3.create(-120, 70, 45)
+        : Vector3.create(
+            order[1] === 'X' ? -40 : 120,
+            order[1] === 'Y' ? -40 : 120,
+            order[1] === 'Z' ? -40 : 120
+          )
+      const rotation = Quaternion.fromEuler(angles, order)
+      const signed = Quaternion.toEuler(rotation, order, { signed: true })
+      expect(Vector3.equalsWithEpsilon(signed, angles, 0.0001)).toBe(true)
+
+      const radians = Quaternion.toEuler(rotation, order, { unit: 'radians' })
+      expect(radians.x).toBeGreaterThanOrEqual(0)
+      expect(
+        Quaternion.equalsRotation(
+          Quaternion.fromEuler(radians, order, { unit: 'radians' }),
+          rotation
+        )
+      ).toBe(true)
+
+      // gimbal lock keeps the same rotation
+      const locked = isProperEuler
+        ? Vector3.create(30, 180, 0)
+        : Vector3.create(
+            order[1] === 'X' ? 90 : 30,
+            order[1] === 'Y' ? -90 : 30,
+            order[1] === 'Z' ? 90 : 30
+          )
+      const lockedRotation = Quaternion.fromEuler(locked, order)
+      expect(
+        Quaternion.equalsRotation(
+          Quaternion.fromEuler(
+            Quaternion.toEuler(lockedRotation, order),
+            order
+          ),
+          lockedRotation
+        )
+      ).toBe(true)
+    }
+
+    // a rotation a fraction of a degree away from the gimbal lock is not locked
+    for (const [angles, order] of [
+      [Vector3.create(-89.95, 30, 40), 'ZXY'],
+      [Vector3.create(30, 179.95, 40), 'ZXZ']
+    ] as [Vector3, EulerOrder][]) {
+      const rotation = Quaternion.fromEuler(angles, order)
+      expect(
+        Quaternion.equalsRotation(
+          Quaternion.fromEuler(Quaternion.toEuler(rotation, order), order),
+          rotation
+        )
+      ).toBe(true)
+    }
+  })
+
+  it('Quaternion.toAngleAxis', () => {
+    const axis = Vector3.normalize(Vector3.create(1, 2, 3))
+    const angleAxis = Quaternion.toAngleAxis(Quaternion.fromAngleAxis(70, axis))
+    expect(angleAxis.angle).toBeCloseTo(70)
+    expect(Vector3.equalsWithEpsilon(angleAxis.axis, axis)).toBe(true)
+
+    // the opposite hemisphere gives the shortest angle
+    const negated = Quaternion.toAngleAxis(
+      Quaternion.negate(Quaternion.fromAngleAxis(70, axis))
+    )
+    expect(negated.angle).toBeCloseTo(70)
+    expect(Vector3.equalsWithEpsilon(negated.axis, axis)).toBe(true)
+
+    expect(Quaternion.toAngleAxis(Quaternion.Identity()).angle).toBe(0)
+  })
+
+  it('Quaternion.swingTwist', () => {
+    const twist = Quaternion.fromAngleAxis(30, Vector3.Up())
+    const swing = Quaternion.fromAngleAxis(40, Vector3.Right())
+    const rotation = Quaternion.multiply(swing, twist)
+
+    const result = Quaternion.swingTwist(rotation, Vector3.Up())
+    expect(Quaternion.equalsRotation(result.twist, twist)).toBe(true)
+    expect(Quaternion.equalsRotation(result.swing, swing)).toBe(true)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.multiply(result.swing, result.twist),
+        rotation
+      )
+    ).toBe(true)
+
+    // the twist axis is not moved by the twist
+    const swung = Vector3.rotate(Vector3.Up(), result.swing)
+    expect(
+      Vector3.equalsWithEpsilon(swung, Vector3.rotate(Vector3.Up(), rotation))
+    ).toBe(true)
+  })
+
+  it('Quaternion.clampTwist', () => {
+    const swing = Quaternion.fromAngleAxis(40, Vector3.Right())
+    const rotation = Quaternion.multiply(
+      swing,
+      Quaternion.fromAngleAxis(-100, Vector3.Up())
+    )
+    const clamped = Quaternion.clampTwist(rotation, Vector3.Up(), -45, 45)
+    expect(
+      Quaternion.equalsRotation(
+        clamped,
+        Quaternion.multiply(swing, Quaternion.fromAngleAxis(-45, Vector3.Up()))
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsRotation(
+        Quaternion.clampTwist(rotation, Vector3.Up(), -180, 180),
+        rotation
+      )
+    ).toBe(true)
+  })
+
+  it('Quaternion.clampSwingCone', () => {
+    const twist = Quaternion.fromAngleAxis(20, Vector3.Forward())
+    const rotation = Quaternion.multiply(
+      Quaternion.fromAngleAxis(80, Vector3.Up()),
+      twist
+    )
+
+    // circular cone
+    expect(
+      Quaternion.equalsRotation(
+        Quaternion.clampSwingCone(rotation, Vector3.Forward(), 30),
+        Quaternion.multiply(Quaternion.fromAngleAxis(30, Vector3.Up()), twist)
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsRotation(
+        Quaternion.clampSwingCone(rotation, Vector3.Forward(), 90),
+        rotation
+      )
+    ).toBe(true)
+
+    // elliptical cone: 60 degrees of yaw, 10 degrees of pitch
+    const ellipse = {
+      axis: Vector3.Up(),
+      degrees: 60,
+      perpendicularDegrees: 10
+    }
+    expect(
+      Quaternion.equalsRotation(
+        Quaternion.clampSwingCone(rotation, Vector3.Forward(), ellipse),
+        Quaternion.multiply(Quaternion.fromAngleAxis(60, Vector3.Up()), twist)
+      )
+    ).toBe(true)
+    const pitch = Quaternion.fromAngleAxis(-45, Vector3.Right())
+    expect(
+      Quaternion.equalsRotation(
+        Quaternion.clampSwingCone(pitch, Vector3.Forward(), ellipse),
+        Quaternion.fromAngleAxis(-10, Vector3.Right())
+      )
+    ).toBe(true)
+  })
+
+  it('Quaternion.fromAxes', () => {
+    const rotation = Quaternion.fromEulerDegrees(10, 70, -30)
+    const right = Vector3.rotate(Vector3.Right(), rotation)
+    const up = Vector3.rotate(Vector3.Up(), rotation)
+    const forward = Vector3.rotate(Vector3.Forward(), rotation)
+    expect(
+      Quaternion.equalsRotation(
+        Quaternion.fromAxes(right, up, forward),
+        rotation
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsRotation(
+        Quaternion.fromAxes(
+          Vector3.scale(right, 2),
+          Vector3.scale(up, 3),
+          Vector3.scale(forward, 0.5)
+        ),
+        rotation
+      )
+    ).toBe(true)
+  })
+
+  it('Quaternion.fromRotationMatrix with scale', () => {
+    const rotation = Quaternion.fromEulerDegrees(-40, 120, 15)
+    const matrix = Matrix.compose(
+      Vector3.create(2, 0.5, 3),
+      rotation,
+      Vector3.create(1, 2, 3)
+    )
+    const result = Quaternion.fromRotationMatrix(matrix)
+    expect(Quaternion.equalsRotation(result, rotation)).toBe(true)
+    expect(Quaternion.length(result)).toBeCloseTo(1)
+  })
 })
@@ -0,0 +1,122 @@
+import { Color3, Quaternion, Random, Scalar, Vector2, Vector3 } from '../src'
+
+describe('ECS Random', () => {
+  it('Random generates the xoshiro128** sequence', () => {
+    const generator: Random.Generator = { state: [1, 2, 3, 4] }
+    expect([
+      Random.uint32(generator),
+      Random.uint32(generator),
+      Random.uint32(generator),
+      Random.uint32(generator)
+    ]).toEqual([11520, 0, 5927040, 70819200])
+
+    // the same seed gives the same numbers
+    const seeded = Random.create(42)
+    expect([Random.uint32(seeded), Random.uint32(seeded)]).toEqual([
+      660444221, 3652823732
+    ])
+    Random.setSeed(seeded, 42)
+    const copy = Random.clone(seeded)
+    expect(Random.float(seeded)).toBe(Random.float(copy))
+    expect(Random.float(seeded)).not.toBe(Random.float(Random.create(43)))
+  })
+
+  it('Random numbers stay in their ranges', () => {
+    const generator = Random.create(7)
+    const counts = [0, 0, 0, 0]
+    for (let index = 0; index < 4000; index++) {
+      const value = Random.float(generator)
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+      const ranged = Random.range(generator, -3, 5)
+      expect(ranged).toBeGreaterThanOrEqual(-3)
+      expect(ranged).toBeLessThan(5)
+      counts[Random.int(generator, 0, 3)]++
+    }
+    for (const count of counts) {
+      expect(count).toBeGreaterThan(900)
+      expect(count).toBeLessThan(1100)
+    }
+    expect(Random.int(generator, 5, 5)).toBe(5)
+  })
+
+  it('Random.pick and Random.shuffle', () => {
+    const generator = Random.create(3)
+    const array = [1, 2, 3, 4, 5, 6, 7, 8]
+    expect(array).toContain(Random.pick(generator, array))
+    expect(Random.pick(generator, [])).toBeUndefined()
+
+    const shuffled = Random.shuffle(generator, array)
+    expect(shuffled).not.toBe(array)
+    expect(shuffled).not.toEqual(array)
+    expect(shuffled.slice().sort()).toEqual(array)
+    expect(Random.shuffle(Random.create(3), array)).toEqual(
+      Random.shuffle(Random.create(3), array)
+    )
+  })
+
+  it('Random.gaussian follows the normal distribution', () => {
+    const generator = Random.create(11)
+    let sum = 0
+    let squares = 0
+    const count = 10000
+    for (let index = 0; index < count; index++) {
+      const value = Random.gaussian(generator, 2, 3)
+      sum += value
+      squares += value * value
+    }
+    const mean = sum / count
+    expect(mean).toBeCloseTo(2, 0)
+    expect(Math.sqrt(squares / count - mean * mean)).toBeCloseTo(3, 0)
+  })
+
+  it('Random points and rotations', () => {
+    const generator = Random.create(5)
+    const average = Vector3.Zero()
+    for (let index = 0; index < 1000; index++) {
+      const inside = Random.insideUnitSphere(generator)
+      expect(Vector3.length(inside)).toBeLessThanOrEqual(1)
+      const on = Random.onUnitSphere(generator)
+      expect(Vector3.length(on)).toBeCloseTo(1, 9)
+      Vector3.addToRef(average, on, average)
+      const circle = Random.insideUnitCircle(generator)
+      expect(Vector2.length(circle)).toBeLessThanOrEqual(1)
+      const rotation = Random.rotationUniform(generator)
+      expect(Quaternion.length(rotation)).toBeCloseTo(1, 9)
+    }
+    expect(Vector3.length(average) / 1000).toBeLessThan(0.1)
+
+    // only arithmetic operations, the same values on every engine
+    const seeded = Random.create(42)
+    expect(Random.gaussian(seeded)).toBe(-0.17089146967488833)
+    expect(Random.onUnitSphere(seeded)).toEqual({
+      x: 0.0896812300288345,
+      y: 0.9806249664672093,
+      z: -0.1741607077434506
+    })
+    expect(Random.rotationUniform(seeded)).toEqual({
+      x: 0.4544953890144825,
+      y: -0.11920983530580997,
+      z: 0.2039327585734912,
+      w: 0.8588564411538998
+    })
+  })
+
+  it('Random() helpers accept a generator', () => {
+    const draw = () => {
+      const generator = Random.create(99)
+      return [
+        Vector3.Random(generator),
+        Vector2.Random(generator),
+        Color3.Random(generator),
+        Scalar.randomRange(10, 20, generator)
+      ]
+    }
+    expect(draw()).toEqual(draw())
+
+    const generator = Random.create(99)
+    const expected = Random.float(Random.create(99))
+    expect(Vector3.Random(generator).x).toBe(expected)
+    expect(Scalar.randomRange(1, 1, generator)).toBe(1)
+  })
+})
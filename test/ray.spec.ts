@@ -0,0 +1,137 @@
+import {
+  AABB,
+  BoundingSphere,
+  Matrix,
+  Plane,
+  Quaternion,
+  Ray,
+  Vector3
+} from '../src'
+
+describe('ECS Ray', () => {
+  it('Ray.intersectsPlane', () => {
+    const ray = Ray.create(Vector3.create(0, 5, 0), Vector3.Down())
+    const ground = Plane.create(0, 1, 0, 0)
+    expect(Ray.intersectsPlane(ray, ground)).toBeCloseTo(5)
+    expect(
+      Ray.intersectsPlane(
+        Ray.create(Vector3.create(0, 5, 0), Vector3.Up()),
+        ground
+      )
+    ).toBeUndefined()
+    expect(
+      Ray.intersectsPlane(
+        Ray.create(Vector3.create(0, 5, 0), Vector3.Down(), 2),
+        ground
+      )
+    ).toBeUndefined()
+  })
+
+  it('Ray.intersectsAABB', () => {
+    const box = AABB.create(Vector3.create(-1, -1, 4), Vector3.create(1, 1, 6))
+    expect(Ray.intersectsAABB(Ray.create(), box)).toBeCloseTo(4)
+    expect(Ray.intersectsAABB(Ray.create(Vector3.create(0, 0, 5)), box)).toBe(0)
+    expect(
+      Ray.intersectsAABB(Ray.create(Vector3.create(2, 0, 0)), box)
+    ).toBeUndefined()
+    expect(
+      Ray.intersectsAABB(Ray.create(Vector3.Zero(), Vector3.Backward()), box)
+    ).toBeUndefined()
+  })
+
+  it('Ray.intersectsSphere', () => {
+    const sphere = BoundingSphere.create(Vector3.create(0, 0, 10), 2)
+    expect(Ray.intersectsSphere(Ray.create(), sphere)).toBeCloseTo(8)
+    expect(
+      Ray.intersectsSphere(Ray.create(Vector3.create(0, 3, 0)), sphere)
+    ).toBeUndefined()
+    expect(
+      Ray.intersectsSphere(
+        Ray.create(Vector3.Zero(), Vector3.Backward()),
+        sphere
+      )
+    ).toBeUndefined()
+  })
+
+  it('Ray.intersectsTriangle', () => {
+    const v0 = Vector3.create(0, 0, 5)
+    const v1 = Vector3.create(4, 0, 5)
+    const v2 = Vector3.create(0, 4, 5)
+    const hit = Ray.intersectsTriangle(
+      Ray.create(Vector3.create(1, 2, 0)),
+      v0,
+      v1,
+      v2
+    )
+    expect(hit).toBeDefined()
+    expect(hit!.distance).toBeCloseTo(5)
+    expect(hit!.bu).toBeCloseTo(0.25)
+    expect(hit!.bv).toBeCloseTo(0.5)
+
+    expect(
+      Ray.intersectsTriangle(Ray.create(Vector3.create(3, 3, 0)), v0, v1, v2)
+    ).toBeUndefined()
+    expect(
+      Ray.intersectsTriangle(
+        Ray.create(Vector3.create(1, 2, 0)),
+        v0,
+        v1,
+        v2,
+        true
+      )
+    ).toBeUndefined()
+    expect(
+      Ray.intersectsTriangle(
+        Ray.create(Vector3.create(1, 2, 0)),
+        v0,
+        v2,
+        v1,
+        true
+      )
+    ).toBeDefined()
+  })
+
+  it('Ray.fromScreenPoint', () => {
+    const view = Matrix.LookAtLH(
+      Vector3.Zero(),
+      Vector3.Forward(),
+      Vector3.Up()
+    )
+    const projection = Matrix.perspectiveFovLH(Math.PI / 2, 1, 1, 100)
+    const center = Ray.fromScreenPoint(50, 50, 100, 100, view, projection)
+    expect(
+      Vector3.equalsWithEpsilon(center.origin, Vector3.create(0, 0, 1), 0.0001)
+    ).toBe(true)
+    expect(
+      Vector3.equalsWithEpsilon(center.direction, Vector3.Forward(), 0.0001)
+    ).toBe(true)
+
+    const topLeft = Ray.fromScreenPoint(0, 0, 100, 100, view, projection)
+    expect(
+      Vector3.equalsWithEpsilon(
+        topLeft.direction,
+        Vector3.normalize(Vector3.create(-1, 1, 1)),
+        0.0001
+      )
+    ).toBe(true)
+  })
+
+  it('Ray.transform', () => {
+    const matrix = Matrix.compose(
+      Vector3.create(2, 2, 2),
+      Quaternion.fromEulerDegrees(0, 90, 0),
+      Vector3.create(0, 0, 3)
+    )
+    const ray = Ray.transform(
+      Ray.create(Vector3.Zero(), Vector3.Forward(), 5),
+      matrix
+    )
+    expect(
+      Vector3.equalsWithEpsilon(ray.origin, Vector3.create(0, 0, 3), 0.0001)
+    ).toBe(true)
+    expect(
+      Vector3.equalsWithEpsilon(ray.direction, Vector3.Right(), 0.0001)
+    ).toBe(true)
+    expect(ray.length).toBeCloseTo(10)
+  })
+})
@@ -0,0 +1,114 @@
+import { Quaternion, RotationSpline, Vector3 } from '../src'
+
+describe('ECS RotationSpline', () => {
+  it('Quaternion.squad', () => {
+    const start = Quaternion.fromEulerDegrees(0, 0, 0)
+    const end = Quaternion.fromEulerDegrees(0, 90, 0)
+    // with the ends as control points, squad is the same as slerp
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.squad(start, start, end, end, 0.3),
+        Quaternion.slerp(start, end, 0.3)
+      )
+    ).toBe(true)
+
+    const previous = Quaternion.fromEulerDegrees(0, -90, 0)
+    const next = Quaternion.fromEulerDegrees(0, 180, 0)
+    const control1 = Quaternion.squadControlPoint(previous, start, end)
+    const control2 = Quaternion.squadControlPoint(start, end, next)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.squad(start, control1, control2, end, 0),
+        start
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.squad(start, control1, control2, end, 1),
+        end
+      )
+    ).toBe(true)
+    // keys on a single axis with uniform steps have no tangent correction
+    expect(Quaternion.equalsWithEpsilon(control1, start)).toBe(true)
+
+    // squad keeps the hemispheres it is given, unlike slerp
+    const opposite = Quaternion.negate(Quaternion.fromEulerDegrees(0, 60, 0))
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.squad(start, start, opposite, opposite, 0.5),
+        Quaternion.normalize(Quaternion.add(start, opposite))
+      )
+    ).toBe(true)
+  })
+
+  it('RotationSpline.evaluate', () => {
+    const keys = [
+      { time: 1, rotation: Quaternion.fromEulerDegrees(0, 90, 0) },
+      { time: 0, rotation: Quaternion.Identity() },
+      { time: 2, rotation: Quaternion.fromEulerDegrees(45, 90, 0) }
+    ]
+    const spline = RotationSpline.create(keys)
+    expect(RotationSpline.startTime(spline)).toBe(0)
+    expect(RotationSpline.endTime(spline)).toBe(2)
+
+    expect(
+      Quaternion.equalsWithEpsilon(
+        RotationSpline.evaluate(spline, -1),
+        Quaternion.Identity()
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsRotation(
+        RotationSpline.evaluate(spline, 1),
+        keys[0].rotation
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsRotation(
+        RotationSpline.evaluate(spline, 10),
+        keys[2].rotation
+      )
+    ).toBe(true)
+    expect(Quaternion.length(RotationSpline.evaluate(spline, 1.5))).toBeCloseTo(
+      1
+    )
+
+    // no velocity kink at the middle key
+    const step = 0.001
+    const before = Quaternion.angle(
+      RotationSpline.evaluate(spline, 1 - step),
+      RotationSpline.evaluate(spline, 1)
+    )
+    const after = Quaternion.angle(
+      RotationSpline.evaluate(spline, 1),
+      RotationSpline.evaluate(spline, 1 + step)
+    )
+    expect(before / after).toBeCloseTo(1, 2)
+
+    expect(
+      Quaternion.equals(
+        RotationSpline.evaluate(RotationSpline.create([]), 1),
+        Quaternion.Identity()
+      )
+    ).toBe(true)
+  })
+
+  it('RotationSpline hemisphere fixing', () => {
+    const rotation = Quaternion.fromAngleAxis(10, Vector3.Up())
+    const keys = [
+      { time: 0, rotation: Quaternion.Identity() },
+      { time: 1, rotation: Quaternion.negate(rotation) }
+    ]
+    const fixed = RotationSpline.create(keys)
+    expect(fixed.keys[1].rotation.w).toBeGreaterThan(0)
+    expect(
+      Quaternion.angle(
+        RotationSpline.evaluate(fixed, 0.5),
+        Quaternion.Identity()
+      )
+    ).toBeCloseTo(5, 3)
+
+    const unfixed = RotationSpline.create(keys, false)
+    expect(unfixed.keys[1].rotation.w).toBeLessThan(0)
+  })
+})
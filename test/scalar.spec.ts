@@ -0,0 +1,126 @@
+import { Quaternion, Scalar, Vector3 } from '../src'
+
+describe('ECS Scalar', () => {
+  it('Scalar.smoothDamp converges to the target without overshooting', () => {
+    const velocity: Scalar.Velocity = { value: 0 }
+    let value = 0
+    for (let frame = 0; frame < 120; frame++) {
+      const next = Scalar.smoothDamp(value, 10, velocity, 0.3, 1 / 60)
+      expect(next).toBeGreaterThanOrEqual(value)
+      expect(next).toBeLessThanOrEqual(10)
+      value = next
+    }
+    expect(value).toBeCloseTo(10, 2)
+  })
+
+  it('Scalar.smoothDamp limits the speed and ignores empty frames', () => {
+    const velocity: Scalar.Velocity = { value: 0 }
+    let value = 0
+    for (let frame = 0; frame < 10; frame++) {
+      value = Scalar.smoothDamp(value, 1000, velocity, 0.1, 0.1, 5)
+    }
+    expect(value).toBeLessThanOrEqual(5 + 1e-6)
+    expect(Scalar.smoothDamp(value, 1000, velocity, 0.1, 0, 5)).toBe(value)
+
+    // a huge step lands on the target
+    const fast: Scalar.Velocity = { value: 0 }
+    expect(Scalar.smoothDamp(0, 1, fast, 0.1, 1000)).toBeCloseTo(1, 5)
+  })
+
+  it('Scalar.spring is stable for large steps', () => {
+    const config: Scalar.Spring = { stiffness: 1000, damping: 1, mass: 1 }
+    const velocity: Scalar.Velocity = { value: 0 }
+    let value = 0
+    for (let frame = 0; frame < 10; frame++) {
+      value = Scalar.spring(value, 1, velocity, config, 100)
+      expect(Number.isFinite(value)).toBe(true)
+    }
+    expect(value).toBeCloseTo(1, 5)
+    expect(velocity.value).toBeCloseTo(0, 5)
+  })
+
+  it('Scalar.spring only overshoots when under damped', () => {
+    const move = (damping: number) => {
+      const config: Scalar.Spring = { stiffness: 100, damping, mass: 1 }
+      const velocity: Scalar.Velocity = { value: 0 }
+      let value = 0
+      let max = 0
+      for (let frame = 0; frame < 600; frame++) {
+        value = Scalar.spring(value, 1, velocity, config, 1 / 60)
+        max = Math.max(max, value)
+      }
+      return { value, max }
+    }
+
+    // critical damping is 2 * sqrt(stiffness * mass)
+    for (const damping of [2, 20, 60]) {
+      const { value, max } = move(damping)
+      expect(value).toBeCloseTo(1, 3)
+      if (damping < 20) {
+        expect(max).toBeGreaterThan(1.5)
+      } else {
+        expect(max).toBeLessThanOrEqual(1 + 1e-9)
+      }
+    }
+  })
+
+  it('Scalar.spring does not depend on the frame rate', () => {
+    const config: Scalar.Spring = { stiffness: 50, damping: 3, mass: 2 }
+    const simulate = (steps: number) => {
+      const velocity: Scalar.Velocity = { value: 4 }
+      let value = -2
+      for (let step = 0; step < steps; step++) {
+        value = Scalar.spring(value, 3, velocity, config, 1 / steps)
+      }
+      return [value, velocity.value]
+    }
+    const [value, speed] = simulate(1)
+    const [fineValue, fineSpeed] = simulate(240)
+    expect(fineValue).toBeCloseTo(value, 9)
+    expect(fineSpeed).toBeCloseTo(speed, 9)
+  })
+
+  it('Vector3.smoothDamp converges on a straight line', () => {
+    const velocity = Vector3.Zero()
+    const target = Vector3.create(3, -4, 0)
+    let value = Vector3.Zero()
+    for (let frame = 0; frame < 120; frame++) {
+      value = Vector3.smoothDamp(value, target, velocity, 0.3, 1 / 60)
+      expect(Vector3.length(value)).toBeLessThanOrEqual(5 + 1e-9)
+      expect(value.x * 4 + value.y * 3).toBeCloseTo(0, 9)
+    }
+    expect(Vector3.distance(value, target)).toBeCloseTo(0, 2)
+
+    // the max speed limits the length of the movement, not each axis
+    const slow = Vector3.Zero()
+    const result = Vector3.Zero()
+    Vector3.smoothDampToRef(Vector3.Zero(), target, slow, 0.1, 0.1, 1, result)
+    expect(Vector3.length(result)).toBeLessThanOrEqual(0.1 + 1e-9)
+  })
+
+  it('Vector3.spring moves each axis as Scalar.spring', () => {
+    const config: Scalar.Spring = { stiffness: 20, damping: 2, mass: 1 }
+    const velocity = Vector3.create(1, 2, 3)
+    const value = Vector3.create(4, 5, 6)
+    Vector3.springToRef(value, Vector3.One(), velocity, config, 0.5, value)
+
+    const speed: Scalar.Velocity = { value: 2 }
+    expect(value.y).toBe(Scalar.spring(5, 1, speed, config, 0.5))
+    expect(velocity.y).toBe(speed.value)
+  })
+
+  it('Quaternion.smoothDamp reaches the target through the shortest path', () => {
+    const target = Quaternion.fromEulerDegrees(0, 170, 0)
+    const flipped = Quaternion.negate(target)
+    const velocity = Quaternion.Zero()
+    let value = Quaternion.Identity()
+    for (let frame = 0; frame < 180; frame++) {
+      value = Quaternion.smoothDamp(value, flipped, velocity, 0.3, 1 / 60)
+      expect(Quaternion.length(value)).toBeCloseTo(1, 9)
+    }
+    expect(Quaternion.angle(value, target)).toBeCloseTo(0, 1)
+    expect(Quaternion.smoothDamp(value, target, velocity, 0.3, 0)).toEqual(
+      value
+    )
+  })
+})
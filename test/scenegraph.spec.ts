@@ -0,0 +1,98 @@
+import { Matrix, SceneGraph, Transform, Vector3 } from '../src'
+
+describe('ECS SceneGraph', () => {
+  function createNodes() {
+    return new Map<number, SceneGraph.Node>([
+      [3, { parent: 2, local: Matrix.translation(0, 0, 1) }],
+      [2, { parent: 1, local: Matrix.translation(0, 1, 0) }],
+      [1, { local: Matrix.translation(1, 0, 0) }],
+      [4, { parent: 1, local: Matrix.scaling(2, 2, 2) }],
+      [5, { parent: 99, local: Matrix.translation(0, 0, 5) }]
+    ])
+  }
+
+  function worldPosition(graph: SceneGraph, entity: number) {
+    return Vector3.transformCoordinates(
+      Vector3.Zero(),
+      SceneGraph.getWorldMatrix(graph, entity)!
+    )
+  }
+
+  it('SceneGraph.getTopologicalOrder', () => {
+    const nodes = createNodes()
+    const order = SceneGraph.getTopologicalOrder(nodes)!
+    expect(order).toHaveLength(5)
+    expect(order.indexOf(1)).toBeLessThan(order.indexOf(2))
+    expect(order.indexOf(2)).toBeLessThan(order.indexOf(3))
+    expect(order.indexOf(1)).toBeLessThan(order.indexOf(4))
+
+    nodes.set(1, { parent: 3, local: Matrix.Identity() })
+    expect(SceneGraph.getTopologicalOrder(nodes)).toBeUndefined()
+
+    nodes.set(1, { parent: 1, local: Matrix.Identity() })
+    expect(SceneGraph.getTopologicalOrder(nodes)).toBeUndefined()
+  })
+
+  it('SceneGraph.update', () => {
+    const nodes = createNodes()
+    const graph = SceneGraph.create()
+    expect(SceneGraph.update(graph, nodes)).toBe(true)
+
+    expect(worldPosition(graph, 3)).toEqual(Vector3.create(1, 1, 1))
+    expect(worldPosition(graph, 5)).toEqual(Vector3.create(0, 0, 5))
+    expect(
+      Vector3.transformCoordinates(
+        Vector3.create(1, 0, 0),
+        SceneGraph.getWorldMatrix(graph, 4)!
+      )
+    ).toEqual(Vector3.create(3, 0, 0))
+    expect(SceneGraph.getWorldMatrix(graph, 99)).toBeUndefined()
+
+    // with a cycle nothing is updated
+    const cyclic = createNodes()
+    cyclic.set(1, { parent: 3, local: Matrix.Identity() })
+    expect(SceneGraph.update(graph, cyclic)).toBe(false)
+    expect(worldPosition(graph, 3)).toEqual(Vector3.create(1, 1, 1))
+  })
+
+  it('SceneGraph.update only recomputes dirty entities', () => {
+    const nodes = createNodes()
+    const graph = SceneGraph.create()
+    SceneGraph.update(graph, nodes)
+    const flags = new Map(
+      Array.from(graph.worldMatrices).map(([entity, matrix]) => [
+        entity,
+        matrix.updateFlag
+      ])
+    )
+    const world3 = SceneGraph.getWorldMatrix(graph, 3)
+
+    // nothing changed
+    SceneGraph.update(graph, nodes)
+    for (const [entity, matrix] of graph.worldMatrices) {
+      expect(matrix.updateFlag).toBe(flags.get(entity))
+    }
+
+    // moving the entity 2 updates its child but not its parent or sibling
+    Transform.toMatrixToRef(
+      Transform.create(Vector3.create(0, 3, 0)),
+      nodes.get(2)!.local as Matrix.MutableMatrix
+    )
+    SceneGraph.update(graph, nodes)
+    expect(graph.worldMatrices.get(1)!.updateFlag).toBe(flags.get(1))
+    expect(graph.worldMatrices.get(4)!.updateFlag).toBe(flags.get(4))
+    expect(graph.worldMatrices.get(2)!.updateFlag).not.toBe(flags.get(2))
+    expect(graph.worldMatrices.get(3)!.updateFlag).not.toBe(flags.get(3))
+    expect(worldPosition(graph, 3)).toEqual(Vector3.create(1, 3, 1))
+    // the buffers are reused
+    expect(SceneGraph.getWorldMatrix(graph, 3)).toBe(world3)
+
+    // reparenting and removing entities
+    nodes.set(3, { parent: 4, local: nodes.get(3)!.local })
+    nodes.delete(2)
+    SceneGraph.update(graph, nodes)
+    expect(worldPosition(graph, 3)).toEqual(Vector3.create(1, 0, 2))
+    expect(SceneGraph.getWorldMatrix(graph, 2)).toBeUndefined()
+    expect(graph.order).toHaveLength(4)
+  })
+})
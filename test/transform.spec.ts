@@ -0,0 +1,126 @@
+import { Matrix, Quaternion, Transform, Vector3 } from '../src'
+
+describe('ECS Transform', () => {
+  const parent = Transform.create(
+    Vector3.create(1, 2, 3),
+    Quaternion.fromEulerDegrees(0, 90, 0),
+    Vector3.create(2, 2, 2)
+  )
+  const child = Transform.create(
+    Vector3.create(0, 1, 1),
+    Quaternion.fromEulerDegrees(30, 0, 0),
+    Vector3.create(1, 3, 1)
+  )
+
+  it('Transform.toMatrix and fromMatrix', () => {
+    const matrix = Transform.toMatrix(child)
+    const point = Vector3.create(1, 2, 3)
+    expect(
+      Vector3.equalsWithEpsilon(
+        Vector3.transformCoordinates(point, matrix),
+        Transform.transformPoint(child, point)
+      )
+    ).toBe(true)
+
+    const result = Transform.fromMatrix(matrix)
+    expect(Vector3.equalsWithEpsilon(result.position, child.position)).toBe(
+      true
+    )
+    expect(Quaternion.equalsRotation(result.rotation, child.rotation)).toBe(
+      true
+    )
+    expect(Vector3.equalsWithEpsilon(result.scale, child.scale)).toBe(true)
+  })
+
+  it('Transform.multiply', () => {
+    const world = Transform.multiply(parent, child)
+    const point = Vector3.create(1, -1, 2)
+    expect(
+      Vector3.equalsWithEpsilon(
+        Transform.transformPoint(world, point),
+        Transform.transformPoint(parent, Transform.transformPoint(child, point))
+      )
+    ).toBe(true)
+
+    // same as the matrices, with the child applied first
+    const matrix = Matrix.multiply(
+      Transform.toMatrix(child),
+      Transform.toMatrix(parent)
+    )
+    expect(
+      Vector3.equalsWithEpsilon(
+        Transform.transformPoint(world, point),
+        Vector3.transformCoordinates(point, matrix)
+      )
+    ).toBe(true)
+  })
+
+  it('Transform.inverse and inverseTransformPoint', () => {
+    const point = Vector3.create(4, 5, -6)
+    const local = Transform.inverseTransformPoint(child, point)
+    expect(
+      Vector3.equalsWithEpsilon(Transform.transformPoint(child, local), point)
+    ).toBe(true)
+
+    const inverse = Transform.inverse(parent)
+    expect(
+      Vector3.equalsWithEpsilon(
+        Transform.transformPoint(
+          inverse,
+          Transform.transformPoint(parent, point)
+        ),
+        point
+      )
+    ).toBe(true)
+    const identity = Transform.multiply(inverse, parent)
+    expect(Vector3.equalsWithEpsilon(identity.position, Vector3.Zero())).toBe(
+      true
+    )
+    expect(
+      Quaternion.equalsRotation(identity.rotation, Quaternion.Identity())
+    ).toBe(true)
+    expect(Vector3.equalsWithEpsilon(identity.scale, Vector3.One())).toBe(true)
+  })
+
+  it('Transform.transformDirection', () => {
+    const direction = Transform.transformDirection(parent, Vector3.Forward())
+    expect(Vector3.equalsWithEpsilon(direction, Vector3.Right())).toBe(true)
+  })
+
+  it('Transform.lerp', () => {
+    const start = Transform.create()
+    const end = Transform.create(
+      Vector3.create(10, 0, 0),
+      Quaternion.fromEulerDegrees(0, 90, 0),
+      Vector3.create(3, 3, 3)
+    )
+    const middle = Transform.lerp(start, end, 0.5)
+    expect(
+      Vector3.equalsWithEpsilon(middle.position, Vector3.create(5, 0, 0))
+    ).toBe(true)
+    expect(
+      Quaternion.equalsRotation(
+        middle.rotation,
+        Quaternion.fromEulerDegrees(0, 45, 0)
+      )
+    ).toBe(true)
+    expect(
+      Vector3.equalsWithEpsilon(middle.scale, Vector3.create(2, 2, 2))
+    ).toBe(true)
+  })
+
+  it('Transform.lookAt', () => {
+    const transform = Transform.create(Vector3.create(1, 0, 1))
+    const result = Transform.lookAt(transform, Vector3.create(5, 0, 1))
+    expect(
+      Vector3.equalsWithEpsilon(
+        Transform.transformDirection(result, Vector3.Forward()),
+        Vector3.Right()
+      )
+    ).toBe(true)
+    expect(result.position).toEqual(transform.position)
+
+    const same = Transform.lookAt(result, result.position)
+    expect(Quaternion.equals(same.rotation, result.rotation)).toBe(true)
+  })
+})
@@ -1,8 +1,15 @@
 import { Vector2 } from '../src/Vector2'
+import { Matrix } from '../src/Matrix'
 
 const results = {
   zeros: '(0.0, 0.0)',
-  ones: '(1.0, 1.0)'
+  ones: '(1.0, 1.0)',
+  minusOnes: '(-1.0, -1.0)',
+  normalized: '(0.6, 0.8)',
+  perpendicular: '(-4.0, 3.0)',
+  lerped: '(1.5, 2.0)',
+  clamped: '(1.0, 0.0)',
+  transformed: '(4.0, 7.0)'
 }
 
 const normalize = (v: string) => (v === '-0.0' ? '0.0' : v)
@@ -22,4 +29,95 @@ describe('ECS Vector2 - Next tests', () => {
   it('Vector3.create zeros', () => {
     expect(vector2ToString(Vector2.Zero())).toEqual(results.zeros)
   })
+
+  it('Vector2.add ones + zeros = ones', () => {
+    expect(vector2ToString(Vector2.add(Vector2.Zero(), Vector2.One()))).toEqual(
+      results.ones
+    )
+  })
+
+  it('Vector2.sub zeros - ones = -ones', () => {
+    expect(
+      vector2ToString(Vector2.subtract(Vector2.Zero(), Vector2.One()))
+    ).toEqual(results.minusOnes)
+    expect(vector2ToString(Vector2.negate(Vector2.One()))).toEqual(
+      results.minusOnes
+    )
+  })
+
+  it('Vector2.length and normalize', () => {
+    const vector = Vector2.create(3, 4)
+    expect(Vector2.length(vector)).toBe(5)
+    expect(Vector2.lengthSquared(vector)).toBe(25)
+    expect(vector2ToString(Vector2.normalize(vector))).toEqual(
+      results.normalized
+    )
+    expect(Vector2.distance(Vector2.Zero(), vector)).toBe(5)
+  })
+
+  it('Vector2.dot, cross and perpendicular', () => {
+    const vector = Vector2.create(3, 4)
+    expect(Vector2.dot(vector, Vector2.create(2, 1))).toBe(10)
+    expect(Vector2.cross(Vector2.Right(), Vector2.Up())).toBe(1)
+    expect(Vector2.cross(Vector2.Up(), Vector2.Right())).toBe(-1)
+    expect(vector2ToString(Vector2.perpendicular(vector))).toEqual(
+      results.perpendicular
+    )
+    expect(Vector2.dot(vector, Vector2.perpendicular(vector))).toBe(0)
+  })
+
+  it('Vector2.signedAngle', () => {
+    expect(Vector2.signedAngle(Vector2.Right(), Vector2.Up())).toBeCloseTo(
+      Math.PI / 2
+    )
+    expect(Vector2.signedAngle(Vector2.Up(), Vector2.Right())).toBeCloseTo(
+      -Math.PI / 2
+    )
+    expect(Vector2.angle(Vector2.Up(), Vector2.Right())).toBeCloseTo(
+      Math.PI / 2
+    )
+  })
+
+  it('Vector2.rotate', () => {
+    const rotated = Vector2.rotate(Vector2.Right(), Math.PI / 2)
+    expect(Vector2.equalsWithEpsilon(rotated, Vector2.Up())).toBe(true)
+  })
+
+  it('Vector2.lerp, clamp, minimize and maximize', () => {
+    expect(
+      vector2ToString(Vector2.lerp(Vector2.One(), Vector2.create(2, 3), 0.5))
+    ).toEqual(results.lerped)
+    expect(
+      vector2ToString(
+        Vector2.clamp(Vector2.create(2, -1), Vector2.Zero(), Vector2.One())
+      )
+    ).toEqual(results.clamped)
+    const a = Vector2.create(1, 4)
+    const b = Vector2.create(3, 2)
+    expect(Vector2.equals(Vector2.minimize(a, b), Vector2.create(1, 2))).toBe(
+      true
+    )
+    expect(Vector2.equals(Vector2.maximize(a, b), Vector2.create(3, 4))).toBe(
+      true
+    )
+  })
+
+  it('Vector2.fromArray and toArray', () => {
+    const array = [0, 1, 2, 3]
+    const vector = Vector2.fromArray(array, 2)
+    expect(Vector2.equalsToFloats(vector, 2, 3)).toBe(true)
+    const out: number[] = []
+    Vector2.toArray(vector, out, 1)
+    expect(out[1]).toBe(2)
+    expect(out[2]).toBe(3)
+  })
+
+  it('Vector2.transformCoordinates', () => {
+    const matrix = Matrix.translation(3, 5, 0)
+    expect(
+      vector2ToString(
+        Vector2.transformCoordinates(Vector2.create(1, 2), matrix)
+      )
+    ).toEqual(results.transformed)
+  })
 })
@@ -385,4 +385,43 @@ describe('ECS Vector3 - Next tests', () => {
     expect(angles.y).toBeCloseTo(26.772)
     expect(angles.z).toBeCloseTo(42.67)
   })
+
+  it('Vector3.project and unproject', () => {
+    const viewport = { x: 10, y: 20, width: 200, height: 100 }
+    const cameras = [
+      {
+        view: Matrix.LookAtLH(Vector3.Zero(), Vector3.Forward(), Vector3.Up()),
+        projection: Matrix.perspectiveFovLH(Math.PI / 2, 2, 1, 100),
+        point: Vector3.create(5, 5, 10)
+      },
+      {
+        view: Matrix.lookAtRH(Vector3.Zero(), Vector3.Backward(), Vector3.Up()),
+        projection: Matrix.PerspectiveFovRH(Math.PI / 2, 2, 1, 100),
+        point: Vector3.create(5, 5, -10)
+      }
+    ]
+
+    for (const { view, projection, point } of cameras) {
+      const world = Matrix.Identity()
+      const center = Vector3.project(
+        Vector3.create(0, 0, point.z),
+        world,
+        view,
+        projection,
+        viewport
+      )
+      expect(center.x).toBeCloseTo(110)
+      expect(center.y).toBeCloseTo(70)
+
+      // right and up on the world map to right and up on the screen
+      const screen = Vector3.project(point, world, view, projection, viewport)
+      expect(screen.x).toBeCloseTo(110 + 25)
+      expect(screen.y).toBeCloseTo(70 - 25)
+      expect(screen.z).toBeGreaterThan(0)
+      expect(screen.z).toBeLessThan(1)
+
+      const back = Vector3.unproject(screen, world, view, projection, viewport)
+      expect(Vector3.equalsWithEpsilon(back, point, 0.0001)).toBe(true)
+    }
+  })
 })
@@ -0,0 +1,92 @@
+import { Color4, Matrix, Quaternion, Vector3, Vector4 } from '../src'
+
+describe('ECS Vector4', () => {
+  it('Vector4 arithmetic', () => {
+    const a = Vector4.create(1, 2, 3, 4)
+    const b = Vector4.create(4, 3, 2, 1)
+    expect(Vector4.equalsToFloats(Vector4.add(a, b), 5, 5, 5, 5)).toBe(true)
+    expect(Vector4.equalsToFloats(Vector4.subtract(a, b), -3, -1, 1, 3)).toBe(
+      true
+    )
+    expect(Vector4.equalsToFloats(Vector4.multiply(a, b), 4, 6, 6, 4)).toBe(
+      true
+    )
+    expect(Vector4.equalsToFloats(Vector4.scale(a, 2), 2, 4, 6, 8)).toBe(true)
+    expect(Vector4.equalsToFloats(Vector4.negate(a), -1, -2, -3, -4)).toBe(true)
+    expect(Vector4.dot(a, b)).toBe(20)
+    expect(Vector4.lengthSquared(a)).toBe(30)
+    expect(Vector4.length(Vector4.normalize(a))).toBeCloseTo(1)
+    expect(
+      Vector4.equalsToFloats(Vector4.lerp(a, b, 0.5), 2.5, 2.5, 2.5, 2.5)
+    ).toBe(true)
+    expect(Vector4.distance(a, a)).toBe(0)
+    expect(Vector4.toString(a)).toBe('(1, 2, 3, 4)')
+  })
+
+  it('Vector4 conversions', () => {
+    const point = Vector4.fromVector3(Vector3.create(1, 2, 3), 1)
+    expect(Vector4.equalsToFloats(point, 1, 2, 3, 1)).toBe(true)
+    expect(
+      Vector3.equals(
+        Vector4.toVector3(Vector4.create(2, 4, 6, 2)),
+        Vector3.create(1, 2, 3)
+      )
+    ).toBe(true)
+    expect(
+      Vector4.equalsToFloats(
+        Vector4.fromColor4(Color4.create(0.1, 0.2, 0.3, 0.4)),
+        0.1,
+        0.2,
+        0.3,
+        0.4
+      )
+    ).toBe(true)
+  })
+
+  it('Vector4.transform', () => {
+    const matrix = Matrix.compose(
+      Vector3.create(2, 2, 2),
+      Quaternion.fromEulerDegrees(0, 90, 0),
+      Vector3.create(1, 2, 3)
+    )
+    const position = Vector3.create(1, 0, 0)
+    const point = Vector4.transform(Vector4.fromVector3(position, 1), matrix)
+    expect(
+      Vector3.equalsWithEpsilon(
+        Vector4.toVector3(point),
+        Vector3.transformCoordinates(position, matrix)
+      )
+    ).toBe(true)
+
+    const direction = Vector4.transform(
+      Vector4.fromVector3(position, 0),
+      matrix
+    )
+    expect(direction.w).toBe(0)
+    expect(
+      Vector3.equalsWithEpsilon(
+        Vector3.create(direction.x, direction.y, direction.z),
+        Vector3.transformNormal(position, matrix)
+      )
+    ).toBe(true)
+
+    // no perspective divide
+    const projection = Matrix.perspectiveFovLH(Math.PI / 2, 1, 1, 100)
+    const clip = Vector4.transform(Vector4.create(0, 0, 10, 1), projection)
+    expect(clip.w).toBeCloseTo(10)
+  })
+
+  it('Matrix.getRow and getColumn', () => {
+    const matrix = Matrix.fromArray([
+      0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15
+    ])
+    expect(Vector4.equalsToFloats(Matrix.getRow(matrix, 1)!, 4, 5, 6, 7)).toBe(
+      true
+    )
+    expect(
+      Vector4.equalsToFloats(Matrix.getColumn(matrix, 2)!, 2, 6, 10, 14)
+    ).toBe(true)
+    expect(Matrix.getRow(matrix, 4)).toBeNull()
+    expect(Matrix.getColumn(matrix, -1)).toBeNull()
+  })
+})